@@ -5,6 +5,8 @@ import HomePage from './components/HomePage';
 import FacilitatorPage from './components/FacilitatorPage';
 import ParticipantPage from './components/ParticipantPage';
 import GameRoom from './components/GameRoom';
+import AnalyticsPage from './components/AnalyticsPage';
+import ReplayViewer from './components/ReplayViewer';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import MTMFooter from './components/MTMFooter';
 
@@ -18,6 +20,8 @@ function App() {
             <Route path="/facilitator" element={<FacilitatorPage />} />
             <Route path="/join/:roomCode?" element={<ParticipantPage />} />
             <Route path="/room/:roomCode" element={<GameRoom />} />
+            <Route path="/analytics" element={<AnalyticsPage />} />
+            <Route path="/replay/:sessionId" element={<ReplayViewer />} />
           </Routes>
           <MTMFooter />
         </div>
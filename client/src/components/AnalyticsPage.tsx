@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { RoomService } from '../services/rooms';
+import { getTrackClass } from '../utils/tracks';
+import type { AnalyticsOverview, DivisionGroup, ScenarioAnalytics } from '../services/api';
+import './AnalyticsPage.css';
+
+type SortKey = 'plays' | 'division' | 'latency';
+
+const SORTS: Record<SortKey, { label: string; compare: (a: ScenarioAnalytics, b: ScenarioAnalytics) => number }> = {
+  plays: { label: 'Most played', compare: (a, b) => b.plays - a.plays },
+  division: { label: 'Most divided', compare: (a, b) => (b.division ?? -1) - (a.division ?? -1) },
+  latency: { label: 'Slowest to decide', compare: (a, b) => (b.medianLatencyMs ?? -1) - (a.medianLatencyMs ?? -1) },
+};
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const seconds = (ms: number | null) => (ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`);
+
+const AnalyticsPage: React.FC = () => {
+  const [overview, setOverview] = useState<AnalyticsOverview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('plays');
+
+  useEffect(() => {
+    RoomService.getScenarioAnalytics().then(({ data, error }) => {
+      if (error) {
+        setLoadError(error.message);
+        return;
+      }
+      setOverview(data);
+    });
+  }, []);
+
+  const renderSplit = (scenario: ScenarioAnalytics) => {
+    if (scenario.totalVotes === 0) {
+      return <span className="no-votes">No votes yet</span>;
+    }
+    return (
+      <div className="split-bar" role="img" aria-label={scenario.tracks.map(track => `${track.label} ${scenario.trackVotes[track.id] ?? 0}`).join(', ')}>
+        {scenario.tracks.map((track, index) => {
+          const votes = scenario.trackVotes[track.id] ?? 0;
+          return votes > 0 && (
+            <div
+              key={track.id}
+              className={`split-segment ${getTrackClass(track, index)}`}
+              style={{ width: `${(votes / scenario.totalVotes) * 100}%` }}
+              title={`${track.label}: ${votes}`}
+            >
+              {Math.round((votes / scenario.totalVotes) * 100)}%
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderGroups = (heading: string, groups: DivisionGroup[]) => (
+    <section className="analytics-card">
+      <h2>{heading}</h2>
+      {groups.length === 0 ? (
+        <p className="no-votes">No votes yet</p>
+      ) : (
+        <ol className="division-list">
+          {groups.map(group => (
+            <li key={group.value}>
+              <span className="division-value">{group.value}</span>
+              <span className="division-meter" aria-hidden="true">
+                <span style={{ width: percent(group.division) }} />
+              </span>
+              <span className="division-score">{percent(group.division)}</span>
+              <span className="division-meta">{group.scenarios} scenarios · {group.votes} votes</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+
+  return (
+    <div className="analytics-page">
+      <div className="header">
+        <h1>Scenario Analytics</h1>
+        <p>How every scenario has played across all sessions</p>
+      </div>
+
+      {loadError && (
+        <div className="error-message" role="alert">
+          {loadError === 'Authentication required'
+            ? <>Analytics are for facilitators. <Link to="/facilitator">Create a session</Link> in this browser first.</>
+            : loadError}
+        </div>
+      )}
+
+      {!overview && !loadError && <p className="analytics-loading">Loading analytics...</p>}
+
+      {overview && (
+        <>
+          <div className="analytics-groups">
+            {renderGroups('Most Divisive Ethical Axes', overview.byEthicalAxis)}
+            {renderGroups('By Difficulty', overview.byDifficulty)}
+          </div>
+
+          <section className="analytics-card">
+            <div className="analytics-table-header">
+              <h2>Scenarios</h2>
+              <label>
+                Sort by{' '}
+                <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)}>
+                  {(Object.keys(SORTS) as SortKey[]).map(key => (
+                    <option key={key} value={key}>{SORTS[key].label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="analytics-table-wrapper">
+              <table className="analytics-table">
+                <thead>
+                  <tr>
+                    <th scope="col">Scenario</th>
+                    <th scope="col">Plays</th>
+                    <th scope="col">Votes</th>
+                    <th scope="col">Split</th>
+                    <th scope="col">Divided</th>
+                    <th scope="col">Median decision</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...overview.scenarios].sort(SORTS[sortKey].compare).map(scenario => (
+                    <tr key={scenario.scenarioId} className={scenario.isActive ? '' : 'archived'}>
+                      <th scope="row">
+                        <span className="scenario-title">{scenario.title}</span>
+                        <span className="scenario-tags">
+                          {scenario.difficultyLevel}
+                          {scenario.ethicalAxes.length > 0 && ` · ${scenario.ethicalAxes.join(', ')}`}
+                          {!scenario.isActive && ' · archived'}
+                        </span>
+                      </th>
+                      <td>{scenario.plays}</td>
+                      <td>{scenario.totalVotes}</td>
+                      <td className="split-cell">{renderSplit(scenario)}</td>
+                      <td>{percent(scenario.division)}</td>
+                      <td>{seconds(scenario.medianLatencyMs)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPage;
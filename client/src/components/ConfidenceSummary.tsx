@@ -0,0 +1,85 @@
+import React from 'react';
+import type { ConfidenceDistribution, ScenarioTrack } from '../services/api';
+import { getTrackClass } from '../utils/tracks';
+
+interface ConfidenceSummaryProps {
+  tracks: ScenarioTrack[];
+  trackVotes: Record<string, number>;
+  confidence: ConfidenceDistribution;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+// Leading tracks closer than this share of the vote count as split down the middle
+const SPLIT_MARGIN = 0.1;
+
+// Average rating at or above which a track's voters count as confident
+const CONFIDENT_AVERAGE = 3.5;
+
+const averageRating = (counts: number[]) => {
+  const rated = counts.reduce((sum, count) => sum + count, 0);
+  if (rated === 0) return null;
+  return counts.reduce((sum, count, index) => sum + count * (index + 1), 0) / rated;
+};
+
+const ConfidenceSummary: React.FC<ConfidenceSummaryProps> = ({ tracks, trackVotes, confidence }) => {
+  const ratingsFor = (trackId: string) => confidence[trackId] ?? [];
+  const total = tracks.reduce((sum, track) => sum + (trackVotes[track.id] || 0), 0);
+  const rated = tracks
+    .flatMap(track => ratingsFor(track.id))
+    .reduce((sum, count) => sum + count, 0);
+
+  if (total === 0 || rated === 0) {
+    return null;
+  }
+
+  const [leader, runnerUp] = [...tracks].sort((a, b) => (trackVotes[b.id] || 0) - (trackVotes[a.id] || 0));
+  const leaderVotes = trackVotes[leader.id] || 0;
+  const runnerUpVotes = runnerUp ? trackVotes[runnerUp.id] || 0 : 0;
+  const leaderAverage = averageRating(ratingsFor(leader.id));
+  const isSplit = (leaderVotes - runnerUpVotes) / total <= SPLIT_MARGIN;
+
+  let verdict: string;
+  if (isSplit) {
+    verdict = 'The room was split down the middle.';
+  } else if (leaderAverage !== null && leaderAverage >= CONFIDENT_AVERAGE) {
+    verdict = `Most people chose "${leader.label}", and they were confident about it.`;
+  } else {
+    verdict = `Most people chose "${leader.label}", but many of them were torn.`;
+  }
+
+  const peak = Math.max(1, ...tracks.flatMap(track => ratingsFor(track.id)));
+
+  return (
+    <div className="confidence-summary" role="region" aria-labelledby="confidence-heading">
+      <h3 id="confidence-heading">How Sure Were People?</h3>
+      <p className="confidence-verdict">{verdict}</p>
+      <div className="confidence-sides">
+        {tracks.map((track, index) => {
+          const average = averageRating(ratingsFor(track.id));
+          return (
+            <div key={track.id} className={`confidence-side ${getTrackClass(track, index)}`}>
+              <h4>
+                {track.label}
+                {average !== null && <span className="confidence-average"> · avg {average.toFixed(1)} / 5</span>}
+              </h4>
+              <ol className="confidence-bars" aria-label={`Confidence ratings for ${track.label} votes`}>
+                {RATINGS.map(rating => {
+                  const count = ratingsFor(track.id)[rating - 1] || 0;
+                  return (
+                    <li key={rating} aria-label={`Rating ${rating}: ${count} votes`}>
+                      <span className="confidence-bar" style={{ height: `${(count / peak) * 100}%` }} />
+                      <span className="confidence-rating" aria-hidden="true">{rating}</span>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ConfidenceSummary;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { LATENCY_BUCKETS_MS } from '../services/api';
+import type { LatencyComparison, LatencyDistribution, ScenarioTrack } from '../services/api';
+import { getTrackClass, getTrackLabel } from '../utils/tracks';
+
+interface DecisionTimeSummaryProps {
+  tracks: ScenarioTrack[];
+  latency: Record<string, LatencyDistribution>;
+  comparison: LatencyComparison | null;
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const BUCKET_LABELS = [
+  ...LATENCY_BUCKETS_MS.map((edge, index) => `${index === 0 ? 0 : LATENCY_BUCKETS_MS[index - 1] / 1000}–${edge / 1000}s`),
+  `${LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1] / 1000}s+`,
+];
+
+/**
+ * Facilitator view of how long each side took to decide, for the
+ * gut-reaction versus deliberation discussion
+ */
+const DecisionTimeSummary: React.FC<DecisionTimeSummaryProps> = ({ tracks, latency, comparison }) => {
+  const timed = tracks.filter(track => (latency[track.id]?.count ?? 0) > 0);
+  if (timed.length === 0) {
+    return null;
+  }
+
+  let verdict: string;
+  if (!comparison) {
+    verdict = 'Too few votes on each side to compare decision times.';
+  } else if (comparison.significant) {
+    verdict = `"${getTrackLabel(tracks, comparison.faster)}" voters decided faster than "${getTrackLabel(tracks, comparison.slower)}" voters, by ${seconds(comparison.medianGapMs)} at the median.`;
+  } else {
+    verdict = `No clear difference in how quickly "${getTrackLabel(tracks, comparison.faster)}" and "${getTrackLabel(tracks, comparison.slower)}" voters decided.`;
+  }
+
+  const peak = Math.max(1, ...timed.flatMap(track => latency[track.id].buckets));
+
+  return (
+    <div className="decision-time-summary" role="region" aria-labelledby="decision-time-heading">
+      <h3 id="decision-time-heading">How Quickly Did People Decide?</h3>
+      <p className="confidence-verdict">{verdict}</p>
+      <div className="confidence-sides">
+        {tracks.map((track, index) => {
+          const distribution = latency[track.id];
+          if (!distribution || distribution.count === 0) {
+            return null;
+          }
+          return (
+            <div key={track.id} className={`decision-time-side ${getTrackClass(track, index)}`}>
+              <h4>
+                {track.label}
+                <span className="confidence-average">
+                  {' '}· median {seconds(distribution.medianMs!)} ({seconds(distribution.p25Ms!)}–{seconds(distribution.p75Ms!)})
+                </span>
+              </h4>
+              <ol className="confidence-bars" aria-label={`Decision times for ${track.label} votes`}>
+                {distribution.buckets.map((count, bucket) => (
+                  <li key={bucket} aria-label={`${BUCKET_LABELS[bucket]}: ${count} votes`}>
+                    <span className="confidence-bar" style={{ height: `${(count / peak) * 100}%` }} />
+                    <span className="decision-time-bucket" aria-hidden="true">{BUCKET_LABELS[bucket]}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DecisionTimeSummary;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { RoomService } from '../services/rooms';
+import type { Scenario } from '../services/api';
+import './DeckBuilder.css';
+
+type DeckScenario = Pick<Scenario, 'id' | 'title' | 'difficultyLevel' | 'ethicalAxes'>;
+
+interface DeckBuilderProps {
+  selectedIds: string[];
+  onChange: (scenarioIds: string[]) => void;
+}
+
+const ETHICAL_AXES = ['bias', 'privacy', 'safety', 'equity', 'transparency', 'accountability', 'autonomy'];
+
+const DeckBuilder: React.FC<DeckBuilderProps> = ({ selectedIds, onChange }) => {
+  const [library, setLibrary] = useState<DeckScenario[]>([]);
+  const [difficulty, setDifficulty] = useState<string>('');
+  const [axis, setAxis] = useState<string>('');
+
+  useEffect(() => {
+    RoomService.loadScenarios().then(({ data }) => {
+      if (data) {
+        setLibrary(data);
+      }
+    });
+  }, []);
+
+  const byId = new Map(library.map(s => [s.id, s]));
+  const available = library.filter(s =>
+    !selectedIds.includes(s.id) &&
+    (!difficulty || s.difficultyLevel === difficulty) &&
+    (!axis || s.ethicalAxes.includes(axis))
+  );
+
+  const moveEntry = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= selectedIds.length) return;
+    const next = [...selectedIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="deck-builder">
+      <div className="deck-filters">
+        <div className="form-group">
+          <label htmlFor="deckDifficulty">Difficulty</label>
+          <select id="deckDifficulty" value={difficulty} onChange={(e) => setDifficulty(e.target.value)}>
+            <option value="">All levels</option>
+            <option value="beginner">Beginner</option>
+            <option value="intermediate">Intermediate</option>
+            <option value="advanced">Advanced</option>
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="deckAxis">Ethical axis</label>
+          <select id="deckAxis" value={axis} onChange={(e) => setAxis(e.target.value)}>
+            <option value="">All axes</option>
+            {ETHICAL_AXES.map(a => (
+              <option key={a} value={a}>{a.charAt(0).toUpperCase() + a.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="deck-columns">
+        <div className="deck-column">
+          <h3>Library</h3>
+          <ul className="deck-list" aria-label="Available scenarios">
+            {available.map(s => (
+              <li key={s.id} className="deck-item">
+                <span className="deck-item-title">{s.title}</span>
+                <span className="deck-item-meta">{s.difficultyLevel}</span>
+                <button type="button" onClick={() => onChange([...selectedIds, s.id])} aria-label={`Add ${s.title}`}>
+                  Add
+                </button>
+              </li>
+            ))}
+            {available.length === 0 && <li className="deck-empty">No scenarios match these filters</li>}
+          </ul>
+        </div>
+
+        <div className="deck-column">
+          <h3>Your deck ({selectedIds.length})</h3>
+          <ol className="deck-list" aria-label="Scenario deck in play order">
+            {selectedIds.map((id, index) => (
+              <li key={id} className="deck-item">
+                <span className="deck-item-title">{index + 1}. {byId.get(id)?.title || 'Unknown scenario'}</span>
+                <button type="button" onClick={() => moveEntry(index, -1)} disabled={index === 0} aria-label="Move up">↑</button>
+                <button type="button" onClick={() => moveEntry(index, 1)} disabled={index === selectedIds.length - 1} aria-label="Move down">↓</button>
+                <button type="button" onClick={() => onChange(selectedIds.filter(s => s !== id))} aria-label="Remove from deck">✕</button>
+              </li>
+            ))}
+            {selectedIds.length === 0 && <li className="deck-empty">Leave empty to play every scenario in the library</li>}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeckBuilder;
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { RoomService } from '../services/rooms';
+import { getTrackClass, getTrackLabel } from '../utils/tracks';
+import type { ComparedTerm, ScenarioTrack, WordCloudComparison } from '../services/api';
+
+interface DifferentialWordCloudProps {
+  sessionId: string;
+  scenarioId: string;
+  tracks: ScenarioTrack[];
+}
+
+const MIN_FONT_REM = 0.9;
+const MAX_FONT_REM = 2;
+
+const DifferentialWordCloud: React.FC<DifferentialWordCloudProps> = ({ sessionId, scenarioId, tracks }) => {
+  const [pair, setPair] = useState<[string, string]>([tracks[0]?.id, tracks[1]?.id]);
+  const [comparison, setComparison] = useState<WordCloudComparison | null>(null);
+  const [selected, setSelected] = useState<ComparedTerm | null>(null);
+
+  useEffect(() => {
+    if (!pair[0] || !pair[1] || pair[0] === pair[1]) {
+      return;
+    }
+    setSelected(null);
+    RoomService.compareWordCloud(sessionId, scenarioId, pair).then(({ data, error }) => {
+      if (!error) {
+        setComparison(data);
+      } else {
+        console.error('Failed to compare word clouds:', error);
+      }
+    });
+  }, [sessionId, scenarioId, pair]);
+
+  if (!comparison || comparison.terms.length === 0) {
+    return null;
+  }
+
+  const maxUses = Math.max(...comparison.terms.map(term => term.counts[0] + term.counts[1]));
+  const fontSize = (term: ComparedTerm) => {
+    const uses = term.counts[0] + term.counts[1];
+    return `${MIN_FONT_REM + ((MAX_FONT_REM - MIN_FONT_REM) * uses) / maxUses}rem`;
+  };
+
+  const sideClass = (side: 0 | 1) => {
+    const index = tracks.findIndex(track => track.id === comparison.tracks[side]);
+    return `${getTrackClass(tracks[index], index)}-title`;
+  };
+
+  const columns: Array<{ key: string; heading: string; terms: ComparedTerm[]; className: string }> = [
+    {
+      key: 'first',
+      heading: `Said more by ${getTrackLabel(tracks, comparison.tracks[0])}`,
+      terms: comparison.terms.filter(term => term.favours === 0),
+      className: sideClass(0),
+    },
+    {
+      key: 'shared',
+      heading: 'Said by both',
+      terms: comparison.terms.filter(term => term.favours === null),
+      className: 'shared',
+    },
+    {
+      key: 'second',
+      heading: `Said more by ${getTrackLabel(tracks, comparison.tracks[1])}`,
+      terms: comparison.terms.filter(term => term.favours === 1),
+      className: sideClass(1),
+    },
+  ];
+
+  return (
+    <div className="differential-word-cloud" role="region" aria-labelledby="differential-heading">
+      <h3 id="differential-heading">What Set the Sides Apart</h3>
+
+      {tracks.length > 2 && (
+        <div className="differential-pair">
+          {([0, 1] as const).map(side => (
+            <select
+              key={side}
+              value={pair[side]}
+              onChange={(e) => setPair(side === 0 ? [e.target.value, pair[1]] : [pair[0], e.target.value])}
+              aria-label={side === 0 ? 'First track to compare' : 'Second track to compare'}
+            >
+              {tracks.map(track => (
+                <option key={track.id} value={track.id}>{track.label}</option>
+              ))}
+            </select>
+          ))}
+        </div>
+      )}
+
+      <div className="differential-columns">
+        {columns.map(column => (
+          <section key={column.key} className="differential-column" aria-label={column.heading}>
+            <h4>{column.heading}</h4>
+            <div className="differential-terms">
+              {column.terms.map(term => (
+                <button
+                  key={term.text}
+                  className={`differential-term ${column.className}`}
+                  style={{ fontSize: fontSize(term) }}
+                  onClick={() => setSelected(selected?.text === term.text ? null : term)}
+                  aria-pressed={selected?.text === term.text}
+                  aria-label={`${term.text}: ${term.counts[0]} ${getTrackLabel(tracks, comparison.tracks[0])}, ${term.counts[1]} ${getTrackLabel(tracks, comparison.tracks[1])}`}
+                >
+                  {term.text}
+                </button>
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="differential-matches" aria-live="polite">
+          <h4>Rationales mentioning "{selected.text}"</h4>
+          {([0, 1] as const).map(side => selected.matches[side].length > 0 && (
+            <div key={side} className="differential-match-group">
+              <h5 className={sideClass(side)}>
+                {getTrackLabel(tracks, comparison.tracks[side])} ({selected.matches[side].length})
+              </h5>
+              <ul>
+                {selected.matches[side].map(index => (
+                  <li key={index}>"{comparison.rationales[side][index]}"</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DifferentialWordCloud;
@@ -0,0 +1,194 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { RoomService } from '../services/rooms';
+import type { AccountSession, FacilitatorAccount as Account } from '../services/api';
+
+interface FacilitatorAccountProps {
+  account: Account | null;
+  onChange: (account: Account | null) => void;
+}
+
+const MIN_PASSWORD_LENGTH = 10;
+
+const STATUS_LABELS: Record<AccountSession['status'], string> = {
+  waiting: 'Waiting',
+  active: 'In progress',
+  complete: 'Ended',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Sign in to a facilitator account, list the rooms it opened, take control
+ * of an open one again (e.g. after a reload or from another device) and
+ * replay finished ones
+ */
+const FacilitatorAccount: React.FC<FacilitatorAccountProps> = ({ account, onChange }) => {
+  const navigate = useNavigate();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [accountError, setAccountError] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<AccountSession[]>([]);
+  const [resuming, setResuming] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!account) {
+      setSessions([]);
+      return;
+    }
+    RoomService.getMySessions().then(({ data, error }) => {
+      if (!error) {
+        setSessions(data);
+      } else {
+        console.error('Failed to load sessions:', error);
+      }
+    });
+  }, [account?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'register' && password.length < MIN_PASSWORD_LENGTH) {
+      setAccountError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    setSubmitting(true);
+    setAccountError(null);
+    const { data, error } = mode === 'register'
+      ? await RoomService.registerAccount(email.trim(), password, name.trim())
+      : await RoomService.loginAccount(email.trim(), password);
+    setSubmitting(false);
+    if (error) {
+      setAccountError(error.message);
+      return;
+    }
+    setPassword('');
+    onChange(data);
+  };
+
+  const handleSignOut = () => {
+    RoomService.logoutAccount();
+    onChange(null);
+  };
+
+  const handleResume = async (session: AccountSession) => {
+    setResuming(session.id);
+    setAccountError(null);
+    const { error } = await RoomService.resumeSession(session.id);
+    setResuming(null);
+    if (error) {
+      setAccountError(error.message);
+      return;
+    }
+    navigate(`/room/${session.roomCode}?role=facilitator`);
+  };
+
+  if (account) {
+    return (
+      <div className="account-panel" role="region" aria-labelledby="account-heading">
+        <div className="account-current">
+          <span id="account-heading">
+            Signed in as <strong>{account.name || account.email}</strong>
+          </span>
+          <button type="button" className="account-sign-out" onClick={handleSignOut}>
+            Sign out
+          </button>
+        </div>
+
+        {sessions.length > 0 && (
+          <div className="account-sessions">
+            <h3>My Sessions</h3>
+            <ul>
+              {sessions.map(session => (
+                <li key={session.id} className={`account-session status-${session.status}`}>
+                  <span className="account-session-code">{session.roomCode}</span>
+                  <span className="account-session-meta">
+                    {new Date(session.createdAt).toLocaleString()} · {STATUS_LABELS[session.status]} · {session.participantCount} {session.participantCount === 1 ? 'participant' : 'participants'}
+                  </span>
+                  {session.resumable ? (
+                    <button
+                      type="button"
+                      onClick={() => handleResume(session)}
+                      disabled={resuming !== null}
+                      aria-label={`Resume room ${session.roomCode}`}
+                    >
+                      {resuming === session.id ? 'Resuming...' : 'Resume'}
+                    </button>
+                  ) : (
+                    <Link
+                      to={`/replay/${session.id}`}
+                      className="account-session-replay"
+                      aria-label={`Replay room ${session.roomCode}`}
+                    >
+                      Replay
+                    </Link>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {accountError && (
+          <p className="account-error" role="alert">{accountError}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form className="account-panel" onSubmit={handleSubmit} aria-labelledby="account-heading">
+      <h3 id="account-heading">{mode === 'register' ? 'Create a Facilitator Account' : 'Facilitator Account'}</h3>
+      <p className="help-text">
+        Sign in to keep a list of your sessions and pick one back up after a reload or from another device.
+      </p>
+      <div className="account-fields">
+        {mode === 'register' && (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            aria-label="Name"
+            autoComplete="name"
+          />
+        )}
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          aria-label="Email"
+          autoComplete="email"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          aria-label="Password"
+          autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+        />
+        <button type="submit" disabled={submitting || !email.trim() || !password}>
+          {submitting ? 'Please wait...' : mode === 'register' ? 'Create account' : 'Sign in'}
+        </button>
+      </div>
+      <button
+        type="button"
+        className="account-mode"
+        onClick={() => {
+          setMode(mode === 'register' ? 'login' : 'register');
+          setAccountError(null);
+        }}
+      >
+        {mode === 'register' ? 'Already have an account? Sign in' : 'New here? Create an account'}
+      </button>
+      {accountError && (
+        <p className="account-error" role="alert">{accountError}</p>
+      )}
+    </form>
+  );
+};
+
+export default FacilitatorAccount;
@@ -1,43 +1,93 @@
 import React, { useState, useEffect } from 'react';
 import { mockScenarios } from '../services/mockData';
 import { CountdownCircleTimer } from 'react-countdown-circle-timer';
+import { RoomService } from '../services/rooms';
+import type { ExportFormat, Scenario } from '../services/api';
+import { getScenarioTracks, isClassicTracks, getTrackClass } from '../utils/tracks';
+import ModerationQueue from './ModerationQueue';
 import './FacilitatorDashboard.css';
 
 interface FacilitatorDashboardProps {
   roomCode: string;
+  sessionId?: string;
   onStartScenario: () => void;
   onNextScenario: () => void;
+  onCloseVoting?: () => void;
+  onPreviousScenario?: () => void;
+  onJumpToScenario?: (position: number) => void;
   gamePhase: 'waiting' | 'voting' | 'results' | 'completed';
   currentScenarioIndex: number;
-  currentScenario?: any;
+  scenarioCount?: number;
+  deckTitles?: string[];
+  currentScenario?: Scenario | null;
   participantCount?: number;
-  mockVotes: Array<{vote: 'pull' | 'dont_pull', rationale: string, mitigation?: string}>;
+  mockVotes: Array<{vote: string, rationale: string, mitigation?: string}>;
+  // Live vote counts keyed by track id
+  trackVotes?: Record<string, number>;
+  // Whether the session holds comments for review
+  moderationQueue?: boolean;
+  timerDuration?: number;
+  secondsRemaining?: number;
 }
 
 const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
   roomCode,
+  sessionId,
   onStartScenario,
   onNextScenario,
+  onCloseVoting,
+  onPreviousScenario,
+  onJumpToScenario,
   gamePhase,
   currentScenarioIndex,
+  scenarioCount = mockScenarios.length,
+  deckTitles,
   currentScenario: propScenario,
   participantCount = 0,
   mockVotes,
+  trackVotes,
+  moderationQueue = false,
+  timerDuration = 30,
+  secondsRemaining,
 }) => {
   const [showScenarioPreview, setShowScenarioPreview] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [selectedScenarios, setSelectedScenarios] = useState<number[]>([]);
 
   const currentScenario = propScenario || mockScenarios[currentScenarioIndex];
-  const isLastScenario = currentScenarioIndex >= mockScenarios.length - 1;
+  const isLastScenario = currentScenarioIndex >= scenarioCount - 1;
 
-  const pullVotes = mockVotes.filter(v => v.vote === 'pull').length;
-  const dontPullVotes = mockVotes.filter(v => v.vote === 'dont_pull').length;
-  const totalVotes = mockVotes.length;
+  const tracks = getScenarioTracks(currentScenario);
+  const trackCount = (trackId: string) => trackVotes?.[trackId] ?? mockVotes.filter(v => v.vote === trackId).length;
+  const totalVotes = tracks.reduce((sum, track) => sum + trackCount(track.id), 0);
 
 
-  const handleExportSession = (format: 'csv' | 'json' | 'pdf') => {
-    // Simulate export functionality
+  const downloadFile = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportSession = async (format: ExportFormat) => {
+    // With a backend the server builds the export from the stored votes
+    if (sessionId) {
+      setExportError(null);
+      const { data, error } = await RoomService.exportSession(sessionId, format);
+      if (error || !data) {
+        setExportError(error?.message || 'Export failed');
+        return;
+      }
+      const prefix = format === 'pdf' ? 'trolley-game-report' : 'trolley-game-session';
+      downloadFile(data, `${prefix}-${roomCode}.${format}`);
+      setShowExportModal(false);
+      return;
+    }
+
+    // Demo mode only has the votes held in the browser
     const sessionData = {
       roomCode,
       timestamp: new Date().toISOString(),
@@ -54,12 +104,7 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
         ).join('\n')}`;
 
     const blob = new Blob([dataStr], { type: format === 'json' ? 'application/json' : 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `trolley-game-session-${roomCode}-${Date.now()}.${format}`;
-    link.click();
-    URL.revokeObjectURL(url);
+    downloadFile(blob, `trolley-game-session-${roomCode}-${Date.now()}.${format}`);
     
     setShowExportModal(false);
   };
@@ -96,7 +141,7 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
             <div className="status-item">
               <span className="label">Scenario:</span>
               <span className="value">
-                {currentScenarioIndex + 1} of {mockScenarios.length}
+                {currentScenarioIndex + 1} of {scenarioCount}
               </span>
             </div>
             <div className="status-item">
@@ -110,14 +155,15 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
         <div className="dashboard-card timer-display">
           <h3>Timer</h3>
           <div className="timer-info">
-            <p>All scenarios: 30 seconds</p>
+            <p>All scenarios: {timerDuration} seconds</p>
           </div>
           
           {gamePhase === 'voting' && (
             <div className="active-timer">
               <CountdownCircleTimer
                 isPlaying={true}
-                duration={30}
+                duration={timerDuration}
+                initialRemainingTime={secondsRemaining}
                 colors={['#2ecc71', '#f39c12', '#e74c3c']}
                 colorsTime={[20, 10, 0]}
                 size={60}
@@ -134,16 +180,13 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
         <div className="dashboard-card vote-results">
           <h3>Live Results</h3>
           <div className="results-chart">
-            <div className="result-bar pull-bar">
-              <div className="bar-label">Pull Lever</div>
-              <div className="bar-fill" style={{ width: `${totalVotes ? (pullVotes / totalVotes) * 100 : 0}%` }}></div>
-              <div className="bar-count">{pullVotes}</div>
-            </div>
-            <div className="result-bar dont-pull-bar">
-              <div className="bar-label">Don't Pull</div>
-              <div className="bar-fill" style={{ width: `${totalVotes ? (dontPullVotes / totalVotes) * 100 : 0}%` }}></div>
-              <div className="bar-count">{dontPullVotes}</div>
-            </div>
+            {tracks.map((track, index) => (
+              <div key={track.id} className={`result-bar ${getTrackClass(track, index)}-bar`}>
+                <div className="bar-label">{track.label}</div>
+                <div className="bar-fill" style={{ width: `${totalVotes ? (trackCount(track.id) / totalVotes) * 100 : 0}%` }}></div>
+                <div className="bar-count">{trackCount(track.id)}</div>
+              </div>
+            ))}
           </div>
         </div>
 
@@ -179,12 +222,47 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
               </button>
             )}
 
-            {gamePhase === 'voting' && (
+            {(gamePhase === 'waiting' || gamePhase === 'results') && onPreviousScenario && currentScenarioIndex > 0 && (
+              <button 
+                className="action-btn secondary"
+                onClick={onPreviousScenario}
+              >
+                Previous Scenario
+              </button>
+            )}
+
+            {gamePhase === 'voting' && onCloseVoting && (
+              <button 
+                className="action-btn secondary"
+                onClick={onCloseVoting}
+              >
+                Close Voting Now
+              </button>
+            )}
+
+            {gamePhase === 'voting' && !onCloseVoting && (
               <button className="action-btn secondary" disabled>
                 Voting in Progress...
               </button>
             )}
           </div>
+
+          {deckTitles && onJumpToScenario && gamePhase !== 'voting' && gamePhase !== 'completed' && (
+            <div className="deck-jump">
+              <label htmlFor="deck-jump-select">Jump to</label>
+              <select
+                id="deck-jump-select"
+                value={currentScenarioIndex}
+                onChange={(e) => onJumpToScenario(parseInt(e.target.value))}
+              >
+                {deckTitles.map((title, index) => (
+                  <option key={index} value={index}>
+                    {index + 1}. {title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Session Management */}
@@ -212,6 +290,13 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
           </div>
         </div>
 
+        {sessionId && moderationQueue && (
+          <ModerationQueue
+            sessionId={sessionId}
+            trackLabels={Object.fromEntries(tracks.map(track => [track.id, track.label]))}
+          />
+        )}
+
         {/* Scenario Queue */}
         <div className="dashboard-card scenario-queue">
           <h3>Scenario Queue</h3>
@@ -224,7 +309,7 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
                 <div className="scenario-number">{index + 1}</div>
                 <div className="scenario-info">
                   <div className="scenario-title">{scenario.title}</div>
-                  <div className="scenario-difficulty">{scenario.difficulty_level}</div>
+                  <div className="scenario-difficulty">{scenario.difficultyLevel}</div>
                 </div>
                 <div className="scenario-status">
                   {index < currentScenarioIndex ? '✓' : 
@@ -256,14 +341,25 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
                   <h5>Context:</h5>
                   <p>{currentScenario?.context}</p>
                 </div>
-                <div className="detail-section">
-                  <h5>AI Option (Pull):</h5>
-                  <p>{currentScenario?.ai_option}</p>
-                </div>
-                <div className="detail-section">
-                  <h5>Human Option (Don't Pull):</h5>
-                  <p>{currentScenario?.non_ai_option}</p>
-                </div>
+                {isClassicTracks(tracks) ? (
+                  <>
+                    <div className="detail-section">
+                      <h5>AI Option (Pull):</h5>
+                      <p>{currentScenario?.aiOption}</p>
+                    </div>
+                    <div className="detail-section">
+                      <h5>Human Option (Don't Pull):</h5>
+                      <p>{currentScenario?.nonAiOption}</p>
+                    </div>
+                  </>
+                ) : (
+                  tracks.map(track => (
+                    <div key={track.id} className="detail-section">
+                      <h5>{track.label}:</h5>
+                      <p>{track.description}</p>
+                    </div>
+                  ))
+                )}
                 <div className="detail-section">
                   <h5>Key Assumptions:</h5>
                   <ul>
@@ -275,7 +371,7 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
                 <div className="detail-section">
                   <h5>Discussion Prompts:</h5>
                   <ul>
-                    {currentScenario?.discussion_prompts.map((prompt, i) => (
+                    {currentScenario?.discussionPrompts.map((prompt, i) => (
                       <li key={i}>{prompt}</li>
                     ))}
                   </ul>
@@ -314,13 +410,26 @@ const FacilitatorDashboard: React.FC<FacilitatorDashboardProps> = ({
                 >
                   📋 JSON Data
                 </button>
-                <button 
-                  className="export-btn"
-                  onClick={() => handleExportSession('pdf')}
-                >
-                  📄 PDF Report
-                </button>
+                {sessionId && (
+                  <button 
+                    className="export-btn"
+                    onClick={() => handleExportSession('md')}
+                  >
+                    📝 Markdown Summary
+                  </button>
+                )}
+                {sessionId && (
+                  <button 
+                    className="export-btn"
+                    onClick={() => handleExportSession('pdf')}
+                  >
+                    📄 PDF Report
+                  </button>
+                )}
               </div>
+              {exportError && (
+                <p className="export-error" role="alert">{exportError}</p>
+              )}
             </div>
           </div>
         </div>
@@ -4,6 +4,10 @@ import { QRCodeSVG as QRCode } from 'qrcode.react';
 import { useGameStore } from '../stores/gameStore';
 import { RoomService } from '../services/rooms';
 import { MockRoomService, isMockMode } from '../services/mockData';
+import DeckBuilder from './DeckBuilder';
+import WorkspaceSignIn from './WorkspaceSignIn';
+import FacilitatorAccount from './FacilitatorAccount';
+import type { FacilitatorAccount as Account, ModerationProfileSummary, Organization } from '../services/api';
 import './FacilitatorPage.css';
 
 const FacilitatorPage: React.FC = () => {
@@ -12,23 +16,55 @@ const FacilitatorPage: React.FC = () => {
   const [config, setConfig] = useState({
     maxParticipants: 200,
     moderationEnabled: true,
+    moderationQueue: false,
     contentWarnings: true,
   });
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [deck, setDeck] = useState<string[]>([]);
+  const [profiles, setProfiles] = useState<ModerationProfileSummary[]>([]);
+  const [moderationProfileId, setModerationProfileId] = useState('');
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [account, setAccount] = useState<Account | null>(null);
+
+  useEffect(() => {
+    if (isMockMode) {
+      return;
+    }
+    RoomService.getAccount().then(({ data }) => setAccount(data));
+  }, []);
+
+  // Accounts can belong to an organization, so signing in or out can change it
+  useEffect(() => {
+    if (isMockMode) {
+      return;
+    }
+    RoomService.getCurrentOrganization().then(({ data }) => setOrganization(data));
+  }, [account?.id]);
+
+  // Each organization has its own profiles and scenarios
+  useEffect(() => {
+    if (isMockMode) {
+      return;
+    }
+    setModerationProfileId('');
+    setDeck([]);
+    RoomService.getModerationProfiles().then(({ data }) => setProfiles(data));
+  }, [organization?.id]);
 
   const handleCreateRoom = async () => {
     setError(null);
-    await createRoom(config);
+    const roomConfig = moderationProfileId ? { ...config, moderationProfileId } : config;
+    await createRoom(roomConfig, deck.length > 0 ? deck : undefined);
   };
 
   useEffect(() => {
     if (session && !error) {
-      navigate(`/room/${session.room_code}?role=facilitator`);
+      navigate(`/room/${session.roomCode}?role=facilitator`);
     }
   }, [session, error, navigate]);
 
   const joinUrl = session 
-    ? `${window.location.origin}/join/${session.room_code}`
+    ? `${window.location.origin}/join/${session.roomCode}`
     : '';
 
   return (
@@ -40,6 +76,22 @@ const FacilitatorPage: React.FC = () => {
 
       {!session ? (
         <div className="setup-form">
+          {!isMockMode && (
+            <FacilitatorAccount account={account} onChange={setAccount} />
+          )}
+
+          {!isMockMode && !account && (
+            <WorkspaceSignIn organization={organization} onChange={setOrganization} />
+          )}
+
+          {account && organization && (
+            <div className="workspace-current">
+              <span>
+                Working in <strong>{organization.name}</strong>
+              </span>
+            </div>
+          )}
+
           <div className="form-section">
             <h2>Room Configuration</h2>
             
@@ -79,6 +131,46 @@ const FacilitatorPage: React.FC = () => {
               </p>
             </div>
 
+            {profiles.length > 0 && (
+              <div className="form-group">
+                <label htmlFor="moderationProfile">
+                  Moderation Profile
+                </label>
+                <select
+                  id="moderationProfile"
+                  value={moderationProfileId}
+                  onChange={(e) => setModerationProfileId(e.target.value)}
+                >
+                  <option value="">Default word lists</option>
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+                <p className="help-text">
+                  Adds your organization's allowed words, blocked words and redaction rules
+                </p>
+              </div>
+            )}
+
+            {!isMockMode && (
+              <div className="checkbox-group">
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={config.moderationQueue}
+                    onChange={(e) => setConfig({
+                      ...config,
+                      moderationQueue: e.target.checked
+                    })}
+                  />
+                  Review comments before they are shown
+                </label>
+                <p className="help-text">
+                  Holds every rationale and mitigation until you approve, edit or hide it from the dashboard
+                </p>
+              </div>
+            )}
+
             <div className="checkbox-group">
               <label className="checkbox-label">
                 <input
@@ -96,6 +188,13 @@ const FacilitatorPage: React.FC = () => {
               </p>
             </div>
 
+            {!isMockMode && (
+              <>
+                <h2>Scenario Deck</h2>
+                <DeckBuilder key={organization?.id ?? 'shared'} selectedIds={deck} onChange={setDeck} />
+              </>
+            )}
+
             {error && (
               <div className="error-message">
                 {error}
@@ -126,7 +225,7 @@ const FacilitatorPage: React.FC = () => {
           <div className="room-info">
             <h2>Room Created!</h2>
             <div className="room-code-display">
-              <span className="room-code">{session.room_code}</span>
+              <span className="room-code">{session.roomCode}</span>
             </div>
             
             <div className="qr-section">
@@ -156,7 +255,7 @@ const FacilitatorPage: React.FC = () => {
             <div className="action-buttons">
               <button
                 className="enter-room-button"
-                onClick={() => navigate(`/room/${session.room_code}?role=facilitator`)}
+                onClick={() => navigate(`/room/${session.roomCode}?role=facilitator`)}
               >
                 Enter Room
               </button>
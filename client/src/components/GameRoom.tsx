@@ -1,16 +1,31 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
 import { useGameStore } from '../stores/gameStore';
 import { mockScenarios, MockRoomService, isMockMode } from '../services/mockData';
 import { RoomService } from '../services/rooms';
+import { MAX_VOTE_ROUNDS, getFacilitatorToken } from '../services/api';
 import { CountdownCircleTimer } from 'react-countdown-circle-timer';
 import Quotes from './Quotes';
+import WordCloud from './WordCloud';
+import DifferentialWordCloud from './DifferentialWordCloud';
+import ThemesPanel from './ThemesPanel';
+import ConfidenceSummary from './ConfidenceSummary';
+import DecisionTimeSummary from './DecisionTimeSummary';
 import FacilitatorDashboard from './FacilitatorDashboard';
 import { moderateText, rateLimiter } from '../utils/textProcessing';
 import { useKeyboardNavigation, focusElement } from '../hooks/useKeyboardNavigation';
 import { useScreenReader } from '../hooks/useScreenReader';
+import { getScenarioTracks, isClassicTracks, getTrackLabel, getWinningTrack, getTrackClass } from '../utils/tracks';
+import type { TrackWordCloud } from '../services/api';
 import './GameRoom.css';
 
+// Most words and phrases drawn in one track's cloud
+const MAX_CLOUD_WORDS = 25;
+
+// The classic pair keeps its lever icons and With/Without AI headings
+const CLASSIC_ICONS: Record<string, string> = { pull: '🔄', dont_pull: '🛑' };
+const CLASSIC_HEADINGS: Record<string, string> = { pull: 'With AI', dont_pull: 'Without AI' };
+
 const GameRoom: React.FC = () => {
   const { roomCode } = useParams();
   const [searchParams] = useSearchParams();
@@ -26,43 +41,69 @@ const GameRoom: React.FC = () => {
     hasVoted,
     myVote,
     myRationale,
-    timerActive,
     secondsRemaining,
-    showResults,
+    phase,
+    phaseDeadline,
     voteSummary,
     rationales,
     submitVote,
     setError,
     joinRoom,
+    resumeRoom,
     startScenario,
-    startTimer,
+    advancePhase,
+    round,
+    firstRound,
+    voteShift,
+    startRevote,
+    deck,
+    deckPosition,
+    deckSize,
+    loadDeck,
+    moveDeck,
     updateRationales
   } = useGameStore();
 
   const [currentScenarioIndex, setCurrentScenarioIndex] = useState(0);
-  const [availableScenarios, setAvailableScenarios] = useState<any[]>([]);
   const [rationale, setRationale] = useState('');
-  const [pullRationales, setPullRationales] = useState<string[]>([]);
-  const [dontPullRationales, setDontPullRationales] = useState<string[]>([]);
-  const [gamePhase, setGamePhase] = useState<'waiting' | 'voting' | 'results' | 'completed'>('waiting');
-  const [mockVotes, setMockVotes] = useState<Array<{vote: 'pull' | 'dont_pull', rationale: string, mitigation?: string}>>([]);
+  const [trackRationales, setTrackRationales] = useState<Record<string, string[]>>({});
+  // Demo mode has no server, so it keeps its own phase; otherwise we render the server's
+  const [localPhase, setLocalPhase] = useState<'waiting' | 'voting' | 'results' | 'completed'>('waiting');
+  const gamePhase = isMockMode ? localPhase : phase;
+  // Rounds of the current play; a replayed scenario starts again from one
+  const playRound = round - firstRound + 1;
+  const [mockVotes, setMockVotes] = useState<Array<{vote: string, rationale: string, mitigation?: string}>>([]);
   const [moderationMessage, setModerationMessage] = useState<string>('');
-  const [selectedVote, setSelectedVote] = useState<'pull' | 'dont_pull' | null>(null);
-  const timerDuration = 30; // Fixed 30-second timer for all scenarios
+  const [selectedVote, setSelectedVote] = useState<string | null>(null);
+  const [confidence, setConfidence] = useState<number | null>(null);
+  const timerDuration = session?.config?.timerDuration || 30;
   const [showFacilitatorView, setShowFacilitatorView] = useState(isFacilitator);
   const [selectedVoteIndex, setSelectedVoteIndex] = useState(0); // For keyboard navigation
   const [keyboardFocusMode, setKeyboardFocusMode] = useState(false);
   const [mitigation, setMitigation] = useState('');
   const [mitigations, setMitigations] = useState<string[]>([]);
+  const [wordCloud, setWordCloud] = useState<Record<string, TrackWordCloud>>({});
+
+  // Phrases and single words share one cloud; memoised so the layout only reruns on new data
+  const cloudWords = useMemo(() => Object.fromEntries(
+    Object.entries(wordCloud).map(([trackId, terms]) => [
+      trackId,
+      [...terms.bigrams, ...terms.unigrams].sort((a, b) => b.count - a.count).slice(0, MAX_CLOUD_WORDS),
+    ])
+  ), [wordCloud]);
   
   const gameRoomRef = useRef<HTMLDivElement>(null);
-  const pullButtonRef = useRef<HTMLButtonElement>(null);
-  const dontPullButtonRef = useRef<HTMLButtonElement>(null);
+  const voteButtonRefs = useRef<Array<HTMLButtonElement | null>>([]);
 
-  // Use scenario from store, fallback to mock for demo mode or available scenarios
+  // Between voting windows the facilitator previews the deck entry that is up next
   const scenario = isMockMode 
     ? mockScenarios[currentScenarioIndex] 
-    : (currentScenario || availableScenarios[currentScenarioIndex]);
+    : (gamePhase === 'waiting' ? deck[deckPosition]?.scenario : currentScenario);
+  const scenarioNumber = isMockMode ? currentScenarioIndex : deckPosition;
+  const scenarioTotal = isMockMode ? mockScenarios.length : deckSize;
+  const isLastScenario = scenarioNumber >= scenarioTotal - 1;
+  const tracks = getScenarioTracks(scenario);
+  const classicTracks = isClassicTracks(tracks);
 
   // Screen reader announcements
   const {
@@ -77,71 +118,33 @@ const GameRoom: React.FC = () => {
 
   useEffect(() => {
     if (!session && !participant && roomCode) {
-      // Join room if not already joined
-      handleJoinRoom();
-    }
-    // Load scenarios for non-mock mode
-    if (!isMockMode && availableScenarios.length === 0) {
-      RoomService.loadScenarios().then(({ data }) => {
-        if (data) {
-          setAvailableScenarios(data);
-          console.log('📚 Loaded scenarios:', data.map(s => s.title));
-        }
-      });
+      // A facilitator who reloads, or resumed from their account, keeps control of the room
+      if (isFacilitator && !isMockMode && getFacilitatorToken()) {
+        resumeRoom(roomCode);
+      } else {
+        // Join room if not already joined
+        handleJoinRoom();
+      }
     }
   }, [roomCode]);
 
-  // Handle scenario loading and game phase transitions
+  // Keep the facilitator's copy of the deck (and its statuses) current
   useEffect(() => {
-    // Don't auto-transition to voting just because scenario exists
-    // Scenarios are pre-loaded but game should stay in waiting phase
-    // until facilitator explicitly starts
-    if (!scenario && !isMockMode) {
-      // If no scenario is loaded, we should be in waiting phase
-      setGamePhase('waiting');
+    if (!isMockMode && isFacilitator && session) {
+      loadDeck();
     }
-  }, [scenario, isMockMode]);
+  }, [session?.id, gamePhase]);
 
-  // Monitor showResults from store to transition to results phase
+  // Clear local inputs whenever the server moves the room to a new scenario or round
   useEffect(() => {
-    if (showResults && !isMockMode) {
-      console.log('📊 showResults is true, transitioning to results phase');
-      setGamePhase('results');
-    }
-  }, [showResults, isMockMode]);
-
-  // Monitor when scenario changes and timer starts to transition to voting
-  useEffect(() => {
-    if (currentScenario && timerActive && !isMockMode) {
+    if (currentScenario && !isMockMode) {
       console.log('📄 Scenario started by facilitator:', currentScenario.title);
-      // Transition to voting phase when timer is active
-      setGamePhase('voting');
       setSelectedVote(null);
+      setConfidence(null);
       setRationale('');
       setMitigation('');
-      // Reset hasVoted in store
-      useGameStore.setState({ hasVoted: false, myVote: null, myRationale: '' });
-    }
-  }, [currentScenario?.id, timerActive]);
-
-  // Start a local timer when voting phase begins (for participants)
-  useEffect(() => {
-    if (gamePhase === 'voting' && !isFacilitator && !isMockMode) {
-      console.log('🎯 Participant entering voting phase, starting local timer');
-      // Start a local countdown for participants
-      let countdown = timerDuration;
-      const localTimer = setInterval(() => {
-        countdown--;
-        if (countdown <= 0) {
-          clearInterval(localTimer);
-          console.log('⏰ Local timer expired, transitioning to results');
-          setGamePhase('results');
-        }
-      }, 1000);
-      
-      return () => clearInterval(localTimer);
     }
-  }, [gamePhase, isFacilitator, timerDuration]);
+  }, [currentScenario?.id, round]);
 
   // Fetch rationales and mitigations when results phase begins
   useEffect(() => {
@@ -161,14 +164,23 @@ const GameRoom: React.FC = () => {
           if (data && !error) {
             console.log('✅ Got rationales:', data);
             // Update rationales for display as quotes
-            setPullRationales(data.pull);
-            setDontPullRationales(data.dont_pull);
-            updateRationales({ pull: data.pull, dont_pull: data.dont_pull });
+            setTrackRationales(data);
+            updateRationales(data);
           } else {
             console.error('Failed to fetch rationales:', error);
           }
         });
         
+        // The server counts words once so every view shows the same cloud
+        setWordCloud({});
+        RoomService.getWordCloud(session.id, currentScenario.id).then(({ data, error }) => {
+          if (!error) {
+            setWordCloud(data);
+          } else {
+            console.error('Failed to fetch word cloud:', error);
+          }
+        });
+        
         // Fetch mitigations
         RoomService.getMitigations(session.id, currentScenario.id).then(({ data, error }) => {
           if (data && !error) {
@@ -201,10 +213,11 @@ const GameRoom: React.FC = () => {
     
     if (isMockMode) {
       // Mock mode behavior
-      setGamePhase('voting');
+      setLocalPhase('voting');
       // Reset voting state when starting a new scenario
       useGameStore.setState({ hasVoted: false, myVote: null, myRationale: '', showResults: false });
       setSelectedVote(null);
+      setConfidence(null);
       setRationale('');
       setMitigation('');
       announceGamePhase('voting', `Scenario: ${scenario?.title}. You have ${timerDuration} seconds to make your choice.`);
@@ -212,7 +225,7 @@ const GameRoom: React.FC = () => {
       
       // Simulate starting timer with custom duration
       setTimeout(() => {
-        setGamePhase('results');
+        setLocalPhase('results');
         useGameStore.setState({ showResults: true });
       }, timerDuration * 1000);
     } else {
@@ -220,29 +233,11 @@ const GameRoom: React.FC = () => {
       try {
         console.log('📡 Starting real scenario...', { session: session?.id });
         
-        // Load scenarios if not already loaded
-        if (availableScenarios.length === 0) {
-          console.log('📚 Loading scenarios from database...');
-          const { data: scenarios, error } = await RoomService.loadScenarios();
-          if (scenarios && scenarios.length > 0) {
-            setAvailableScenarios(scenarios);
-            console.log('✅ Starting scenario:', scenarios[currentScenarioIndex].title);
-            await startScenario(scenarios[currentScenarioIndex].id);
-          }
-        } else {
-          // Use already loaded scenarios
-          const scenarioToStart = availableScenarios[currentScenarioIndex];
-          console.log('🎯 Starting scenario:', scenarioToStart.title);
-          await startScenario(scenarioToStart.id);
-        }
-        
-        // Transition to voting phase when scenario starts
-        setGamePhase('voting');
-        
-        // Start the timer for real mode (always 30 seconds)
-        console.log('⏰ Starting timer: 30 seconds');
-        startTimer(30);
+        if (!scenario) return;
+        console.log('🎯 Starting scenario:', scenario.title);
+        await startScenario(scenario.id);
         
+        // The server opens voting and broadcasts the deadline to everyone
         console.log('✅ Scenario start completed');
       } catch (error: any) {
         console.error('❌ Failed to start scenario:', error);
@@ -251,7 +246,7 @@ const GameRoom: React.FC = () => {
     }
   };
 
-  const handleVoteSelection = (vote: 'pull' | 'dont_pull') => {
+  const handleVoteSelection = (vote: string) => {
     if (hasVoted) return;
     
     // Debug: Vote selection tracking
@@ -303,11 +298,11 @@ const GameRoom: React.FC = () => {
       useGameStore.setState({ hasVoted: true, myVote: selectedVote, myRationale: processedRationale || rationale.trim() });
       
       // Announce successful vote submission
-      announceVoteSubmitted(selectedVote, processedRationale || rationale.trim());
+      announceVoteSubmitted(getTrackLabel(tracks, selectedVote), processedRationale || rationale.trim());
     } else {
       // Submit vote with mitigation to backend
-      await submitVote(selectedVote, processedRationale, mitigation.trim());
-      announceVoteSubmitted(selectedVote, processedRationale);
+      await submitVote(selectedVote, processedRationale, mitigation.trim(), confidence ?? undefined);
+      announceVoteSubmitted(getTrackLabel(tracks, selectedVote), processedRationale);
     }
 
     // Clear moderation message after 3 seconds
@@ -322,13 +317,13 @@ const GameRoom: React.FC = () => {
       if (currentScenarioIndex < mockScenarios.length - 1) {
         const nextIndex = currentScenarioIndex + 1;
         setCurrentScenarioIndex(nextIndex);
-        setGamePhase('waiting');
+        setLocalPhase('waiting');
         setRationale('');
         setMitigation('');
-        setPullRationales([]); // Clear pull rationales array
-        setDontPullRationales([]); // Clear don't pull rationales array
+        setTrackRationales({}); // Clear rationales for every track
         setMitigations([]); // Clear mitigations array
         setSelectedVote(null);
+        setConfidence(null);
         setMockVotes([]); // Clear votes for new scenario
         setModerationMessage('');
         // Reset voting state in store for mock mode
@@ -336,44 +331,33 @@ const GameRoom: React.FC = () => {
         announceGamePhase('waiting', `Moving to scenario ${nextIndex + 1} of ${mockScenarios.length}.`);
         console.log(`✅ Advanced to scenario ${nextIndex + 1}: ${mockScenarios[nextIndex]?.title}`);
       } else {
-        setGamePhase('completed');
+        setLocalPhase('completed');
         announceGamePhase('completed', 'Game session complete. All scenarios have been finished.');
         console.log('✅ All scenarios completed!');
       }
     } else {
-      // Real mode - load next scenario from database
+      // Real mode - move along the session's deck, or finish after the last entry
       try {
-        // Use cached scenarios or load them
-        let scenarios = availableScenarios;
-        if (scenarios.length === 0) {
-          const { data } = await RoomService.loadScenarios();
-          if (data) {
-            scenarios = data;
-            setAvailableScenarios(data);
+        if (isLastScenario) {
+          if (session) {
+            await RoomService.endSession(session.id);
           }
+          announceGamePhase('completed', 'Game session complete. All scenarios have been finished.');
+          return;
         }
         
-        if (scenarios && scenarios.length > 0) {
-          // Move to next scenario index
-          const nextIndex = (currentScenarioIndex + 1) % scenarios.length;
-          setCurrentScenarioIndex(nextIndex);
-          
-          const nextScenario = scenarios[nextIndex];
-          console.log('📚 Moving to next scenario:', nextScenario.title, 'Index:', nextIndex);
-          
-          // Reset state for new scenario
-          setGamePhase('waiting');
-          setRationale('');
-          setMitigation('');
-          setSelectedVote(null);
-          setModerationMessage('');
-          // Reset voting state in store
-          useGameStore.setState({ hasVoted: false, myVote: null, myRationale: '' });
-          
-          // Don't start the scenario yet - just reset to waiting state
-          // The facilitator will start it when ready
-          announceGamePhase('waiting', `Ready for next scenario: ${nextScenario.title}`);
-        }
+        // Return the room to the lobby; the server broadcasts the change
+        await moveDeck({ type: 'next' });
+        setRationale('');
+        setMitigation('');
+        setSelectedVote(null);
+        setConfidence(null);
+        setModerationMessage('');
+        // Reset voting state in store
+        useGameStore.setState({ hasVoted: false, myVote: null, myRationale: '' });
+        
+        // Don't start the scenario yet - the facilitator will start it when ready
+        announceGamePhase('waiting', `Moving to scenario ${deckPosition + 2} of ${deckSize}.`);
       } catch (error) {
         console.error('Failed to load next scenario:', error);
         setError('Failed to load next scenario');
@@ -382,46 +366,45 @@ const GameRoom: React.FC = () => {
   };
 
   // Use rationales data - use local state if available, otherwise use mock data
-  const displayPullRationales = pullRationales.length > 0 
-    ? pullRationales 
-    : mockVotes.filter(v => v.vote === 'pull').map(v => v.rationale);
-    
-  const displayDontPullRationales = dontPullRationales.length > 0
-    ? dontPullRationales
-    : mockVotes.filter(v => v.vote === 'dont_pull').map(v => v.rationale);
+  const displayRationales = (trackId: string) => trackRationales[trackId]?.length
+    ? trackRationales[trackId]
+    : mockVotes.filter(v => v.vote === trackId).map(v => v.rationale);
+
+  // Server tallies when we have them, otherwise the demo votes
+  const trackCounts: Record<string, number> = Object.fromEntries(
+    tracks.map(track => [
+      track.id,
+      voteSummary?.track_votes?.[track.id] || mockVotes.filter(v => v.vote === track.id).length,
+    ])
+  );
+  const winningTrack = getWinningTrack(tracks, trackCounts);
+
+  const focusVoteButton = (index: number) => {
+    setSelectedVoteIndex(index);
+    setKeyboardFocusMode(true);
+    voteButtonRefs.current[index]?.focus();
+  };
 
   // Keyboard navigation for voting phase
   useKeyboardNavigation({
     onArrowLeft: () => {
       if (gamePhase === 'voting' && !hasVoted) {
-        setSelectedVoteIndex(0);
-        setKeyboardFocusMode(true);
-        pullButtonRef.current?.focus();
+        focusVoteButton(Math.max(0, selectedVoteIndex - 1));
       }
     },
     onArrowRight: () => {
       if (gamePhase === 'voting' && !hasVoted) {
-        setSelectedVoteIndex(1);
-        setKeyboardFocusMode(true);
-        dontPullButtonRef.current?.focus();
+        focusVoteButton(Math.min(tracks.length - 1, selectedVoteIndex + 1));
       }
     },
     onEnter: () => {
-      if (gamePhase === 'voting' && !hasVoted && keyboardFocusMode) {
-        if (selectedVoteIndex === 0) {
-          handleVoteSelection('pull');
-        } else {
-          handleVoteSelection('dont_pull');
-        }
+      if (gamePhase === 'voting' && !hasVoted && keyboardFocusMode && tracks[selectedVoteIndex]) {
+        handleVoteSelection(tracks[selectedVoteIndex].id);
       }
     },
     onSpace: () => {
-      if (gamePhase === 'voting' && !hasVoted && keyboardFocusMode) {
-        if (selectedVoteIndex === 0) {
-          handleVoteSelection('pull');
-        } else {
-          handleVoteSelection('dont_pull');
-        }
+      if (gamePhase === 'voting' && !hasVoted && keyboardFocusMode && tracks[selectedVoteIndex]) {
+        handleVoteSelection(tracks[selectedVoteIndex].id);
       }
     },
     onEscape: () => {
@@ -436,15 +419,14 @@ const GameRoom: React.FC = () => {
     if (gamePhase === 'voting') {
       // Focus on the first vote button when entering voting phase
       setTimeout(() => {
-        pullButtonRef.current?.focus();
+        voteButtonRefs.current[0]?.focus();
       }, 100);
     } else if (gamePhase === 'results') {
       // Announce results
-      const pullVotes = mockVotes.filter(v => v.vote === 'pull').length;
-      const dontPullVotes = mockVotes.filter(v => v.vote === 'dont_pull').length;
-      const decision = pullVotes > dontPullVotes ? 'pull' : 'dont_pull';
-      
-      announceResults(pullVotes, dontPullVotes, decision);
+      announceResults(
+        tracks.map(track => ({ label: track.label, votes: trackCounts[track.id] })),
+        winningTrack?.label ?? null
+      );
       announceGamePhase('results', 'Review the voting results and discussion.');
       
       if (isFacilitator) {
@@ -488,13 +470,23 @@ const GameRoom: React.FC = () => {
     return (
       <FacilitatorDashboard
         roomCode={roomCode || ''}
+        sessionId={isMockMode ? undefined : session?.id}
         onStartScenario={handleStartScenario}
         onNextScenario={handleNextScenario}
+        onCloseVoting={isMockMode ? undefined : () => advancePhase('results')}
         gamePhase={gamePhase}
-        currentScenarioIndex={currentScenarioIndex}
+        timerDuration={timerDuration}
+        secondsRemaining={isMockMode ? undefined : secondsRemaining}
+        currentScenarioIndex={scenarioNumber}
+        scenarioCount={scenarioTotal}
+        deckTitles={isMockMode ? undefined : deck.map(entry => entry.scenario.title)}
+        onPreviousScenario={isMockMode ? undefined : () => moveDeck({ type: 'previous' })}
+        onJumpToScenario={isMockMode ? undefined : (position) => moveDeck({ type: 'jump', position })}
         currentScenario={scenario}
         participantCount={3} // Mock participant count
         mockVotes={mockVotes}
+        trackVotes={trackCounts}
+        moderationQueue={!!session?.config?.moderationQueue}
       />
     );
   }
@@ -543,18 +535,15 @@ const GameRoom: React.FC = () => {
         {gamePhase === 'voting' && (
           <div className="timer-container" role="timer" aria-label="Voting countdown timer">
             <CountdownCircleTimer
-              key={`timer-${currentScenario?.id || currentScenarioIndex}`}
-              isPlaying={timerActive || (gamePhase === 'voting' && !isMockMode && !hasVoted)}
+              key={`timer-${currentScenario?.id || currentScenarioIndex}-${phaseDeadline}`}
+              isPlaying={gamePhase === 'voting'}
               duration={timerDuration}
               initialRemainingTime={secondsRemaining > 0 ? secondsRemaining : timerDuration}
               colors={['#2ecc71', '#f39c12', '#e74c3c']}
               colorsTime={[timerDuration * 0.67, timerDuration * 0.33, 0]}
               size={80}
               onComplete={() => {
-                console.log('⏰ Timer completed - transitioning to results');
-                // Force transition to results phase when timer completes
-                setGamePhase('results');
-                // The store's startTimer function already sets showResults to true when timer completes
+                // Display only: the server closes voting when its deadline passes
                 return { shouldRepeat: false, delay: 0 };
               }}
             >
@@ -574,12 +563,12 @@ const GameRoom: React.FC = () => {
         {gamePhase === 'waiting' ? (
           <section className="waiting-phase" aria-labelledby="waiting-heading">
             <h2 id="waiting-heading">Ready for Next Scenario?</h2>
-            {isMockMode ? (
-              <p aria-label={`Currently on scenario ${currentScenarioIndex + 1} of ${mockScenarios.length} total scenarios`}>
-                Scenario {currentScenarioIndex + 1} of {mockScenarios.length}
+            {scenarioTotal > 0 ? (
+              <p aria-label={`Currently on scenario ${scenarioNumber + 1} of ${scenarioTotal} total scenarios`}>
+                Scenario {scenarioNumber + 1} of {scenarioTotal}
               </p>
             ) : (
-              <p>Scenario {session ? '1 of 3' : 'Loading...'}</p>
+              <p>Loading...</p>
             )}
             
             {isFacilitator ? (
@@ -607,9 +596,9 @@ const GameRoom: React.FC = () => {
               <div className="scenario-content">
                 <header className="scenario-header">
                   <h2 id="scenario-heading">{scenario?.title}</h2>
-                  {scenario?.content_warnings && scenario.content_warnings.length > 0 && (
+                  {scenario?.contentWarnings && scenario.contentWarnings.length > 0 && (
                     <div className="content-warnings" role="alert" aria-label="Content warning">
-                      ⚠️ Content warnings: {scenario.content_warnings.join(', ')}
+                      ⚠️ Content warnings: {scenario.contentWarnings.join(', ')}
                     </div>
                   )}
                 </header>
@@ -622,41 +611,52 @@ const GameRoom: React.FC = () => {
                 <fieldset className="voting-options" role="radiogroup" aria-labelledby="voting-heading" aria-required="true">
                   <legend id="voting-heading" className="sr-only">Choose your response to the trolley problem</legend>
                   
-                  <button
-                    ref={pullButtonRef}
-                    className={`vote-button pull-lever ${selectedVote === 'pull' ? 'selected' : ''}`}
-                    onClick={() => handleVoteSelection('pull')}
-                    disabled={hasVoted}
-                    role="radio"
-                    aria-checked={selectedVote === 'pull'}
-                    aria-describedby="pull-description"
-                    aria-label="Pull lever to use AI option"
-                    data-keyboard-focus={keyboardFocusMode && selectedVoteIndex === 0}
-                  >
-                    <div className="vote-icon" aria-hidden="true">🔄</div>
-                    <div className="vote-label">Pull Lever</div>
-                    <div className="vote-description" id="pull-description">{scenario?.ai_option}</div>
-                  </button>
-
-                  <button
-                    ref={dontPullButtonRef}
-                    className={`vote-button dont-pull ${selectedVote === 'dont_pull' ? 'selected' : ''}`}
-                    onClick={() => handleVoteSelection('dont_pull')}
-                    disabled={hasVoted}
-                    role="radio"
-                    aria-checked={selectedVote === 'dont_pull'}
-                    aria-describedby="dont-pull-description"
-                    aria-label="Don't pull lever to use human option"
-                    data-keyboard-focus={keyboardFocusMode && selectedVoteIndex === 1}
-                  >
-                    <div className="vote-icon" aria-hidden="true">🛑</div>
-                    <div className="vote-label">Don't Pull</div>
-                    <div className="vote-description" id="dont-pull-description">{scenario?.non_ai_option}</div>
-                  </button>
+                  {tracks.map((track, index) => (
+                    <button
+                      key={track.id}
+                      ref={element => { voteButtonRefs.current[index] = element; }}
+                      className={`vote-button ${track.id === 'pull' ? 'pull-lever' : getTrackClass(track, index)} ${selectedVote === track.id ? 'selected' : ''}`}
+                      onClick={() => handleVoteSelection(track.id)}
+                      disabled={hasVoted}
+                      role="radio"
+                      aria-checked={selectedVote === track.id}
+                      aria-describedby={`${track.id}-description`}
+                      aria-label={track.label}
+                      data-keyboard-focus={keyboardFocusMode && selectedVoteIndex === index}
+                    >
+                      {classicTracks && <div className="vote-icon" aria-hidden="true">{CLASSIC_ICONS[track.id]}</div>}
+                      <div className="vote-label">{track.label}</div>
+                      <div className="vote-description" id={`${track.id}-description`}>{track.description}</div>
+                    </button>
+                  ))}
                 </fieldset>
 
                 {selectedVote && !hasVoted && (
                   <div className="rationale-input" role="region" aria-labelledby="rationale-heading">
+                    {!isMockMode && (
+                      <fieldset className="confidence-input">
+                        <legend>How confident are you? (optional)</legend>
+                        <div className="confidence-options" role="radiogroup">
+                          {[1, 2, 3, 4, 5].map(rating => (
+                            <button
+                              key={rating}
+                              type="button"
+                              role="radio"
+                              aria-checked={confidence === rating}
+                              className={`confidence-option ${confidence === rating ? 'selected' : ''}`}
+                              onClick={() => setConfidence(confidence === rating ? null : rating)}
+                            >
+                              {rating}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="confidence-scale" aria-hidden="true">
+                          <span>Torn</span>
+                          <span>Certain</span>
+                        </div>
+                      </fieldset>
+                    )}
+
                     <div className="input-group">
                       <label htmlFor="rationale" id="rationale-heading">
                         Why? (optional, max 80 characters)
@@ -744,7 +744,7 @@ const GameRoom: React.FC = () => {
                     <p>
                       <span aria-hidden="true">✅</span>
                       <span className="sr-only">Success: </span>
-                      Vote submitted! You chose to <strong>{myVote === 'pull' ? 'Pull the Lever' : 'Not Pull'}</strong>
+                      Vote submitted! You chose <strong>{getTrackLabel(tracks, myVote)}</strong>
                     </p>
                     {myRationale && <p>Your reasoning: "{myRationale}"</p>}
                   </div>
@@ -754,71 +754,91 @@ const GameRoom: React.FC = () => {
               <aside className="quotes-container-wrapper" role="complementary" aria-labelledby="live-reasoning-heading">
                 <h3 id="live-reasoning-heading">Live Participant Views</h3>
                 <div className="quotes-split">
-                  <section className="quotes-section" aria-labelledby="pull-quotes-heading">
-                    <h4 id="pull-quotes-heading" className="pull-title">With AI</h4>
-                    <Quotes 
-                      quotes={displayPullRationales}
-                      type="pull"
-                      maxQuotes={3}
-                    />
-                  </section>
-                  
-                  <section className="quotes-section" aria-labelledby="dont-pull-quotes-heading">
-                    <h4 id="dont-pull-quotes-heading" className="dont-pull-title">Without AI</h4>
-                    <Quotes 
-                      quotes={displayDontPullRationales}
-                      type="dont_pull"
-                      maxQuotes={3}
-                    />
-                  </section>
+                  {tracks.map((track, index) => (
+                    <section key={track.id} className="quotes-section" aria-labelledby={`${track.id}-quotes-heading`}>
+                      <h4 id={`${track.id}-quotes-heading`} className={`${getTrackClass(track, index)}-title`}>
+                        {classicTracks ? CLASSIC_HEADINGS[track.id] : track.label}
+                      </h4>
+                      <Quotes 
+                        quotes={displayRationales(track.id)}
+                        type={getTrackClass(track, index)}
+                        maxQuotes={3}
+                      />
+                    </section>
+                  ))}
                 </div>
               </aside>
             </div>
           </section>
         ) : gamePhase === 'results' ? (
           <section className="results-phase" aria-labelledby="results-heading">
-            <h2 id="results-heading">Results</h2>
+            <h2 id="results-heading">{playRound > 1 ? `Results: Round ${playRound}` : 'Results'}</h2>
             <div className="results-summary" role="region" aria-labelledby="results-heading">
               <div className="vote-tally" role="table" aria-label="Vote count results">
-                <div className="tally-item pull" role="cell">
-                  <span className="count" aria-label={`${voteSummary?.pull_votes || mockVotes.filter(v => v.vote === 'pull').length} votes`}>
-                    {voteSummary?.pull_votes || mockVotes.filter(v => v.vote === 'pull').length}
-                  </span>
-                  <span className="label">Pull Lever</span>
-                </div>
-                <div className="tally-item dont-pull" role="cell">
-                  <span className="count" aria-label={`${voteSummary?.dont_pull_votes || mockVotes.filter(v => v.vote === 'dont_pull').length} votes`}>
-                    {voteSummary?.dont_pull_votes || mockVotes.filter(v => v.vote === 'dont_pull').length}
-                  </span>
-                  <span className="label">Don't Pull</span>
-                </div>
+                {tracks.map((track, index) => (
+                  <div key={track.id} className={`tally-item ${getTrackClass(track, index)}`} role="cell">
+                    <span className="count" aria-label={`${trackCounts[track.id]} votes`}>
+                      {trackCounts[track.id]}
+                    </span>
+                    <span className="label">{track.label}</span>
+                  </div>
+                ))}
               </div>
               
               <div className="decision" role="status" aria-live="polite">
-                {(() => {
-                  const pullCount = voteSummary?.pull_votes || mockVotes.filter(v => v.vote === 'pull').length;
-                  const dontPullCount = voteSummary?.dont_pull_votes || mockVotes.filter(v => v.vote === 'dont_pull').length;
-                  const decision = pullCount > dontPullCount ? 'Pull the Lever' : pullCount < dontPullCount ? "Don't Pull" : 'Tie';
-                  const track = pullCount > dontPullCount ? 'With AI' : pullCount < dontPullCount ? 'Without AI' : 'neither';
-                  
-                  return (
-                    <>
-                      <h3>The group chose to <strong>{decision}</strong></h3>
-                      {track !== 'neither' ? (
-                        <p>The trolley goes to the {track} track</p>
-                      ) : (
-                        <p>The vote ended in a tie</p>
-                      )}
-                    </>
-                  );
-                })()}
+                {winningTrack ? (
+                  <>
+                    <h3>The group chose <strong>{winningTrack.label}</strong></h3>
+                    {classicTracks && <p>The trolley goes to the {CLASSIC_HEADINGS[winningTrack.id]} track</p>}
+                  </>
+                ) : (
+                  <>
+                    <h3>No single choice won</h3>
+                    <p>The vote ended in a tie</p>
+                  </>
+                )}
               </div>
 
-              <div className="trolley-animation" role="img" aria-label="Animated trolley moving to the chosen track">
+              {voteShift && voteShift.toRound > voteShift.fromRound && (
+                <div className="vote-shift" role="region" aria-labelledby="vote-shift-heading">
+                  <h3 id="vote-shift-heading">How Minds Changed</h3>
+                  <p>
+                    {voteShift.moves.reduce((sum, move) => sum + move.count, 0)} of {voteShift.compared} participants switched sides after discussion
+                  </p>
+                  <ul className="vote-shift-list">
+                    {voteShift.moves.map(move => (
+                      <li key={`${move.from}-${move.to}`}>
+                        <span className="count">{move.count}</span>
+                        <span className="label">{getTrackLabel(tracks, move.from)} → {getTrackLabel(tracks, move.to)}</span>
+                      </li>
+                    ))}
+                    <li>
+                      <span className="count">{voteShift.unchanged}</span>
+                      <span className="label">Kept their vote</span>
+                    </li>
+                  </ul>
+                </div>
+              )}
+
+              {voteSummary?.confidence && (
+                <ConfidenceSummary
+                  tracks={tracks}
+                  trackVotes={voteSummary.track_votes}
+                  confidence={voteSummary.confidence}
+                />
+              )}
+
+              {isFacilitator && voteSummary?.latency && (
+                <DecisionTimeSummary
+                  tracks={tracks}
+                  latency={voteSummary.latency}
+                  comparison={voteSummary.latency_comparison ?? null}
+                />
+              )}
+
+              {classicTracks && <div className="trolley-animation" role="img" aria-label="Animated trolley moving to the chosen track">
                 {(() => {
-                  const pullCount = voteSummary?.pull_votes || mockVotes.filter(v => v.vote === 'pull').length;
-                  const dontPullCount = voteSummary?.dont_pull_votes || mockVotes.filter(v => v.vote === 'dont_pull').length;
-                  const winner = pullCount > dontPullCount ? 'pull' : pullCount < dontPullCount ? 'dont_pull' : 'tie';
+                  const winner = winningTrack?.id ?? 'tie';
                   
                   return (
                     <>
@@ -845,29 +865,64 @@ const GameRoom: React.FC = () => {
                     </>
                   );
                 })()}
-              </div>
+              </div>}
+
+              {Object.keys(cloudWords).length > 0 && (
+                <div className="results-word-clouds" role="region" aria-labelledby="word-cloud-heading">
+                  <h3 id="word-cloud-heading">What Participants Said</h3>
+                  <div className="word-cloud-grid">
+                    {tracks.map((track, index) => (
+                      <section key={track.id} className="word-cloud-column" aria-labelledby={`${track.id}-word-cloud`}>
+                        <h4 id={`${track.id}-word-cloud`} className={`${getTrackClass(track, index)}-title`}>
+                          {classicTracks ? CLASSIC_HEADINGS[track.id] : track.label}
+                        </h4>
+                        <WordCloud
+                          words={cloudWords[track.id] ?? []}
+                          width={320}
+                          height={200}
+                          type={track.id}
+                          label={track.label}
+                        />
+                      </section>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {!isMockMode && session && currentScenario && (
+                <DifferentialWordCloud
+                  key={currentScenario.id}
+                  sessionId={session.id}
+                  scenarioId={currentScenario.id}
+                  tracks={tracks}
+                />
+              )}
+
+              {!isMockMode && session && currentScenario && (
+                <ThemesPanel
+                  key={currentScenario.id}
+                  sessionId={session.id}
+                  scenarioId={currentScenario.id}
+                  tracks={tracks}
+                />
+              )}
 
               {/* Quotes for results phase */}
               <div className="results-quotes" role="region" aria-labelledby="results-rationales-heading">
                 <h3 id="results-rationales-heading">Why Participants Voted This Way</h3>
-                <div className="quotes-display three-columns">
-                  <section className="quotes-column" aria-labelledby="pull-results-quotes">
-                    <h4 id="pull-results-quotes" className="pull-title">With AI</h4>
-                    <Quotes 
-                      quotes={displayPullRationales}
-                      type="pull"
-                      maxQuotes={5}
-                    />
-                  </section>
-                  
-                  <section className="quotes-column" aria-labelledby="dont-pull-results-quotes">
-                    <h4 id="dont-pull-results-quotes" className="dont-pull-title">Without AI</h4>
-                    <Quotes 
-                      quotes={displayDontPullRationales}
-                      type="dont_pull"
-                      maxQuotes={5}
-                    />
-                  </section>
+                <div className={`quotes-display ${classicTracks ? 'three-columns' : `columns-${tracks.length + 1}`}`}>
+                  {tracks.map((track, index) => (
+                    <section key={track.id} className="quotes-column" aria-labelledby={`${track.id}-results-quotes`}>
+                      <h4 id={`${track.id}-results-quotes`} className={`${getTrackClass(track, index)}-title`}>
+                        {classicTracks ? CLASSIC_HEADINGS[track.id] : track.label}
+                      </h4>
+                      <Quotes 
+                        quotes={displayRationales(track.id)}
+                        type={getTrackClass(track, index)}
+                        maxQuotes={5}
+                      />
+                    </section>
+                  ))}
                   
                   <section className="quotes-column" aria-labelledby="mitigations-results-quotes">
                     <h4 id="mitigations-results-quotes" className="mitigations-title">Risk Mitigation Ideas</h4>
@@ -895,18 +950,27 @@ const GameRoom: React.FC = () => {
 
             {isFacilitator && (
               <nav className="facilitator-controls" aria-label="Facilitator game controls">
+                {!isMockMode && playRound < MAX_VOTE_ROUNDS && (
+                  <button 
+                    className="revote-button"
+                    onClick={() => startRevote()}
+                    aria-describedby="revote-action-desc"
+                  >
+                    Discuss, Then Vote Again
+                  </button>
+                )}
+                <div id="revote-action-desc" className="sr-only">
+                  Open a second voting round on this scenario to see who changes their mind
+                </div>
                 <button 
                   className="next-scenario-button"
                   onClick={handleNextScenario}
                   aria-describedby="next-action-desc"
                 >
-                  {isMockMode 
-                    ? (currentScenarioIndex < mockScenarios.length - 1 ? 'Next Scenario' : 'End Game')
-                    : 'Next Scenario'
-                  }
+                  {isLastScenario ? 'End Game' : 'Next Scenario'}
                 </button>
                 <div id="next-action-desc" className="sr-only">
-                  {isMockMode && currentScenarioIndex < mockScenarios.length - 1 
+                  {!isLastScenario 
                     ? 'Proceed to the next scenario in the game'
                     : 'End the current game session'
                   }
@@ -919,11 +983,11 @@ const GameRoom: React.FC = () => {
             <h2 id="completed-heading">🎉 All Scenarios Complete!</h2>
             <div className="completion-summary">
               <p>Thank you for participating in the Nonprofit Trolley Game.</p>
-              <p>You've explored all {mockScenarios.length} ethical scenarios involving AI in nonprofit work.</p>
+              <p>You've explored all {scenarioTotal} ethical scenarios involving AI in nonprofit work.</p>
               <div className="session-stats">
                 <h3>Session Summary</h3>
                 <ul>
-                  <li>Scenarios Completed: {mockScenarios.length}</li>
+                  <li>Scenarios Completed: {scenarioTotal}</li>
                   <li>Total Votes Cast: {mockVotes.length}</li>
                 </ul>
               </div>
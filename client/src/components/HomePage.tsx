@@ -26,6 +26,9 @@ const HomePage: React.FC = () => {
           <Link to="/facilitator" className="cta-button primary">
             Create Room
           </Link>
+          <Link to="/analytics" className="secondary-link">
+            Scenario analytics
+          </Link>
         </div>
 
         <div className="card participant-card">
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RoomService } from '../services/rooms';
+import { socketService } from '../services/socket';
+import type { ModerationItem, ReviewDecision } from '../services/api';
+
+interface ModerationQueueProps {
+  sessionId: string;
+  // Labels for the current scenario's tracks, keyed by track id
+  trackLabels?: Record<string, string>;
+}
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ sessionId, trackLabels = {} }) => {
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [queueError, setQueueError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    const { data, error } = await RoomService.getModerationQueue(sessionId);
+    if (error) {
+      setQueueError(error.message);
+      return;
+    }
+    setQueueError(null);
+    setItems(data);
+  }, [sessionId]);
+
+  // The server only says the queue changed; the held text comes over the API
+  useEffect(() => {
+    loadQueue();
+    const handleUpdate = () => {
+      loadQueue();
+    };
+    socketService.on('moderation_queue_updated', handleUpdate);
+    return () => socketService.off('moderation_queue_updated', handleUpdate);
+  }, [loadQueue]);
+
+  const handleReview = async (item: ModerationItem, decision: ReviewDecision) => {
+    const { error } = await RoomService.reviewModerationItem(sessionId, item, decision);
+    if (error) {
+      setQueueError(error.message);
+      return;
+    }
+    setItems(prev => prev.filter(i => i.id !== item.id));
+    if (editingId === item.id) {
+      setEditingId(null);
+    }
+  };
+
+  const startEditing = (item: ModerationItem) => {
+    setEditingId(item.id);
+    setDraft(item.text);
+  };
+
+  return (
+    <div className="dashboard-card moderation-queue">
+      <h3>
+        Comment Review
+        {items.length > 0 && <span className="queue-count" aria-label={`${items.length} waiting`}>{items.length}</span>}
+      </h3>
+      {items.length === 0 ? (
+        <p className="queue-empty">Nothing waiting for review</p>
+      ) : (
+        <ul className="queue-list">
+          {items.map(item => (
+            <li key={item.id} className="queue-item">
+              <div className="queue-meta">
+                <span className={`queue-kind ${item.kind}`}>{item.kind === 'rationale' ? 'Rationale' : 'Mitigation'}</span>
+                <span className="queue-vote">{trackLabels[item.vote] ?? item.vote}</span>
+              </div>
+              {editingId === item.id ? (
+                <div className="queue-edit">
+                  <input
+                    type="text"
+                    value={draft}
+                    maxLength={80}
+                    onChange={(e) => setDraft(e.target.value)}
+                    aria-label="Edited comment"
+                  />
+                  <div className="queue-actions">
+                    <button
+                      className="queue-btn approve"
+                      onClick={() => handleReview(item, { action: 'redact', text: draft })}
+                      disabled={!draft.trim()}
+                    >
+                      Save & Approve
+                    </button>
+                    <button className="queue-btn" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <blockquote className="queue-text">"{item.text}"</blockquote>
+                  <div className="queue-actions">
+                    <button className="queue-btn approve" onClick={() => handleReview(item, { action: 'approve' })}>
+                      Approve
+                    </button>
+                    <button className="queue-btn" onClick={() => startEditing(item)}>
+                      Edit
+                    </button>
+                    <button className="queue-btn hide" onClick={() => handleReview(item, { action: 'hide' })}>
+                      Hide
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {queueError && <p className="export-error" role="alert">{queueError}</p>}
+    </div>
+  );
+};
+
+export default ModerationQueue;
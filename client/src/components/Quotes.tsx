@@ -2,7 +2,8 @@ import React from 'react';
 
 interface QuotesProps {
   quotes: string[];
-  type: 'pull' | 'dont_pull' | 'mitigations';
+  // Track class modifier, or 'mitigations'
+  type: string;
   maxQuotes?: number;
 }
 
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { RoomService } from '../services/rooms';
+import { getScenarioTracks, getTrackClass, getTrackLabel } from '../utils/tracks';
+import type { ReplayFrame, ScenarioTrack, SessionReplay } from '../services/api';
+import './ReplayViewer.css';
+
+// Time between frames while playing
+const PLAYBACK_STEP_MS = 700;
+
+const PHASE_LABELS: Record<string, string> = {
+  waiting: 'Lobby',
+  voting: 'Voting',
+  results: 'Results',
+  completed: 'Ended',
+};
+
+const clock = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+function describeFrame(frame: ReplayFrame, tracks: ScenarioTrack[], title: string): string {
+  switch (frame.type) {
+    case 'phase_changed':
+      if (frame.phase === 'voting') {
+        return frame.round > 1 ? `Re-vote ${frame.round} opened on "${title}"` : `Voting opened on "${title}"`;
+      }
+      if (frame.phase === 'results') {
+        return 'Voting closed and results shown';
+      }
+      return frame.phase === 'completed' ? 'Session ended' : 'Back to the lobby';
+    case 'scenario_started':
+      return `Scenario "${title}" started`;
+    case 'timer_started':
+      return 'Timer started';
+    case 'vote_cast':
+      return `Vote for ${getTrackLabel(tracks, frame.vote)}`;
+    case 'rationale_added':
+      return `Rationale for ${getTrackLabel(tracks, frame.vote)}`;
+    case 'decision_announced':
+      return 'Decision announced';
+    case 'moderation_queue_updated':
+      return 'Text held for review';
+    case 'session_ended':
+      return 'Session ended';
+    default:
+      return frame.type;
+  }
+}
+
+/**
+ * Step through a past session event by event, watching tallies and
+ * rationales build up, e.g. to coach a new facilitator
+ */
+const ReplayViewer: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [replay, setReplay] = useState<SessionReplay | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) {
+      return;
+    }
+    RoomService.getReplay(sessionId).then(({ data, error }) => {
+      if (error) {
+        setLoadError(error.message);
+        return;
+      }
+      setReplay(data);
+      setPosition(0);
+    });
+  }, [sessionId]);
+
+  const lastPosition = replay ? replay.frames.length - 1 : 0;
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    if (position >= lastPosition) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPosition(position + 1), PLAYBACK_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, position, lastPosition]);
+
+  const frame = replay?.frames[position];
+  const scenario = replay?.scenarios.find(entry => entry.id === frame?.scenarioId);
+  const tracks = getScenarioTracks(scenario);
+  const title = scenario?.title ?? 'Unknown scenario';
+  const shownRationales = frame && replay
+    ? replay.rationales
+      .filter(item => item.sequence <= frame.sequence && item.scenarioId === frame.scenarioId && item.round === frame.round)
+      .reverse()
+    : [];
+
+  const renderTallies = (current: ReplayFrame) => {
+    if (current.totalVotes === 0) {
+      return <p className="replay-empty">No votes yet</p>;
+    }
+    return (
+      <ul className="replay-tallies">
+        {tracks.map((track, index) => {
+          const votes = current.trackVotes[track.id] ?? 0;
+          return (
+            <li key={track.id} className={current.leader === track.id ? 'leading' : ''}>
+              <span className="replay-track-label">{track.label}</span>
+              <span className="replay-bar" aria-hidden="true">
+                <span
+                  className={getTrackClass(track, index)}
+                  style={{ width: `${(votes / current.totalVotes) * 100}%` }}
+                />
+              </span>
+              <span className="replay-count">{votes}</span>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="replay-page">
+      <div className="header">
+        <h1>Session Replay</h1>
+        {replay && (
+          <p>
+            Room {replay.session.roomCode} · {new Date(replay.session.createdAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+
+      {loadError && (
+        <div className="error-message" role="alert">
+          {loadError === 'Authentication required'
+            ? <>Replays are for facilitators. <Link to="/facilitator">Sign in</Link> first.</>
+            : loadError}
+        </div>
+      )}
+
+      {!replay && !loadError && <p className="replay-empty">Loading replay...</p>}
+
+      {replay && replay.frames.length === 0 && (
+        <p className="replay-empty">Nothing was recorded for this session.</p>
+      )}
+
+      {replay && frame && (
+        <>
+          <div className="replay-controls">
+            <button type="button" onClick={() => setPosition(Math.max(0, position - 1))} disabled={position === 0} aria-label="Previous event">
+              ‹
+            </button>
+            <button
+              type="button"
+              className="replay-play"
+              onClick={() => {
+                if (!playing && position >= lastPosition) {
+                  setPosition(0);
+                }
+                setPlaying(!playing);
+              }}
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <button type="button" onClick={() => setPosition(Math.min(lastPosition, position + 1))} disabled={position >= lastPosition} aria-label="Next event">
+              ›
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={lastPosition}
+              value={position}
+              onChange={(e) => {
+                setPlaying(false);
+                setPosition(Number(e.target.value));
+              }}
+              aria-label="Timeline"
+            />
+            <span className="replay-clock">{clock(frame.elapsedMs)} / {clock(replay.frames[lastPosition].elapsedMs)}</span>
+          </div>
+
+          <p className="replay-event" aria-live="polite">
+            <span className="replay-event-number">Event {position + 1} of {replay.frames.length}</span>
+            {describeFrame(frame, tracks, title)}
+          </p>
+
+          {frame.scenarioId && (
+            <div className="replay-stage">
+              <section className="replay-card">
+                <h2>{title}</h2>
+                <p className="replay-meta">
+                  {frame.phase ? PHASE_LABELS[frame.phase] : 'Lobby'}
+                  {frame.round > 1 && ` · re-vote ${frame.round}`}
+                  {' · '}{frame.totalVotes} {frame.totalVotes === 1 ? 'vote' : 'votes'}
+                </p>
+                {renderTallies(frame)}
+              </section>
+
+              <section className="replay-card">
+                <h2>Rationales ({shownRationales.length})</h2>
+                {shownRationales.length === 0 ? (
+                  <p className="replay-empty">None yet</p>
+                ) : (
+                  <ul className="replay-rationales">
+                    {shownRationales.map(item => {
+                      const index = tracks.findIndex(track => track.id === item.vote);
+                      return (
+                        <li
+                          key={item.sequence}
+                          className={`${index >= 0 ? getTrackClass(tracks[index], index) : ''} ${item.sequence === frame.sequence ? 'latest' : ''}`}
+                        >
+                          <span className="replay-track-label">{getTrackLabel(tracks, item.vote)}</span>
+                          "{item.rationale}"
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReplayViewer;
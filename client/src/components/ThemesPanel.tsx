@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { RoomService } from '../services/rooms';
+import { getTrackClass, getTrackLabel } from '../utils/tracks';
+import type { RationaleTheme, ScenarioThemes, ScenarioTrack, Theme } from '../services/api';
+
+interface ThemesPanelProps {
+  sessionId: string;
+  scenarioId: string;
+  tracks: ScenarioTrack[];
+}
+
+type ThemeSource = 'rationales' | 'mitigations';
+
+const SOURCE_LABELS: Record<ThemeSource, string> = {
+  rationales: 'Reasons',
+  mitigations: 'Mitigation ideas',
+};
+
+const ThemesPanel: React.FC<ThemesPanelProps> = ({ sessionId, scenarioId, tracks }) => {
+  const [themes, setThemes] = useState<ScenarioThemes | null>(null);
+  const [source, setSource] = useState<ThemeSource>('rationales');
+
+  useEffect(() => {
+    RoomService.getThemes(sessionId, scenarioId).then(({ data, error }) => {
+      if (!error) {
+        setThemes(data);
+        if (data && data.rationales.themes.length === 0) {
+          setSource('mitigations');
+        }
+      } else {
+        console.error('Failed to fetch themes:', error);
+      }
+    });
+  }, [sessionId, scenarioId]);
+
+  if (!themes || (themes.rationales.themes.length === 0 && themes.mitigations.themes.length === 0)) {
+    return null;
+  }
+
+  const { themes: shown, unthemed } = themes[source];
+
+  const renderTrackCounts = (theme: Theme | RationaleTheme) => 'trackCounts' in theme && (
+    <ul className="theme-tracks">
+      {tracks
+        .map((track, index) => ({ track, index, count: theme.trackCounts[track.id] ?? 0 }))
+        .filter(({ count }) => count > 0)
+        .map(({ track, index, count }) => (
+          <li key={track.id} className={`${getTrackClass(track, index)}-title`}>
+            {count} {getTrackLabel(tracks, track.id)}
+          </li>
+        ))}
+    </ul>
+  );
+
+  return (
+    <div className="results-themes" role="region" aria-labelledby="themes-heading">
+      <h3 id="themes-heading">Themes</h3>
+
+      <div className="theme-sources" role="tablist">
+        {(Object.keys(SOURCE_LABELS) as ThemeSource[]).map(key => (
+          <button
+            key={key}
+            role="tab"
+            aria-selected={source === key}
+            className={`theme-source ${source === key ? 'active' : ''}`}
+            onClick={() => setSource(key)}
+            disabled={themes[key].themes.length === 0}
+          >
+            {SOURCE_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="themes-empty">Not enough responses to group yet</p>
+      ) : (
+        <div className="theme-list" role="tabpanel">
+          {shown.map(theme => (
+            <section key={theme.label} className="theme-card" aria-label={`${theme.label}, ${theme.count} responses`}>
+              <div className="theme-header">
+                <h4>{theme.label}</h4>
+                <span className="theme-count">{theme.count}</span>
+              </div>
+              {renderTrackCounts(theme)}
+              {theme.quotes.map((quote, index) => (
+                <blockquote key={index} className="participant-quote">"{quote}"</blockquote>
+              ))}
+            </section>
+          ))}
+        </div>
+      )}
+
+      {unthemed > 0 && shown.length > 0 && (
+        <p className="themes-unthemed">{unthemed} more didn't fit any theme</p>
+      )}
+    </div>
+  );
+};
+
+export default ThemesPanel;
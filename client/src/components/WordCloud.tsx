@@ -16,7 +16,10 @@ interface WordCloudProps {
   words: Word[];
   width: number;
   height: number;
-  type: 'pull' | 'dont_pull';
+  // Track id the words were given for
+  type: string;
+  // Track label, used for screen readers
+  label?: string;
   className?: string;
 }
 
@@ -25,6 +28,7 @@ const WordCloud: React.FC<WordCloudProps> = ({
   width, 
   height, 
   type, 
+  label,
   className = '' 
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
@@ -113,7 +117,9 @@ const WordCloud: React.FC<WordCloudProps> = ({
     function getWordColor(d: any, i: number): string {
       const colors = type === 'pull' 
         ? ['#e74c3c', '#c0392b', '#a93226', '#922b21']  // Reds for "Pull"
-        : ['#27ae60', '#2ecc71', '#28b463', '#239b56']; // Greens for "Don't Pull"
+        : type === 'dont_pull'
+        ? ['#27ae60', '#2ecc71', '#28b463', '#239b56']  // Greens for "Don't Pull"
+        : ['#2980b9', '#3498db', '#2471a3', '#1f618d']; // Blues for scenario tracks
       
       return colors[i % colors.length];
     }
@@ -145,11 +151,11 @@ const WordCloud: React.FC<WordCloudProps> = ({
         viewBox={`0 0 ${width} ${height}`}
         className="word-cloud-svg"
         role="img"
-        aria-label={`Word cloud showing ${type === 'pull' ? 'reasons to pull the lever' : 'reasons not to pull the lever'}`}
+        aria-label={`Word cloud showing reasons for ${label ?? type}`}
       />
       {/* Screen reader alternative */}
       <div className="sr-only">
-        <h4>{type === 'pull' ? 'Reasons to Pull Lever:' : 'Reasons Not to Pull:'}</h4>
+        <h4>Reasons for {label ?? type}:</h4>
         <ul>
           {processedWords.map((word, i) => (
             <li key={i}>{word.text} (mentioned {word.count} times)</li>
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { RoomService } from '../services/rooms';
+import type { Organization } from '../services/api';
+
+interface WorkspaceSignInProps {
+  organization: Organization | null;
+  onChange: (organization: Organization | null) => void;
+}
+
+/**
+ * Sign in to a client organization's workspace, so the room and the
+ * scenarios and profiles on offer are that organization's
+ */
+const WorkspaceSignIn: React.FC<WorkspaceSignInProps> = ({ organization, onChange }) => {
+  const [slug, setSlug] = useState('');
+  const [accessKey, setAccessKey] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+  const [signInError, setSignInError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    setSignInError(null);
+    const { data, error } = await RoomService.signInOrganization(slug.trim(), accessKey);
+    setSigningIn(false);
+    if (error) {
+      setSignInError(error.message);
+      return;
+    }
+    setAccessKey('');
+    onChange(data);
+  };
+
+  const handleLeave = () => {
+    RoomService.leaveOrganization();
+    onChange(null);
+  };
+
+  if (organization) {
+    return (
+      <div className="workspace-current">
+        <span>
+          Working in <strong>{organization.name}</strong>
+        </span>
+        <button type="button" className="workspace-leave" onClick={handleLeave}>
+          Leave workspace
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="workspace-sign-in" onSubmit={handleSubmit} aria-labelledby="workspace-heading">
+      <h3 id="workspace-heading">Organization Workspace</h3>
+      <p className="help-text">
+        Running a workshop for a client? Sign in to their workspace to use their private scenarios and keep their results separate.
+      </p>
+      <div className="workspace-fields">
+        <input
+          type="text"
+          value={slug}
+          onChange={(e) => setSlug(e.target.value)}
+          placeholder="Organization (e.g. riverside-food-bank)"
+          aria-label="Organization"
+          autoComplete="organization"
+        />
+        <input
+          type="password"
+          value={accessKey}
+          onChange={(e) => setAccessKey(e.target.value)}
+          placeholder="Access key"
+          aria-label="Access key"
+          autoComplete="current-password"
+        />
+        <button type="submit" disabled={signingIn || !slug.trim() || !accessKey}>
+          {signingIn ? 'Signing in...' : 'Sign in'}
+        </button>
+      </div>
+      {signInError && (
+        <p className="workspace-error" role="alert">{signInError}</p>
+      )}
+    </form>
+  );
+};
+
+export default WorkspaceSignIn;
@@ -65,9 +65,8 @@ export const useScreenReader = () => {
     });
   }, [announce]);
 
-  const announceVoteSubmitted = useCallback((vote: 'pull' | 'dont_pull', rationale?: string) => {
-    const action = vote === 'pull' ? 'pull the lever' : 'not pull the lever';
-    let message = `Vote submitted successfully. You chose to ${action}.`;
+  const announceVoteSubmitted = useCallback((choiceLabel: string, rationale?: string) => {
+    let message = `Vote submitted successfully. You chose: ${choiceLabel}.`;
     
     if (rationale) {
       message += ` Your reasoning: "${rationale}"`;
@@ -77,14 +76,14 @@ export const useScreenReader = () => {
   }, [announce]);
 
   const announceResults = useCallback((
-    pullVotes: number, 
-    dontPullVotes: number, 
-    decision: 'pull' | 'dont_pull'
+    counts: { label: string; votes: number }[],
+    winnerLabel: string | null
   ) => {
-    const total = pullVotes + dontPullVotes;
-    const winner = decision === 'pull' ? 'pull the lever' : 'not pull the lever';
+    const total = counts.reduce((sum, count) => sum + count.votes, 0);
+    const breakdown = counts.map(count => `${count.votes} votes for ${count.label}`).join(', ');
+    const outcome = winnerLabel ? `The group chose ${winnerLabel}.` : 'The vote was tied.';
     
-    const message = `Voting results: ${pullVotes} votes to pull, ${dontPullVotes} votes to not pull, out of ${total} total votes. The group decided to ${winner}.`;
+    const message = `Voting results: ${breakdown}, out of ${total} total votes. ${outcome}`;
     
     announce(message, { politeness: 'assertive' });
   }, [announce]);
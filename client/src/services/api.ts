@@ -1,4 +1,58 @@
 import axios from 'axios';
+import type {
+  AccountResponse,
+  AccountSession,
+  AccountSessionsResponse,
+  AccountSignInResponse,
+  AnalyticsOverview,
+  ApiError,
+  ComparedTerm,
+  ConfidenceDistribution,
+  CreateRoomResponse,
+  CurrentOrganizationResponse,
+  DeckEntry,
+  DeckMove,
+  DivisionGroup,
+  ExportFormat,
+  FacilitatorAccount,
+  GamePhase,
+  JoinRoomResponse,
+  LatencyComparison,
+  LatencyDistribution,
+  ModerationItem,
+  ModerationKind,
+  ModerationProfilesResponse,
+  ModerationProfileSummary,
+  ModerationQueueResponse,
+  Organization,
+  OrganizationSignInResponse,
+  Participant,
+  PhaseState,
+  RationaleTheme,
+  ReplayFrame,
+  ReplayRationale,
+  ResumeSessionResponse,
+  ReviewDecision,
+  ReviewResponse,
+  RoomConfig,
+  RoomStatus,
+  Scenario,
+  ScenarioAnalytics,
+  ScenarioThemes,
+  ScenarioTrack,
+  Session,
+  SessionReplay,
+  SessionSnapshot,
+  StartScenarioResponse,
+  SubmitVoteResponse,
+  TermCount,
+  Theme,
+  TrackWordCloud,
+  Vote,
+  VoteShift,
+  VoteSummary,
+  WordCloudComparison,
+} from '../../../shared/contracts';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api';
 
@@ -10,82 +64,133 @@ export const api = axios.create({
   withCredentials: true,
 });
 
+const FACILITATOR_TOKEN_KEY = 'facilitatorToken';
+
+export function getFacilitatorToken(): string | null {
+  return sessionStorage.getItem(FACILITATOR_TOKEN_KEY);
+}
+
+export function setFacilitatorToken(token: string | null): void {
+  if (token) {
+    sessionStorage.setItem(FACILITATOR_TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(FACILITATOR_TOKEN_KEY);
+  }
+}
+
+const PARTICIPANT_TOKEN_KEY = 'participantToken';
+
+// Issued on joining a room; proves which participant this tab plays as
+export function getParticipantToken(): string | null {
+  return sessionStorage.getItem(PARTICIPANT_TOKEN_KEY);
+}
+
+export function setParticipantToken(token: string | null): void {
+  if (token) {
+    sessionStorage.setItem(PARTICIPANT_TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(PARTICIPANT_TOKEN_KEY);
+  }
+}
+
+const ACCOUNT_TOKEN_KEY = 'facilitatorAccountToken';
+
+// Kept across tabs and restarts, unlike the per-tab session token
+export function getAccountToken(): string | null {
+  return localStorage.getItem(ACCOUNT_TOKEN_KEY);
+}
+
+export function setAccountToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(ACCOUNT_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(ACCOUNT_TOKEN_KEY);
+  }
+}
+
+// Attach the facilitator token so session control routes accept the request,
+// or the participant token so a player can read their session; without
+// either, the account token lets a signed-in facilitator open rooms
+api.interceptors.request.use(config => {
+  const token = getFacilitatorToken() ?? getParticipantToken() ?? getAccountToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
 // Request interceptor for error handling
 api.interceptors.response.use(
   response => response,
   error => {
     console.error('API Error:', error.response?.data || error.message);
+    // An expired token would otherwise be refused on every request from this tab
+    if (error.response?.status === 401 && error.response?.data?.error === 'Invalid or expired token') {
+      if (getFacilitatorToken()) {
+        setFacilitatorToken(null);
+      } else if (getParticipantToken()) {
+        setParticipantToken(null);
+      } else {
+        setAccountToken(null);
+      }
+    }
     return Promise.reject(error);
   }
 );
 
-export interface RoomConfig {
-  timerDuration?: number;
-  maxParticipants?: number;
-  moderationEnabled?: boolean;
-  contentWarnings?: boolean;
-}
-
-export interface Session {
-  id: string;
-  roomCode: string;
-  facilitatorId: string | null;
-  createdAt: string;
-  endedAt: string | null;
-  config: RoomConfig;
-  status: 'waiting' | 'active' | 'complete' | 'cancelled';
-  metadata: Record<string, any>;
-}
+export type {
+  AccountSession,
+  AnalyticsOverview,
+  ApiError,
+  ComparedTerm,
+  ConfidenceDistribution,
+  DeckEntry,
+  DeckMove,
+  DivisionGroup,
+  ExportFormat,
+  FacilitatorAccount,
+  GamePhase,
+  LatencyComparison,
+  LatencyDistribution,
+  ModerationItem,
+  ModerationKind,
+  ModerationProfileSummary,
+  Organization,
+  Participant,
+  PhaseState,
+  RationaleTheme,
+  ReplayFrame,
+  ReplayRationale,
+  ReviewDecision,
+  RoomConfig,
+  RoomStatus,
+  Scenario,
+  ScenarioAnalytics,
+  ScenarioThemes,
+  ScenarioTrack,
+  Session,
+  SessionReplay,
+  SessionSnapshot,
+  TermCount,
+  Theme,
+  TrackWordCloud,
+  Vote,
+  VoteShift,
+  VoteSummary,
+  WordCloudComparison,
+};
 
-export interface Participant {
-  id: string;
-  sessionId: string;
-  fingerprint: string;
-  joinedAt: string;
-  leftAt: string | null;
-  userAgent: string | null;
-  ipHash: string | null;
-  isActive: boolean;
-  metadata: Record<string, any>;
-}
+// Upper edges of the server's decision time histogram buckets; the last bucket is open-ended
+export const LATENCY_BUCKETS_MS = [5000, 10000, 20000, 30000, 60000];
 
-export interface Vote {
-  id: string;
-  sessionId: string;
-  participantId: string;
-  scenarioId: string;
-  vote: 'pull' | 'dont_pull';
-  createdAt: string;
-  latencyMs: number | null;
-}
-
-export interface Scenario {
-  id: string;
-  title: string;
-  context: string;
-  aiOption: string;
-  nonAiOption: string;
-  assumptions: string[];
-  ethicalAxes: string[];
-  riskNotes: string | null;
-  metrics: {
-    benefit_estimate?: string;
-    error_rate?: string;
-    cost_comparison?: string;
-  };
-  contentWarnings: string[];
-  difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
-  discussionPrompts: string[];
-  mitigations?: string[];
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+// A scenario can be voted on once, then re-voted once after discussion
+export const MAX_VOTE_ROUNDS = 2;
 
 export class ApiService {
-  static async createRoom(config: RoomConfig = {}): Promise<{ room: Session; error: Error | null }> {
+  static async createRoom(config: RoomConfig = {}, scenarioIds?: string[]): Promise<{ room: Session; error: Error | null }> {
     try {
-      const response = await api.post('/rooms/create', { config });
+      const response = await api.post<CreateRoomResponse>('/rooms/create', { config, scenarioIds });
+      setFacilitatorToken(response.data.facilitatorToken);
       return { room: response.data.room, error: null };
     } catch (error) {
       console.error('Failed to create room:', error);
@@ -99,11 +204,12 @@ export class ApiService {
     error: Error | null 
   }> {
     try {
-      const response = await api.post('/rooms/join', {
+      const response = await api.post<JoinRoomResponse>('/rooms/join', {
         roomCode,
         fingerprint,
         userAgent: navigator.userAgent,
       });
+      setParticipantToken(response.data.participantToken);
       return { 
         participant: response.data.participant,
         session: response.data.session,
@@ -121,7 +227,17 @@ export class ApiService {
 
   static async getRoomStatus(roomCode: string) {
     try {
-      const response = await api.get(`/rooms/${roomCode}/status`);
+      const response = await api.get<RoomStatus>(`/rooms/${roomCode}/status`);
+      return { data: response.data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // The participant token picks out the caller's own vote
+  static async getSessionSnapshot(roomCode: string): Promise<{ data: SessionSnapshot | null; error: Error | null }> {
+    try {
+      const response = await api.get<SessionSnapshot>(`/rooms/${roomCode}/snapshot`);
       return { data: response.data, error: null };
     } catch (error) {
       return { data: null, error: error as Error };
@@ -130,27 +246,95 @@ export class ApiService {
 
   static async startScenario(sessionId: string, scenarioId: string) {
     try {
-      const response = await api.post(`/sessions/${sessionId}/scenarios/${scenarioId}/start`);
+      const response = await api.post<StartScenarioResponse>(`/sessions/${sessionId}/scenarios/${scenarioId}/start`);
+      return { data: response.data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  static async startRevote(sessionId: string, scenarioId: string): Promise<{ data: StartScenarioResponse | null; error: Error | null }> {
+    try {
+      const response = await api.post<StartScenarioResponse>(`/sessions/${sessionId}/scenarios/${scenarioId}/revote`);
+      return { data: response.data, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getPhase(sessionId: string): Promise<{ data: PhaseState | null; error: Error | null }> {
+    try {
+      const response = await api.get<PhaseState>(`/sessions/${sessionId}/phase`);
+      return { data: response.data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  static async advancePhase(sessionId: string, phase: 'results' | 'waiting'): Promise<{ data: PhaseState | null; error: Error | null }> {
+    try {
+      const response = await api.post<PhaseState>(`/sessions/${sessionId}/phase`, { phase });
+      return { data: response.data, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getDeck(sessionId: string): Promise<{ data: DeckEntry[] | null; error: Error | null }> {
+    try {
+      const response = await api.get<DeckEntry[]>(`/sessions/${sessionId}/deck`);
       return { data: response.data, error: null };
     } catch (error) {
       return { data: null, error: error as Error };
     }
   }
 
+  static async moveDeck(sessionId: string, move: DeckMove): Promise<{ data: PhaseState | null; error: Error | null }> {
+    try {
+      const response = await api.post<PhaseState>(`/sessions/${sessionId}/deck/move`, move);
+      return { data: response.data, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async exportSession(sessionId: string, format: ExportFormat): Promise<{ data: Blob | null; error: Error | null }> {
+    try {
+      const response = await api.get(`/sessions/${sessionId}/export`, {
+        params: { format },
+        responseType: 'blob',
+      });
+      return { data: response.data, error: null };
+    } catch (error: any) {
+      // Error bodies arrive as a blob too, so read the JSON message out of it
+      const body = error.response?.data;
+      if (body instanceof Blob) {
+        try {
+          const { error: message } = JSON.parse(await body.text());
+          return { data: null, error: new Error(message || error.message) };
+        } catch {
+          // Fall through to the transport error
+        }
+      }
+      return { data: null, error: error as Error };
+    }
+  }
+
+  // The participant comes from the token sent with the request
   static async submitVote(
     sessionId: string,
-    participantId: string,
     scenarioId: string,
-    vote: 'pull' | 'dont_pull',
+    vote: string,
     rationale?: string,
-    mitigation?: string
+    mitigation?: string,
+    confidence?: number
   ) {
     try {
-      const response = await api.post('/votes', {
+      const response = await api.post<SubmitVoteResponse>('/votes', {
         sessionId,
-        participantId,
         scenarioId,
         vote,
+        confidence,
         rationale,
         mitigation,
       });
@@ -162,25 +346,217 @@ export class ApiService {
 
   static async getVoteSummary(sessionId: string, scenarioId: string) {
     try {
-      const response = await api.get(`/sessions/${sessionId}/scenarios/${scenarioId}/votes`);
+      const response = await api.get<VoteSummary>(`/sessions/${sessionId}/scenarios/${scenarioId}/votes`);
       return { data: response.data, error: null };
     } catch (error) {
       return { data: null, error: error as Error };
     }
   }
 
-  static async getRationales(sessionId: string, scenarioId: string) {
+  // Rationales keyed by track id
+  static async getRationales(sessionId: string, scenarioId: string): Promise<{ data: Record<string, string[]>; error: Error | null }> {
+    try {
+      const response = await api.get<Record<string, string[]>>(`/sessions/${sessionId}/scenarios/${scenarioId}/rationales`);
+      return { data: response.data, error: null };
+    } catch (error) {
+      return { data: {}, error: error as Error };
+    }
+  }
+
+  // Word cloud terms keyed by track id
+  static async getWordCloud(sessionId: string, scenarioId: string): Promise<{ data: Record<string, TrackWordCloud>; error: Error | null }> {
+    try {
+      const response = await api.get<Record<string, TrackWordCloud>>(`/sessions/${sessionId}/scenarios/${scenarioId}/wordcloud`);
+      return { data: response.data, error: null };
+    } catch (error) {
+      return { data: {}, error: error as Error };
+    }
+  }
+
+  static async compareWordCloud(
+    sessionId: string,
+    scenarioId: string,
+    tracks?: [string, string]
+  ): Promise<{ data: WordCloudComparison | null; error: Error | null }> {
+    try {
+      const response = await api.get<WordCloudComparison>(`/sessions/${sessionId}/scenarios/${scenarioId}/wordcloud/compare`, {
+        params: tracks ? { tracks: tracks.join(',') } : undefined,
+      });
+      return { data: response.data, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getThemes(sessionId: string, scenarioId: string): Promise<{ data: ScenarioThemes | null; error: Error | null }> {
+    try {
+      const response = await api.get<ScenarioThemes>(`/sessions/${sessionId}/scenarios/${scenarioId}/themes`);
+      return { data: response.data, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getVoteShift(sessionId: string, scenarioId: string): Promise<{ data: VoteShift | null; error: Error | null }> {
     try {
-      const response = await api.get(`/sessions/${sessionId}/scenarios/${scenarioId}/rationales`);
+      const response = await api.get<VoteShift | null>(`/sessions/${sessionId}/scenarios/${scenarioId}/shift`);
       return { data: response.data, error: null };
     } catch (error) {
-      return { data: { pull: [], dont_pull: [] }, error: error as Error };
+      return { data: null, error: error as Error };
+    }
+  }
+
+  static async getModerationQueue(sessionId: string): Promise<{ data: ModerationItem[]; error: Error | null }> {
+    try {
+      const response = await api.get<ModerationQueueResponse>(`/sessions/${sessionId}/moderation`);
+      return { data: response.data.items, error: null };
+    } catch (error: any) {
+      return { data: [], error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async reviewModerationItem(
+    sessionId: string,
+    item: Pick<ModerationItem, 'id' | 'kind'>,
+    decision: ReviewDecision
+  ): Promise<{ data: ModerationItem | null; error: Error | null }> {
+    try {
+      const response = await api.post<ReviewResponse>(`/sessions/${sessionId}/moderation/${item.kind}/${item.id}`, decision);
+      return { data: response.data.item, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getScenarioAnalytics(): Promise<{ data: AnalyticsOverview | null; error: Error | null }> {
+    try {
+      const response = await api.get<AnalyticsOverview>('/analytics/scenarios');
+      return { data: response.data, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getReplay(sessionId: string): Promise<{ data: SessionReplay | null; error: Error | null }> {
+    try {
+      const response = await api.get<SessionReplay>(`/sessions/${sessionId}/replay`);
+      return { data: response.data, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  // Trade an organization's access key for a workspace token; rooms opened afterwards belong to it
+  static async signInOrganization(slug: string, accessKey: string): Promise<{ data: Organization | null; error: Error | null }> {
+    try {
+      const response = await api.post<OrganizationSignInResponse>('/organizations/sign-in', { slug, accessKey });
+      setFacilitatorToken(response.data.facilitatorToken);
+      return { data: response.data.organization, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getCurrentOrganization(): Promise<{ data: Organization | null; error: Error | null }> {
+    if (!getFacilitatorToken() && !getAccountToken()) {
+      return { data: null, error: null };
+    }
+    try {
+      const response = await api.get<CurrentOrganizationResponse>('/organizations/current');
+      return { data: response.data.organization, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  // Forget the facilitator token, leaving the organization's workspace
+  static leaveOrganization() {
+    setFacilitatorToken(null);
+  }
+
+  // Signing in replaces any workspace token, so rooms opened afterwards belong to the account
+  static async registerAccount(
+    email: string,
+    password: string,
+    name?: string
+  ): Promise<{ data: FacilitatorAccount | null; error: Error | null }> {
+    try {
+      const response = await api.post<AccountSignInResponse>('/accounts/register', { email, password, name: name || undefined });
+      setFacilitatorToken(null);
+      setAccountToken(response.data.accountToken);
+      return { data: response.data.account, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async loginAccount(email: string, password: string): Promise<{ data: FacilitatorAccount | null; error: Error | null }> {
+    try {
+      const response = await api.post<AccountSignInResponse>('/accounts/login', { email, password });
+      setFacilitatorToken(null);
+      setAccountToken(response.data.accountToken);
+      return { data: response.data.account, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getAccount(): Promise<{ data: FacilitatorAccount | null; error: Error | null }> {
+    if (!getAccountToken()) {
+      return { data: null, error: null };
+    }
+    try {
+      const response = await api.get<AccountResponse>('/accounts/me', {
+        headers: { Authorization: `Bearer ${getAccountToken()}` },
+      });
+      return { data: response.data.account, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  // Forget both tokens; the room this tab controls was opened by the account
+  static logoutAccount() {
+    setAccountToken(null);
+    setFacilitatorToken(null);
+  }
+
+  static async getMySessions(): Promise<{ data: AccountSession[]; error: Error | null }> {
+    try {
+      const response = await api.get<AccountSessionsResponse>('/accounts/me/sessions', {
+        headers: { Authorization: `Bearer ${getAccountToken()}` },
+      });
+      return { data: response.data.sessions, error: null };
+    } catch (error: any) {
+      return { data: [], error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  // Take control of one of the account's open rooms in this tab
+  static async resumeSession(sessionId: string): Promise<{ data: Session | null; error: Error | null }> {
+    try {
+      const response = await api.post<ResumeSessionResponse>(`/accounts/me/sessions/${sessionId}/resume`, undefined, {
+        headers: { Authorization: `Bearer ${getAccountToken()}` },
+      });
+      setFacilitatorToken(response.data.facilitatorToken);
+      return { data: response.data.room, error: null };
+    } catch (error: any) {
+      return { data: null, error: new Error(error.response?.data?.error || error.message) };
+    }
+  }
+
+  static async getModerationProfiles(): Promise<{ data: ModerationProfileSummary[]; error: Error | null }> {
+    try {
+      const response = await api.get<ModerationProfilesResponse>('/moderation-profiles');
+      return { data: response.data.profiles, error: null };
+    } catch (error: any) {
+      return { data: [], error: new Error(error.response?.data?.error || error.message) };
     }
   }
 
   static async getMitigations(sessionId: string, scenarioId: string) {
     try {
-      const response = await api.get(`/sessions/${sessionId}/scenarios/${scenarioId}/mitigations`);
+      const response = await api.get<string[]>(`/sessions/${sessionId}/scenarios/${scenarioId}/mitigations`);
       return { data: response.data, error: null };
     } catch (error) {
       return { data: [], error: error as Error };
@@ -198,7 +574,7 @@ export class ApiService {
 
   static async loadScenarios(difficulty?: 'beginner' | 'intermediate' | 'advanced') {
     try {
-      const response = await api.get('/scenarios', {
+      const response = await api.get<Scenario[]>('/scenarios', {
         params: difficulty ? { difficulty } : undefined,
       });
       return { data: response.data, error: null };
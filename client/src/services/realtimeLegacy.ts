@@ -1,63 +1,9 @@
 // Legacy Supabase realtime implementation - replaced with Socket.io
 // This is a stub to maintain compatibility during migration
 
-export interface RealtimeEvents {
-  participant_joined: {
-    participant_id: string;
-    room_code: string;
-    active_count: number;
-  };
-  participant_left: {
-    participant_id: string;
-    room_code: string;
-    active_count: number;
-  };
-  vote_cast: {
-    session_id: string;
-    scenario_id: string;
-    vote: 'pull' | 'dont_pull';
-    total_votes: number;
-    pull_votes: number;
-    dont_pull_votes: number;
-  };
-  rationale_added: {
-    session_id: string;
-    scenario_id: string;
-    vote: 'pull' | 'dont_pull';
-    rationale: string;
-    participant_id: string;
-  };
-  timer_started: {
-    session_id: string;
-    scenario_id: string;
-    duration: number;
-    start_time: string;
-  };
-  timer_tick: {
-    session_id: string;
-    scenario_id: string;
-    seconds_remaining: number;
-  };
-  scenario_started: {
-    session_id: string;
-    scenario_id: string;
-    scenario_title: string;
-  };
-  session_ended: {
-    session_id: string;
-    room_code: string;
-  };
-  decision_announced: {
-    session_id: string;
-    scenario_id: string;
-    decision: 'ai_track' | 'non_ai_track' | 'tie';
-    pull_count: number;
-    dont_pull_count: number;
-    total_votes: number;
-  };
-}
+import type { RealtimeEvents, RealtimeEventType } from '../../../shared/contracts';
 
-export type RealtimeEventType = keyof RealtimeEvents;
+export type { RealtimeEvents, RealtimeEventType };
 
 export class RealtimeService {
   private sessionId: string | null = null;
@@ -1,4 +1,5 @@
 import { socketService, type RealtimeEvents, type RealtimeEventType } from './socket';
+import type { RealtimeCommands, RealtimeCommandType } from '../../../shared/contracts';
 
 export { RealtimeEvents, RealtimeEventType } from './socket';
 
@@ -37,11 +38,11 @@ export class RealtimeServiceNew {
     socketService.off(event, callback);
   }
 
-  async broadcast<T extends RealtimeEventType>(
-    event: T,
-    payload: RealtimeEvents[T]
+  async broadcast<C extends Exclude<RealtimeCommandType, 'sync_state' | 'leave_room'>>(
+    command: C,
+    payload: RealtimeCommands[C]
   ): Promise<void> {
-    socketService.emit(event, payload);
+    socketService.emit(command, payload);
   }
 
   startTimer(duration: number): void {
@@ -65,9 +66,8 @@ export class RealtimeServiceNew {
 
   announceDecision(
     scenarioId: string,
-    decision: 'ai_track' | 'non_ai_track' | 'tie',
-    pullCount: number,
-    dontPullCount: number,
+    decision: string,
+    trackVotes: Record<string, number>,
     totalVotes: number
   ): void {
     if (!this.sessionId) {
@@ -78,8 +78,7 @@ export class RealtimeServiceNew {
       this.sessionId,
       scenarioId,
       decision,
-      pullCount,
-      dontPullCount,
+      trackVotes,
       totalVotes
     );
   }
@@ -1,26 +1,18 @@
 // Hybrid room service that works with or without backend
 import { generateFingerprint } from '../utils/fingerprint';
-import { Database } from './supabaseCompat';
 import { MockRoomService } from './mockData';
 import { RoomService as ApiRoomService } from './roomsApi';
+import type { DeckMove, ExportFormat } from './api';
+import type { AccountSession, ModerationItem, ModerationProfileSummary, ReviewDecision, TrackWordCloud } from './api';
+import type { Participant, RoomConfig, Session } from './api';
 
-type Session = Database['public']['Tables']['sessions']['Row'];
-type Participant = Database['public']['Tables']['participants']['Row'];
-type Vote = Database['public']['Tables']['votes']['Row'];
-type Scenario = Database['public']['Tables']['scenarios']['Row'];
-
-export interface RoomConfig {
-  timerDuration?: number;
-  maxParticipants?: number;
-  moderationEnabled?: boolean;
-  contentWarnings?: boolean;
-}
+export type { RoomConfig };
 
 // Check if we have a backend configured
 const hasBackend = !!process.env.REACT_APP_API_URL;
 
 export class RoomService {
-  static async createRoom(config: RoomConfig = {}): Promise<{ room: Session; error: Error | null }> {
+  static async createRoom(config: RoomConfig = {}, scenarioIds?: string[]): Promise<{ room: Session; error: Error | null }> {
     console.log('🔧 RoomService.createRoom - hasBackend:', hasBackend);
     
     if (!hasBackend) {
@@ -29,7 +21,7 @@ export class RoomService {
     }
     
     console.log('🌐 Using API RoomService');
-    return ApiRoomService.createRoom(config);
+    return ApiRoomService.createRoom(config, scenarioIds);
   }
 
   static async joinRoom(roomCode: string): Promise<{ participant: Participant; error: Error | null }> {
@@ -58,18 +50,68 @@ export class RoomService {
     return ApiRoomService.startScenario(sessionId, scenarioId);
   }
 
+  static async getSessionSnapshot(roomCode: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Session snapshots are only available with a backend') };
+    }
+    return ApiRoomService.getSessionSnapshot(roomCode);
+  }
+
+  static async getPhase(sessionId: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Game phases are only tracked with a backend') };
+    }
+    return ApiRoomService.getPhase(sessionId);
+  }
+
+  static async startRevote(sessionId: string, scenarioId: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Re-votes are only tracked with a backend') };
+    }
+    return ApiRoomService.startRevote(sessionId, scenarioId);
+  }
+
+  static async advancePhase(sessionId: string, phase: 'results' | 'waiting') {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Game phases are only tracked with a backend') };
+    }
+    return ApiRoomService.advancePhase(sessionId, phase);
+  }
+
+  static async getDeck(sessionId: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Scenario decks are only stored with a backend') };
+    }
+    return ApiRoomService.getDeck(sessionId);
+  }
+
+  static async moveDeck(sessionId: string, move: DeckMove) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Scenario decks are only stored with a backend') };
+    }
+    return ApiRoomService.moveDeck(sessionId, move);
+  }
+
+  static async exportSession(sessionId: string, format: ExportFormat) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Session exports are only available with a backend') };
+    }
+    return ApiRoomService.exportSession(sessionId, format);
+  }
+
   static async submitVote(
     sessionId: string,
     participantId: string,
     scenarioId: string,
-    vote: 'pull' | 'dont_pull',
+    vote: string,
     rationale?: string,
-    mitigation?: string
+    mitigation?: string,
+    confidence?: number
   ) {
     if (!hasBackend) {
       return MockRoomService.submitVote(sessionId, participantId, scenarioId, vote, rationale, mitigation);
     }
-    return ApiRoomService.submitVote(sessionId, participantId, scenarioId, vote, rationale, mitigation);
+    return ApiRoomService.submitVote(sessionId, scenarioId, vote, rationale, mitigation, confidence);
   }
 
   static async getVoteSummary(sessionId: string, scenarioId: string) {
@@ -86,6 +128,34 @@ export class RoomService {
     return ApiRoomService.getRationales(sessionId, scenarioId);
   }
 
+  static async getWordCloud(sessionId: string, scenarioId: string) {
+    if (!hasBackend) {
+      return { data: {} as Record<string, TrackWordCloud>, error: new Error('Word clouds are only available with a backend') };
+    }
+    return ApiRoomService.getWordCloud(sessionId, scenarioId);
+  }
+
+  static async compareWordCloud(sessionId: string, scenarioId: string, tracks?: [string, string]) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Word clouds are only available with a backend') };
+    }
+    return ApiRoomService.compareWordCloud(sessionId, scenarioId, tracks);
+  }
+
+  static async getThemes(sessionId: string, scenarioId: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Themes are only available with a backend') };
+    }
+    return ApiRoomService.getThemes(sessionId, scenarioId);
+  }
+
+  static async getVoteShift(sessionId: string, scenarioId: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Re-votes are only tracked with a backend') };
+    }
+    return ApiRoomService.getVoteShift(sessionId, scenarioId);
+  }
+
   static async getMitigations(sessionId: string, scenarioId: string) {
     if (!hasBackend) {
       return MockRoomService.getMitigations(sessionId, scenarioId);
@@ -93,6 +163,102 @@ export class RoomService {
     return ApiRoomService.getMitigations(sessionId, scenarioId);
   }
 
+  static async getModerationQueue(sessionId: string) {
+    if (!hasBackend) {
+      return { data: [] as ModerationItem[], error: new Error('The moderation queue is only available with a backend') };
+    }
+    return ApiRoomService.getModerationQueue(sessionId);
+  }
+
+  static async reviewModerationItem(sessionId: string, item: Pick<ModerationItem, 'id' | 'kind'>, decision: ReviewDecision) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('The moderation queue is only available with a backend') };
+    }
+    return ApiRoomService.reviewModerationItem(sessionId, item, decision);
+  }
+
+  static async getScenarioAnalytics() {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Analytics are only available with a backend') };
+    }
+    return ApiRoomService.getScenarioAnalytics();
+  }
+
+  static async getReplay(sessionId: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Replays are only available with a backend') };
+    }
+    return ApiRoomService.getReplay(sessionId);
+  }
+
+  static async getModerationProfiles() {
+    if (!hasBackend) {
+      return { data: [] as ModerationProfileSummary[], error: new Error('Moderation profiles are only available with a backend') };
+    }
+    return ApiRoomService.getModerationProfiles();
+  }
+
+  static async signInOrganization(slug: string, accessKey: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Organizations are only available with a backend') };
+    }
+    return ApiRoomService.signInOrganization(slug, accessKey);
+  }
+
+  static async getCurrentOrganization() {
+    if (!hasBackend) {
+      return { data: null, error: null };
+    }
+    return ApiRoomService.getCurrentOrganization();
+  }
+
+  static leaveOrganization() {
+    if (hasBackend) {
+      ApiRoomService.leaveOrganization();
+    }
+  }
+
+  static async registerAccount(email: string, password: string, name?: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Facilitator accounts are only available with a backend') };
+    }
+    return ApiRoomService.registerAccount(email, password, name);
+  }
+
+  static async loginAccount(email: string, password: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Facilitator accounts are only available with a backend') };
+    }
+    return ApiRoomService.loginAccount(email, password);
+  }
+
+  static async getAccount() {
+    if (!hasBackend) {
+      return { data: null, error: null };
+    }
+    return ApiRoomService.getAccount();
+  }
+
+  static logoutAccount() {
+    if (hasBackend) {
+      ApiRoomService.logoutAccount();
+    }
+  }
+
+  static async getMySessions() {
+    if (!hasBackend) {
+      return { data: [] as AccountSession[], error: new Error('Facilitator accounts are only available with a backend') };
+    }
+    return ApiRoomService.getMySessions();
+  }
+
+  static async resumeSession(sessionId: string) {
+    if (!hasBackend) {
+      return { data: null, error: new Error('Facilitator accounts are only available with a backend') };
+    }
+    return ApiRoomService.resumeSession(sessionId);
+  }
+
   static async endSession(sessionId: string) {
     if (!hasBackend) {
       return MockRoomService.endSession(sessionId);
@@ -1,41 +1,12 @@
 // API-based room service (replaces Supabase implementation)
-import { ApiService } from './api';
+import { ApiService, type DeckMove, type ExportFormat } from './api';
+import type { DeckEntry, ModerationItem, Participant, ReviewDecision, RoomConfig, Scenario, Session } from './api';
 import { generateFingerprint } from '../utils/fingerprint';
-import { Database } from './supabaseCompat';
-
-type Session = Database['public']['Tables']['sessions']['Row'];
-type Participant = Database['public']['Tables']['participants']['Row'];
-type Vote = Database['public']['Tables']['votes']['Row'];
-type Scenario = Database['public']['Tables']['scenarios']['Row'];
-
-export interface RoomConfig {
-  timerDuration?: number;
-  maxParticipants?: number;
-  moderationEnabled?: boolean;
-  contentWarnings?: boolean;
-}
 
 export class RoomService {
-  static async createRoom(config: RoomConfig = {}): Promise<{ room: Session; error: Error | null }> {
+  static async createRoom(config: RoomConfig = {}, scenarioIds?: string[]): Promise<{ room: Session; error: Error | null }> {
     try {
-      const result = await ApiService.createRoom(config);
-      
-      // Transform the response to match the expected Session type
-      if (result.room) {
-        const room: Session = {
-          id: result.room.id,
-          room_code: result.room.roomCode,
-          facilitator_id: result.room.facilitatorId,
-          created_at: result.room.createdAt,
-          ended_at: result.room.endedAt,
-          config: result.room.config as any,
-          status: result.room.status,
-          metadata: result.room.metadata,
-        };
-        return { room, error: null };
-      }
-      
-      return { room: null as any, error: result.error };
+      return await ApiService.createRoom(config, scenarioIds);
     } catch (error) {
       console.error('Failed to create room:', error);
       return { room: null as any, error: error as Error };
@@ -46,23 +17,7 @@ export class RoomService {
     try {
       const fingerprint = generateFingerprint();
       const result = await ApiService.joinRoom(roomCode, fingerprint);
-      
-      if (result.participant) {
-        const participant: Participant = {
-          id: result.participant.id,
-          session_id: result.participant.sessionId,
-          fingerprint: result.participant.fingerprint,
-          joined_at: result.participant.joinedAt,
-          left_at: result.participant.leftAt,
-          user_agent: result.participant.userAgent,
-          ip_hash: result.participant.ipHash,
-          is_active: result.participant.isActive,
-          metadata: result.participant.metadata,
-        };
-        return { participant, error: null };
-      }
-      
-      return { participant: null as any, error: result.error };
+      return { participant: result.participant, error: result.error };
     } catch (error) {
       console.error('Failed to join room:', error);
       return { participant: null as any, error: error as Error };
@@ -73,19 +28,47 @@ export class RoomService {
     return ApiService.getRoomStatus(roomCode);
   }
 
+  static async getSessionSnapshot(roomCode: string) {
+    return ApiService.getSessionSnapshot(roomCode);
+  }
+
   static async startScenario(sessionId: string, scenarioId: string) {
     return ApiService.startScenario(sessionId, scenarioId);
   }
 
+  static async startRevote(sessionId: string, scenarioId: string) {
+    return ApiService.startRevote(sessionId, scenarioId);
+  }
+
+  static async getPhase(sessionId: string) {
+    return ApiService.getPhase(sessionId);
+  }
+
+  static async advancePhase(sessionId: string, phase: 'results' | 'waiting') {
+    return ApiService.advancePhase(sessionId, phase);
+  }
+
+  static async getDeck(sessionId: string): Promise<{ data: DeckEntry[] | null; error: Error | null }> {
+    return ApiService.getDeck(sessionId);
+  }
+
+  static async moveDeck(sessionId: string, move: DeckMove) {
+    return ApiService.moveDeck(sessionId, move);
+  }
+
+  static async exportSession(sessionId: string, format: ExportFormat) {
+    return ApiService.exportSession(sessionId, format);
+  }
+
   static async submitVote(
     sessionId: string,
-    participantId: string,
     scenarioId: string,
-    vote: 'pull' | 'dont_pull',
+    vote: string,
     rationale?: string,
-    mitigation?: string
+    mitigation?: string,
+    confidence?: number
   ) {
-    return ApiService.submitVote(sessionId, participantId, scenarioId, vote, rationale, mitigation);
+    return ApiService.submitVote(sessionId, scenarioId, vote, rationale, mitigation, confidence);
   }
 
   static async getVoteSummary(sessionId: string, scenarioId: string) {
@@ -96,45 +79,87 @@ export class RoomService {
     return ApiService.getRationales(sessionId, scenarioId);
   }
 
+  static async getWordCloud(sessionId: string, scenarioId: string) {
+    return ApiService.getWordCloud(sessionId, scenarioId);
+  }
+
+  static async compareWordCloud(sessionId: string, scenarioId: string, tracks?: [string, string]) {
+    return ApiService.compareWordCloud(sessionId, scenarioId, tracks);
+  }
+
+  static async getThemes(sessionId: string, scenarioId: string) {
+    return ApiService.getThemes(sessionId, scenarioId);
+  }
+
+  static async getVoteShift(sessionId: string, scenarioId: string) {
+    return ApiService.getVoteShift(sessionId, scenarioId);
+  }
+
   static async getMitigations(sessionId: string, scenarioId: string) {
     return ApiService.getMitigations(sessionId, scenarioId);
   }
 
+  static async getModerationQueue(sessionId: string) {
+    return ApiService.getModerationQueue(sessionId);
+  }
+
+  static async reviewModerationItem(sessionId: string, item: Pick<ModerationItem, 'id' | 'kind'>, decision: ReviewDecision) {
+    return ApiService.reviewModerationItem(sessionId, item, decision);
+  }
+
+  static async getScenarioAnalytics() {
+    return ApiService.getScenarioAnalytics();
+  }
+
+  static async getReplay(sessionId: string) {
+    return ApiService.getReplay(sessionId);
+  }
+
+  static async getModerationProfiles() {
+    return ApiService.getModerationProfiles();
+  }
+
+  static async signInOrganization(slug: string, accessKey: string) {
+    return ApiService.signInOrganization(slug, accessKey);
+  }
+
+  static async getCurrentOrganization() {
+    return ApiService.getCurrentOrganization();
+  }
+
+  static leaveOrganization() {
+    ApiService.leaveOrganization();
+  }
+
+  static async registerAccount(email: string, password: string, name?: string) {
+    return ApiService.registerAccount(email, password, name);
+  }
+
+  static async loginAccount(email: string, password: string) {
+    return ApiService.loginAccount(email, password);
+  }
+
+  static async getAccount() {
+    return ApiService.getAccount();
+  }
+
+  static logoutAccount() {
+    ApiService.logoutAccount();
+  }
+
+  static async getMySessions() {
+    return ApiService.getMySessions();
+  }
+
+  static async resumeSession(sessionId: string): Promise<{ data: Session | null; error: Error | null }> {
+    return ApiService.resumeSession(sessionId);
+  }
+
   static async endSession(sessionId: string) {
     return ApiService.endSession(sessionId);
   }
 
-  static async loadScenarios(difficulty?: 'beginner' | 'intermediate' | 'advanced') {
-    try {
-      const result = await ApiService.loadScenarios(difficulty);
-      
-      if (result.data) {
-        // Transform the response to match the expected Scenario type
-        const scenarios: Scenario[] = result.data.map((s: any) => ({
-          id: s.id,
-          title: s.title,
-          context: s.context,
-          ai_option: s.aiOption,
-          non_ai_option: s.nonAiOption,
-          assumptions: s.assumptions,
-          ethical_axes: s.ethicalAxes,
-          risk_notes: s.riskNotes,
-          metrics: s.metrics,
-          content_warnings: s.contentWarnings,
-          difficulty_level: s.difficultyLevel,
-          discussion_prompts: s.discussionPrompts,
-          mitigations: s.mitigations,
-          is_active: s.isActive,
-          created_at: s.createdAt,
-          updated_at: s.updatedAt,
-        }));
-        
-        return { data: scenarios, error: null };
-      }
-      
-      return { data: null, error: result.error };
-    } catch (error) {
-      return { data: null, error: error as Error };
-    }
+  static async loadScenarios(difficulty?: 'beginner' | 'intermediate' | 'advanced'): Promise<{ data: Scenario[] | null; error: Error | null }> {
+    return ApiService.loadScenarios(difficulty);
   }
 }
\ No newline at end of file
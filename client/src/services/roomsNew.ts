@@ -47,7 +47,7 @@ export class RoomServiceNew {
     rationale?: string,
     mitigation?: string
   ) {
-    return ApiService.submitVote(sessionId, participantId, scenarioId, vote, rationale, mitigation);
+    return ApiService.submitVote(sessionId, scenarioId, vote, rationale, mitigation);
   }
 
   static async getVoteSummary(sessionId: string, scenarioId: string) {
@@ -1,67 +1,20 @@
 import { io, Socket } from 'socket.io-client';
+import { getFacilitatorToken, getParticipantToken, type SessionSnapshot } from './api';
+import type {
+  ClientToServerEvents,
+  RealtimeCommands,
+  RealtimeCommandType,
+  RealtimeEvents,
+  RealtimeEventType,
+  ServerToClientEvents,
+} from '../../../shared/contracts';
+
+export type { RealtimeEvents, RealtimeEventType };
 
 const SOCKET_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
-export interface RealtimeEvents {
-  participant_joined: {
-    participant_id: string;
-    room_code: string;
-    active_count: number;
-  };
-  participant_left: {
-    participant_id: string;
-    room_code: string;
-    active_count: number;
-  };
-  vote_cast: {
-    session_id: string;
-    scenario_id: string;
-    vote: 'pull' | 'dont_pull';
-    total_votes: number;
-    pull_votes: number;
-    dont_pull_votes: number;
-  };
-  rationale_added: {
-    session_id: string;
-    scenario_id: string;
-    vote: 'pull' | 'dont_pull';
-    rationale: string;
-    participant_id: string;
-  };
-  timer_started: {
-    session_id: string;
-    scenario_id: string;
-    duration: number;
-    start_time: string;
-  };
-  timer_tick: {
-    session_id: string;
-    scenario_id: string;
-    seconds_remaining: number;
-  };
-  scenario_started: {
-    session_id: string;
-    scenario_id: string;
-    scenario_title: string;
-  };
-  session_ended: {
-    session_id: string;
-    room_code: string;
-  };
-  decision_announced: {
-    session_id: string;
-    scenario_id: string;
-    decision: 'ai_track' | 'non_ai_track' | 'tie';
-    pull_count: number;
-    dont_pull_count: number;
-    total_votes: number;
-  };
-}
-
-export type RealtimeEventType = keyof RealtimeEvents;
-
 export class SocketService {
-  private socket: Socket | null = null;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private sessionId: string | null = null;
   private participantId: string | null = null;
   private callbacks: Map<string, Set<(data: any) => void>> = new Map();
@@ -74,6 +27,7 @@ export class SocketService {
     this.socket = io(SOCKET_URL, {
       withCredentials: true,
       transports: ['websocket', 'polling'],
+      auth: (cb) => cb({ token: getFacilitatorToken() ?? getParticipantToken() }),
     });
 
     this.setupEventHandlers();
@@ -96,10 +50,65 @@ export class SocketService {
 
     this.sessionId = sessionId;
     this.participantId = participantId;
+    if (this.socket!.connected) {
+      this.sendJoin();
+    }
+  }
+
+  /**
+   * Follow a room's broadcasts without registering as a participant
+   */
+  async watchRoom(sessionId: string): Promise<void> {
+    if (!this.socket) {
+      this.connect();
+    }
+
+    this.sessionId = sessionId;
+    this.participantId = null;
+    if (this.socket!.connected) {
+      this.sendJoin();
+    }
+  }
+
+  /**
+   * Tell the server which room this socket is in. A socket that is still
+   * connecting joins from its connect handler instead, so the server hears
+   * it once.
+   */
+  private sendJoin(): void {
+    const { sessionId, participantId } = this;
+    if (!this.socket || !sessionId) {
+      return;
+    }
+
+    this.socket.emit('join_room', participantId ? { sessionId, participantId } : { sessionId });
+  }
+
+  /**
+   * Ask the server for the current session state. The answer is delivered
+   * to `sync_state` listeners as well as returned.
+   */
+  syncState(): Promise<SessionSnapshot | null> {
+    const { sessionId, participantId } = this;
+    if (!this.socket || !sessionId) {
+      return Promise.resolve(null);
+    }
 
     return new Promise((resolve) => {
-      this.socket!.emit('join_room', { sessionId, participantId });
-      resolve();
+      this.socket!.emit(
+        'sync_state',
+        { sessionId, participantId },
+        response => {
+          if (response.error || !response.snapshot) {
+            console.error('Failed to sync session state:', response.error);
+            resolve(null);
+            return;
+          }
+
+          this.callbacks.get('sync_state')?.forEach(callback => callback(response.snapshot));
+          resolve(response.snapshot);
+        }
+      );
     });
   }
 
@@ -136,16 +145,17 @@ export class SocketService {
     }
   }
 
-  emit<T extends RealtimeEventType>(
-    event: T,
-    data: RealtimeEvents[T]
+  emit<C extends Exclude<RealtimeCommandType, 'sync_state' | 'leave_room'>>(
+    command: C,
+    data: RealtimeCommands[C]
   ): void {
     if (!this.socket) {
       console.error('Socket not connected');
       return;
     }
 
-    this.socket.emit(event, data);
+    // socket.io can't narrow its listener map through the generic, hence the spread
+    this.socket.emit(command, ...([data] as Parameters<ClientToServerEvents[C]>));
   }
 
   startTimer(sessionId: string, scenarioId: string, duration: number): void {
@@ -169,9 +179,8 @@ export class SocketService {
   announceDecision(
     sessionId: string,
     scenarioId: string,
-    decision: 'ai_track' | 'non_ai_track' | 'tie',
-    pullCount: number,
-    dontPullCount: number,
+    decision: string,
+    trackVotes: Record<string, number>,
     totalVotes: number
   ): void {
     if (!this.socket) {
@@ -183,8 +192,7 @@ export class SocketService {
       sessionId,
       scenarioId,
       decision,
-      pullCount,
-      dontPullCount,
+      trackVotes,
       totalVotes,
     });
   }
@@ -212,6 +220,8 @@ export class SocketService {
       'scenario_started',
       'session_ended',
       'decision_announced',
+      'moderation_queue_updated',
+      'phase_changed',
     ];
 
     eventTypes.forEach(eventType => {
@@ -226,18 +236,19 @@ export class SocketService {
     this.socket.on('connect', () => {
       console.log('Socket connected');
       
-      // Rejoin room if we were in one
-      if (this.sessionId && this.participantId) {
-        this.joinRoom(this.sessionId, this.participantId);
-      }
+      // Join, or rejoin, the room we are in
+      this.sendJoin();
+
+      // Anything could have changed while we were away
+      this.syncState();
     });
 
     this.socket.on('disconnect', () => {
       console.log('Socket disconnected');
     });
 
-    this.socket.on('error', (error) => {
-      console.error('Socket error:', error);
+    this.socket.on('error', error => {
+      console.error(`Socket error: ${error.message}`, error.errors);
     });
   }
 }
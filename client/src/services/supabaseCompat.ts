@@ -1,5 +1,6 @@
 // Compatibility layer for migrating from Supabase to new API
 // This file provides the same interface as the old supabase.ts but uses the new services
+import type { ScenarioTrack } from './api';
 
 export const supabase = null; // No longer using Supabase client
 export const isDemo = !process.env.REACT_APP_API_URL; // Demo mode if no API URL
@@ -18,6 +19,8 @@ export type Database = {
             timerDuration: number;
             maxParticipants: number;
             moderationEnabled: boolean;
+            moderationQueue?: boolean;
+            moderationProfileId?: string;
             contentWarnings: boolean;
           };
           status: 'waiting' | 'active' | 'complete' | 'cancelled';
@@ -60,6 +63,7 @@ export type Database = {
           difficulty_level: 'beginner' | 'intermediate' | 'advanced';
           discussion_prompts: string[];
           mitigations?: string[];
+          tracks?: ScenarioTrack[] | null;
           is_active: boolean;
           created_at: string;
           updated_at: string;
@@ -73,7 +77,7 @@ export type Database = {
           session_id: string;
           participant_id: string;
           scenario_id: string;
-          vote: 'pull' | 'dont_pull';
+          vote: string;
           created_at: string;
           latency_ms: number | null;
         };
@@ -112,8 +116,7 @@ export type Database = {
           session_id: string;
           scenario_id: string;
           total_votes: number;
-          pull_votes: number;
-          dont_pull_votes: number;
+          track_votes: Record<string, number>;
           avg_latency_ms: number | null;
         };
       };
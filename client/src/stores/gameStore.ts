@@ -1,13 +1,10 @@
 import { create } from 'zustand';
-import { Database, isDemo } from '../services/supabaseCompat';
+import { isDemo } from '../services/supabaseCompat';
 import { RoomService } from '../services/rooms';
 import { MockRoomService } from '../services/mockData';
-import { realtimeService } from '../services/realtimeLegacy';
-
-type Session = Database['public']['Tables']['sessions']['Row'];
-type Participant = Database['public']['Tables']['participants']['Row'];
-type Scenario = Database['public']['Tables']['scenarios']['Row'];
-type Vote = Database['public']['Tables']['votes']['Row'];
+import { socketService } from '../services/socket';
+import type { GamePhase, PhaseState, SessionSnapshot, DeckMove, VoteShift, ConfidenceDistribution, LatencyDistribution, LatencyComparison } from '../services/api';
+import type { DeckEntry, Participant, Scenario, Session } from '../services/api';
 
 export interface GameState {
   // Session state
@@ -18,14 +15,32 @@ export interface GameState {
   
   // Voting state
   hasVoted: boolean;
-  myVote: 'pull' | 'dont_pull' | null;
+  myVote: string | null;
   myRationale: string;
   voteSummary: {
     total_votes: number;
-    pull_votes: number;
-    dont_pull_votes: number;
+    track_votes: Record<string, number>;
+    confidence?: ConfidenceDistribution;
+    latency?: Record<string, LatencyDistribution>;
+    latency_comparison?: LatencyComparison | null;
   } | null;
   
+  // Phase state, as decided by the server
+  phase: GamePhase;
+  phaseDeadline: string | null;
+  clockOffsetMs: number;
+  
+  // Voting round on the current scenario, and who switched sides after a re-vote.
+  // A replayed scenario carries on numbering from firstRound
+  round: number;
+  firstRound: number;
+  voteShift: VoteShift | null;
+  
+  // Ordered scenario deck for this session
+  deck: DeckEntry[];
+  deckPosition: number;
+  deckSize: number;
+  
   // Timer state
   timerActive: boolean;
   secondsRemaining: number;
@@ -36,26 +51,35 @@ export interface GameState {
   showResults: boolean;
   
   // Rationales data
-  rationales: {
-    pull: string[];
-    dont_pull: string[];
-  };
+  // Rationales keyed by track id
+  rationales: Record<string, string[]>;
 }
 
 export interface GameActions {
   // Room actions
-  createRoom: (config?: any) => Promise<void>;
+  createRoom: (config?: any, scenarioIds?: string[]) => Promise<void>;
   joinRoom: (roomCode: string) => Promise<void>;
+  // Take the facilitator's seat again after a reload or on another device
+  resumeRoom: (roomCode: string) => Promise<void>;
   leaveRoom: () => Promise<void>;
   
   // Voting actions
-  submitVote: (vote: 'pull' | 'dont_pull', rationale?: string, mitigation?: string) => Promise<void>;
+  submitVote: (vote: string, rationale?: string, mitigation?: string, confidence?: number) => Promise<void>;
   
   // Scenario actions
   startScenario: (scenarioId: string) => Promise<void>;
   
+  // Phase actions
+  applyPhase: (state: PhaseState) => Promise<void>;
+  applySnapshot: (snapshot: SessionSnapshot) => Promise<void>;
+  advancePhase: (phase: 'results' | 'waiting') => Promise<void>;
+  startRevote: () => Promise<void>;
+  
+  // Deck actions
+  loadDeck: () => Promise<void>;
+  moveDeck: (move: DeckMove) => Promise<void>;
+  
   // Timer actions
-  startTimer: (duration: number) => void;
   stopTimer: () => void;
   
   // State updates
@@ -75,27 +99,63 @@ const initialState: GameState = {
   myVote: null,
   myRationale: '',
   voteSummary: null,
+  phase: 'waiting',
+  phaseDeadline: null,
+  clockOffsetMs: 0,
+  round: 1,
+  firstRound: 1,
+  voteShift: null,
+  deck: [],
+  deckPosition: 0,
+  deckSize: 0,
   timerActive: false,
   secondsRemaining: 0,
   loading: false,
   error: null,
   showResults: false,
-  rationales: {
-    pull: [],
-    dont_pull: [],
-  },
+  rationales: {},
 };
 
+// Display-only countdown towards the server deadline; it never changes the phase
+let countdownTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Watch a room as its facilitator and keep the store in step with it
+ */
+async function watchAsFacilitator(sessionId: string, get: () => GameState & GameActions) {
+  await socketService.watchRoom(sessionId);
+  
+  socketService.on('participant_joined', (data) => {
+    console.log('Participant joined:', data);
+  });
+  
+  socketService.on('participant_left', (data) => {
+    console.log('Participant left:', data);
+  });
+  
+  socketService.on('vote_cast', (data) => {
+    get().updateVoteSummary(data);
+  });
+  
+  socketService.on('phase_changed', (data) => {
+    get().applyPhase(data);
+  });
+  
+  socketService.on('sync_state', (data) => {
+    get().applySnapshot(data);
+  });
+}
+
 export const useGameStore = create<GameState & GameActions>((set, get) => ({
   ...initialState,
 
-  createRoom: async (config = {}) => {
+  createRoom: async (config = {}, scenarioIds) => {
     set({ loading: true, error: null });
     
     try {
       const { room, error } = isDemo 
         ? await MockRoomService.createRoom(config)
-        : await RoomService.createRoom(config);
+        : await RoomService.createRoom(config, scenarioIds);
       
       if (error) throw error;
       
@@ -103,17 +163,7 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
       
       // Only set up realtime in non-demo mode
       if (!isDemo) {
-        // Join realtime channel
-        await realtimeService.joinRoom(room.id);
-        
-        // Set up event listeners
-        realtimeService.on('participant_joined', (data) => {
-          console.log('Participant joined:', data);
-        });
-        
-        realtimeService.on('participant_left', (data) => {
-          console.log('Participant left:', data);
-        });
+        await watchAsFacilitator(room.id, get);
       }
       
     } catch (error: any) {
@@ -121,6 +171,28 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     }
   },
 
+  resumeRoom: async (roomCode: string) => {
+    set({ loading: true, error: null });
+    
+    try {
+      const { data: room, error } = await RoomService.getRoomStatus(roomCode);
+      
+      if (error || !room) throw error ?? new Error('Room not found');
+      
+      set({ session: room, loading: false });
+      
+      await watchAsFacilitator(room.id, get);
+      
+      // Pick the room up in whatever phase and scenario it has reached
+      const { data: snapshot } = await RoomService.getSessionSnapshot(roomCode);
+      if (snapshot) {
+        await get().applySnapshot(snapshot);
+      }
+    } catch (error: any) {
+      set({ loading: false, error: error.message });
+    }
+  },
+
   joinRoom: async (roomCode: string) => {
     set({ loading: true, error: null });
     
@@ -151,54 +223,27 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
         });
         
         // Join realtime channel
-        await realtimeService.joinRoom(participant.session_id);
+        await socketService.joinRoom(participant.sessionId, participant.id);
         
         // Set up event listeners
-        realtimeService.on('vote_cast', (data) => {
+        socketService.on('vote_cast', (data) => {
           get().updateVoteSummary(data);
         });
         
-        realtimeService.on('scenario_started', async (data) => {
-          // Load the new scenario data
-          console.log('📢 scenario_started event received:', data);
-          try {
-            // Load scenario from database
-            console.log('🔍 Loading scenario from database...');
-            const { data: scenarios, error } = await RoomService.loadScenarios();
-            if (scenarios && scenarios.length > 0) {
-              const currentScenario = scenarios.find(s => s.id === data.scenario_id) || scenarios[0];
-              console.log('🎯 Setting current scenario:', currentScenario?.title);
-              set({ 
-                currentScenario,
-                hasVoted: false,
-                myVote: null,
-                myRationale: '',
-                voteSummary: null,
-                showResults: false,
-                timerActive: true,  // Set timer as active when scenario starts
-                secondsRemaining: 30  // Default to 30 seconds
-              });
-              console.log('✅ Scenario state updated for participants');
-            }
-          } catch (error) {
-            console.error('❌ Failed to load scenario:', error);
-          }
-        });
-        
-        realtimeService.on('timer_started', (data) => {
-          get().startTimer(data.duration);
+        socketService.on('phase_changed', (data) => {
+          get().applyPhase(data);
         });
         
-        realtimeService.on('timer_tick', (data) => {
-          set({ secondsRemaining: data.seconds_remaining });
+        // The socket re-syncs on every reconnect
+        socketService.on('sync_state', (data) => {
+          get().applySnapshot(data);
         });
         
-        realtimeService.on('decision_announced', (data) => {
-          set({ 
-            showResults: true,
-            timerActive: false,
-          });
-        });
+        // Late joiners pick up whatever state the room is already in
+        const { data: snapshot } = await RoomService.getSessionSnapshot(roomCode);
+        if (snapshot) {
+          await get().applySnapshot(snapshot);
+        }
       }
       
     } catch (error: any) {
@@ -207,11 +252,12 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
   },
 
   leaveRoom: async () => {
-    await realtimeService.leaveRoom();
+    await socketService.leaveRoom();
+    get().stopTimer();
     set(initialState);
   },
 
-  submitVote: async (vote: 'pull' | 'dont_pull', rationale = '', mitigation = '') => {
+  submitVote: async (vote: string, rationale = '', mitigation = '', confidence?: number) => {
     const { session, participant, currentScenario } = get();
     
     if (!session || !participant || !currentScenario) {
@@ -220,7 +266,7 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     }
     
     if (get().hasVoted) {
-      set({ error: 'You have already voted on this scenario' });
+      set({ error: 'You have already voted in this round' });
       return;
     }
     
@@ -229,7 +275,7 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     try {
       const { error } = isDemo 
         ? await MockRoomService.submitVote(session.id, participant.id, currentScenario.id, vote, rationale, mitigation)
-        : await RoomService.submitVote(session.id, participant.id, currentScenario.id, vote, rationale, mitigation);
+        : await RoomService.submitVote(session.id, participant.id, currentScenario.id, vote, rationale, mitigation, confidence);
       
       if (error) throw error;
       
@@ -251,63 +297,172 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
     if (!session) return;
     
     try {
-      // Load scenario data first
-      const { data: scenarios, error: loadError } = await RoomService.loadScenarios();
-      if (loadError) throw loadError;
-      
-      const scenario = scenarios?.find(s => s.id === scenarioId);
-      if (!scenario) throw new Error('Scenario not found');
+      const { data, error } = await RoomService.startScenario(session.id, scenarioId);
+      if (error) throw error;
       
-      // Only call RoomService in non-demo mode (demo scenarios are handled in components)
-      if (!isDemo) {
-        await RoomService.startScenario(session.id, scenarioId);
+      // The server answers with the new voting window
+      if (data?.phase) {
+        await get().applyPhase(data.phase);
       }
       
-      // Set the current scenario and reset voting state
+    } catch (error: any) {
+      set({ error: error.message });
+    }
+  },
+
+  applyPhase: async (state: PhaseState) => {
+    const clockOffsetMs = Date.parse(state.server_time) - Date.now();
+    
+    // A new scenario id means the facilitator moved on, so reset voting state.
+    // The snapshot carries the scenario even when it is private to the
+    // facilitator, which the library never shows participants.
+    const { session } = get();
+    if (state.scenario_id && session && state.scenario_id !== get().currentScenario?.id) {
+      const { data: snapshot } = await RoomService.getSessionSnapshot(session.roomCode);
+      const scenario = snapshot?.scenario?.id === state.scenario_id ? snapshot.scenario : null;
+      if (scenario) {
+        set({
+          currentScenario: scenario,
+          hasVoted: false,
+          myVote: null,
+          myRationale: '',
+          voteSummary: null,
+          voteShift: null,
+          rationales: {},
+        });
+      }
+    } else if (state.round > get().round) {
+      // Same scenario, new round: everyone votes again
       set({
-        currentScenario: scenario,
         hasVoted: false,
         myVote: null,
         myRationale: '',
         voteSummary: null,
-        showResults: false,
-        rationales: { pull: [], dont_pull: [] },
       });
-      
-    } catch (error: any) {
-      set({ error: error.message });
     }
+    
+    set({
+      phase: state.phase,
+      round: state.round,
+      firstRound: state.first_round,
+      phaseDeadline: state.deadline,
+      clockOffsetMs,
+      deckPosition: state.deck_position,
+      deckSize: state.deck_size,
+      timerActive: state.phase === 'voting',
+      showResults: state.phase === 'results',
+    });
+    
+    if (countdownTimer) {
+      clearInterval(countdownTimer);
+      countdownTimer = null;
+    }
+    
+    if (state.phase === 'results' && state.round > state.first_round && state.scenario_id && session) {
+      const { data } = await RoomService.getVoteShift(session.id, state.scenario_id);
+      set({ voteShift: data });
+    }
+    
+    if (state.phase !== 'voting' || !state.deadline) {
+      set({ secondsRemaining: 0 });
+      return;
+    }
+    
+    const deadline = Date.parse(state.deadline);
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((deadline - (Date.now() + get().clockOffsetMs)) / 1000));
+      set({ secondsRemaining: remaining });
+      if (remaining === 0 && countdownTimer) {
+        clearInterval(countdownTimer);
+        countdownTimer = null;
+      }
+    };
+    tick();
+    countdownTimer = setInterval(tick, 1000);
   },
 
-  startTimer: (duration: number) => {
-    set({ 
-      timerActive: true, 
-      secondsRemaining: duration 
+  applySnapshot: async (snapshot: SessionSnapshot) => {
+    // Set the scenario first so applyPhase doesn't refetch it
+    if (snapshot.scenario && snapshot.scenario.id !== get().currentScenario?.id) {
+      set({
+        currentScenario: snapshot.scenario,
+        rationales: {},
+      });
+    }
+    
+    await get().applyPhase(snapshot.phase);
+    
+    set({
+      voteSummary: snapshot.tallies,
+      hasVoted: !!snapshot.my_vote,
+      myVote: snapshot.my_vote?.vote ?? null,
+      myRationale: snapshot.my_vote?.rationale ?? '',
     });
+  },
+
+  advancePhase: async (phase: 'results' | 'waiting') => {
+    const { session } = get();
     
-    const timer = setInterval(() => {
-      const { secondsRemaining, timerActive } = get();
-      
-      if (!timerActive) {
-        clearInterval(timer);
-        return;
-      }
-      
-      if (secondsRemaining <= 1) {
-        clearInterval(timer);
-        set({ 
-          timerActive: false, 
-          secondsRemaining: 0,
-          showResults: true 
-        });
-        return;
-      }
-      
-      set({ secondsRemaining: secondsRemaining - 1 });
-    }, 1000);
+    if (!session) return;
+    
+    const { data, error } = await RoomService.advancePhase(session.id, phase);
+    if (error) {
+      set({ error: error.message });
+      return;
+    }
+    if (data) {
+      await get().applyPhase(data);
+    }
+  },
+
+  startRevote: async () => {
+    const { session, currentScenario } = get();
+    
+    if (!session || !currentScenario) return;
+    
+    const { data, error } = await RoomService.startRevote(session.id, currentScenario.id);
+    if (error) {
+      set({ error: error.message });
+      return;
+    }
+    if (data?.phase) {
+      await get().applyPhase(data.phase);
+    }
+  },
+
+  loadDeck: async () => {
+    const { session } = get();
+    
+    if (!session) return;
+    
+    const { data, error } = await RoomService.getDeck(session.id);
+    if (error) {
+      set({ error: error.message });
+      return;
+    }
+    set({ deck: data || [], deckSize: data?.length || 0 });
+  },
+
+  moveDeck: async (move: DeckMove) => {
+    const { session } = get();
+    
+    if (!session) return;
+    
+    const { data, error } = await RoomService.moveDeck(session.id, move);
+    if (error) {
+      set({ error: error.message });
+      return;
+    }
+    if (data) {
+      await get().applyPhase(data);
+    }
   },
 
   stopTimer: () => {
+    if (countdownTimer) {
+      clearInterval(countdownTimer);
+      countdownTimer = null;
+    }
     set({ timerActive: false });
   },
 
@@ -3,7 +3,7 @@ import { Filter } from 'bad-words';
 // Initialize profanity filter
 const filter = new Filter();
 
-// Common stop words to remove from word clouds
+// Common stop words; the server starts its word cloud stop words from the same list
 const stopWords = new Set([
   'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
   'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
@@ -16,12 +16,13 @@ const stopWords = new Set([
   'how', 'which', 'there', 'here', 'their', 'them', 'him', 'her'
 ]);
 
-// PII patterns to detect
+// PII patterns to detect. The server's moderation pipeline uses the same
+// patterns and re-checks every submission; this copy gives instant feedback.
 const piiPatterns = [
-  /\b\d{3}-?\d{2}-?\d{4}\b/g, // SSN
-  /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, // Email
-  /\b(?:\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}\b/g, // Phone
   /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g, // Credit card
+  /\b\d{3}-?\d{2}-?\d{4}\b/g, // SSN
+  /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, // Email
+  /(?:\+?1[-.\s]?)?(?:\(\d{3}\)|\b\d{3})[-.\s]?\d{3}[-.\s]?\d{4}\b/g, // Phone
 ];
 
 export interface ProcessedRationale {
@@ -45,12 +46,11 @@ export function moderateText(text: string): ProcessedRationale {
   }
 
   // Check for PII
-  for (const pattern of piiPatterns) {
-    if (pattern.test(sanitized)) {
-      sanitized = sanitized.replace(pattern, '[REDACTED]');
-      moderationReasons.push('pii_removed');
-      moderated = true;
-    }
+  const redacted = piiPatterns.reduce((text, pattern) => text.replace(pattern, '[REDACTED]'), sanitized);
+  if (redacted !== sanitized) {
+    sanitized = redacted;
+    moderationReasons.push('pii_removed');
+    moderated = true;
   }
 
   // Extract meaningful words for word cloud
@@ -80,75 +80,6 @@ export function extractWords(text: string): string[] {
     .filter(word => word.length >= 3); // Filter again after cleanup
 }
 
-export interface WordFrequency {
-  text: string;
-  count: number;
-}
-
-export function calculateWordFrequencies(rationales: string[]): WordFrequency[] {
-  const wordCounts = new Map<string, number>();
-
-  rationales.forEach(rationale => {
-    const words = extractWords(rationale);
-    words.forEach(word => {
-      wordCounts.set(word, (wordCounts.get(word) || 0) + 1);
-    });
-  });
-
-  return Array.from(wordCounts.entries())
-    .map(([text, count]) => ({ text, count }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 20); // Top 20 words max
-}
-
-// Stem words to group similar forms together
-export function stemWord(word: string): string {
-  // Simple stemming - remove common suffixes
-  const suffixes = [
-    'ing', 'ly', 'ed', 'ies', 'ied', 'ies', 's', 'es', 'er', 'est',
-    'tion', 'sion', 'ness', 'ment', 'able', 'ible', 'ful', 'less'
-  ];
-  
-  let stemmed = word.toLowerCase();
-  
-  for (const suffix of suffixes) {
-    if (stemmed.endsWith(suffix) && stemmed.length > suffix.length + 2) {
-      stemmed = stemmed.slice(0, -suffix.length);
-      break;
-    }
-  }
-  
-  return stemmed;
-}
-
-export function calculateStemmedWordFrequencies(rationales: string[]): WordFrequency[] {
-  const stemCounts = new Map<string, { count: number; original: string }>();
-
-  rationales.forEach(rationale => {
-    const words = extractWords(rationale);
-    words.forEach(word => {
-      const stem = stemWord(word);
-      const current = stemCounts.get(stem);
-      
-      if (current) {
-        stemCounts.set(stem, {
-          count: current.count + 1,
-          // Keep the shortest original word as the display text
-          original: word.length < current.original.length ? word : current.original
-        });
-      } else {
-        stemCounts.set(stem, { count: 1, original: word });
-      }
-    });
-  });
-
-  return Array.from(stemCounts.entries())
-    .map(([stem, { count, original }]) => ({ text: original, count }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 20); // Top 20 words max
-}
-
-// Rate limiting for content submission
 export class RateLimiter {
   private attempts: Map<string, { count: number; resetTime: number }> = new Map();
   private readonly maxAttempts: number;
@@ -0,0 +1,46 @@
+import type { ScenarioTrack } from '../services/api';
+
+interface TrackSource {
+  tracks?: ScenarioTrack[] | null;
+  aiOption?: string;
+  nonAiOption?: string;
+}
+
+/**
+ * The options participants vote between. Scenarios without explicit
+ * tracks offer the classic pull / don't pull pair.
+ */
+export function getScenarioTracks(scenario?: TrackSource | null): ScenarioTrack[] {
+  if (scenario?.tracks && scenario.tracks.length > 0) {
+    return scenario.tracks;
+  }
+  return [
+    { id: 'pull', label: 'Pull the lever', description: scenario?.aiOption },
+    { id: 'dont_pull', label: "Don't pull", description: scenario?.nonAiOption },
+  ];
+}
+
+// The classic pair keeps its trolley animation and With/Without AI wording
+export function isClassicTracks(tracks: ScenarioTrack[]): boolean {
+  return tracks.length === 2 && tracks[0].id === 'pull' && tracks[1].id === 'dont_pull';
+}
+
+export function getTrackLabel(tracks: ScenarioTrack[], trackId: string | null | undefined): string {
+  return tracks.find(track => track.id === trackId)?.label ?? trackId ?? '';
+}
+
+/**
+ * The track with the most votes, or null when nobody voted or the lead is shared
+ */
+export function getWinningTrack(tracks: ScenarioTrack[], counts: Record<string, number>): ScenarioTrack | null {
+  const top = Math.max(0, ...tracks.map(track => counts[track.id] || 0));
+  const leaders = tracks.filter(track => (counts[track.id] || 0) === top);
+  return top > 0 && leaders.length === 1 ? leaders[0] : null;
+}
+
+// CSS modifier for a track; the classic pair keeps its existing class names
+export function getTrackClass(track: ScenarioTrack, index: number): string {
+  if (track.id === 'pull') return 'pull';
+  if (track.id === 'dont_pull') return 'dont-pull';
+  return `track-${index + 1}`;
+}
@@ -0,0 +1,66 @@
+import { Router, Response } from 'express';
+import { RealtimeService } from '../services/realtimeService';
+import { getConnectionStatus, healthCheck } from '../db/connection';
+import { resilientDatabase } from '../utils/resilience';
+import { readinessProblems } from '../utils/health';
+import type { HealthReport } from '../../../shared/contracts';
+
+// Readiness probes run through their own circuit so a failing database drains the node
+const PROBE_CIRCUIT = 'health';
+
+export function createHealthRoutes(realtimeService: RealtimeService) {
+  const router = Router();
+
+  // Build a report from what is already known, without touching the database
+  const report = (reachable: boolean): HealthReport<Date> => {
+    const { connectionAttempts, poolStats } = getConnectionStatus();
+    return {
+      status: 'ok',
+      problems: [],
+      timestamp: new Date(),
+      uptimeSeconds: Math.round(process.uptime()),
+      database: { reachable, connectionAttempts, pool: poolStats },
+      circuits: resilientDatabase.getStates(),
+      sockets: realtimeService.getConnectedSockets(),
+      activeSessions: realtimeService.getActiveSessionCount(),
+    };
+  };
+
+  // Liveness: the process is up and serving; dependencies are reported, never fatal
+  router.get('/live', (_req, res: Response<HealthReport<Date>>) => {
+    res.json(report(getConnectionStatus().isConnected));
+  });
+
+  // Readiness: fails while the database is unreachable or one of its circuits is open
+  router.get('/ready', async (_req, res: Response<HealthReport<Date>>) => {
+    let reachable = false;
+    try {
+      await resilientDatabase.query(
+        PROBE_CIRCUIT,
+        async () => {
+          const status = await healthCheck();
+          if (!status.connected) {
+            throw new Error('Database connection test failed');
+          }
+          return status;
+        },
+        {
+          retry: { maxRetries: 1 },
+          circuitBreaker: { timeout: 3000, resetTimeout: 10000 },
+        }
+      );
+      reachable = true;
+    } catch (error) {
+      console.error('Readiness probe failed:', error);
+    }
+
+    const health = report(reachable);
+    health.problems = readinessProblems(health);
+    if (health.problems.length > 0) {
+      health.status = 'unavailable';
+    }
+    res.status(health.status === 'ok' ? 200 : 503).json(health);
+  });
+
+  return router;
+}
@@ -1,47 +1,371 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { RoomService } from '../services/roomService';
 import { RealtimeService } from '../services/realtimeService';
+import {
+  requireFacilitator,
+  requireAnyFacilitator,
+  requireSignedInFacilitator,
+  requireAccount,
+  optionalFacilitator,
+  requireSessionAccess,
+  requireParticipant,
+  getAuth,
+  getOrganizationId,
+  getAccountId,
+  getLibraryOwner,
+  getParticipantId,
+} from '../middleware/facilitatorAuth';
+import { GamePhaseService, PhaseTransitionError } from '../services/gamePhaseService';
+import { ScenarioService, ScenarioValidationError, ScenarioNotFoundError } from '../services/scenarioService';
+import type { ScenarioInput } from '../services/scenarioService';
+import { DeckService, MAX_DECK_SIZE } from '../services/deckService';
+import { ExportService, EXPORT_CONTENT_TYPES } from '../services/exportService';
+import { ReportService, ReportNotReadyError } from '../services/reportService';
+import { WordCloudService } from '../services/wordCloudService';
+import { ThemeService } from '../services/themeService';
+import { AnalyticsService } from '../services/analyticsService';
+import { EventLogService, ReplayNotFoundError } from '../services/eventLogService';
+import { ModerationQueueService, ModerationItemNotFoundError } from '../services/moderationQueueService';
+import {
+  ModerationProfileService,
+  ModerationProfileValidationError,
+  ModerationProfileNotFoundError,
+} from '../services/moderationProfileService';
+import {
+  OrganizationService,
+  OrganizationSignInError,
+  OrganizationNotFoundError,
+  SLUG_PATTERN,
+} from '../services/organizationService';
+import {
+  AccountService,
+  AccountExistsError,
+  AccountSignInError,
+  AccountSessionNotFoundError,
+  MIN_PASSWORD_LENGTH,
+} from '../services/accountService';
 import { z } from 'zod';
+import type {
+  AccountResponse,
+  AccountSessionsResponse,
+  AccountSignInResponse,
+  AdvancePhaseRequest,
+  AnalyticsOverview,
+  ApiError,
+  CreateRoomRequest,
+  CreateRoomResponse,
+  CurrentOrganizationResponse,
+  DeckEntry,
+  JoinRoomRequest,
+  JoinRoomResponse,
+  LoginAccountRequest,
+  ModerationProfilesResponse,
+  ModerationQueueResponse,
+  OrganizationSignInRequest,
+  OrganizationSignInResponse,
+  PhaseState,
+  RegisterAccountRequest,
+  ResumeSessionResponse,
+  ReviewResponse,
+  RoomStatus,
+  Scenario,
+  ScenarioThemes,
+  SessionReplay,
+  SessionSnapshot,
+  StartScenarioResponse,
+  SubmitVoteRequest,
+  SubmitVoteResponse,
+  TrackWordCloud,
+  VoteShift,
+  VoteSummary,
+  WordCloudComparison,
+} from '../../../shared/contracts';
 
 const router = Router();
 
+// Responses follow the shared contracts, or carry an error
+type Reply<T> = Response<T | ApiError>;
+
 // Validation schemas
 const createRoomSchema = z.object({
   config: z.object({
     timerDuration: z.number().min(10).max(300).optional(),
     maxParticipants: z.number().min(1).max(500).optional(),
     moderationEnabled: z.boolean().optional(),
+    // Hold rationales and mitigations until the facilitator reviews them
+    moderationQueue: z.boolean().optional(),
+    // Custom word lists and redaction rules for this room
+    moderationProfileId: z.string().uuid().optional(),
     contentWarnings: z.boolean().optional(),
   }).optional(),
+  scenarioIds: z.array(z.string().uuid()).max(MAX_DECK_SIZE).optional(),
+}) satisfies z.ZodType<CreateRoomRequest>;
+
+const setDeckSchema = z.object({
+  scenarioIds: z.array(z.string().uuid()).min(1).max(MAX_DECK_SIZE),
 });
 
+const deckMoveSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('next') }),
+  z.object({ type: z.literal('previous') }),
+  z.object({ type: z.literal('jump'), position: z.number().int().min(0) }),
+]);
+
+const organizationSignInSchema = z.object({
+  slug: z.string().trim().toLowerCase().regex(SLUG_PATTERN).max(63),
+  accessKey: z.string().min(1).max(200),
+}) satisfies z.ZodType<OrganizationSignInRequest>;
+
+const accountEmailSchema = z.string().trim().toLowerCase().email().max(255);
+
+const registerAccountSchema = z.object({
+  email: accountEmailSchema,
+  password: z.string().min(MIN_PASSWORD_LENGTH).max(200),
+  name: z.string().trim().min(1).max(100).optional(),
+}) satisfies z.ZodType<RegisterAccountRequest>;
+
+const loginAccountSchema = z.object({
+  email: accountEmailSchema,
+  password: z.string().min(1).max(200),
+}) satisfies z.ZodType<LoginAccountRequest>;
+
 const joinRoomSchema = z.object({
   roomCode: z.string().length(6),
   fingerprint: z.string().min(1),
   userAgent: z.string().optional(),
-});
+}) satisfies z.ZodType<JoinRoomRequest>;
+
+const advancePhaseSchema = z.object({
+  phase: z.enum(['results', 'waiting']),
+}) satisfies z.ZodType<AdvancePhaseRequest>;
 
 const submitVoteSchema = z.object({
   sessionId: z.string().uuid(),
-  participantId: z.string().uuid(),
   scenarioId: z.string().uuid(),
-  vote: z.enum(['pull', 'dont_pull']),
+  // A track id from the scenario; the service checks it belongs to the scenario
+  vote: z.string().regex(/^[a-z][a-z0-9_]{0,49}$/),
+  confidence: z.number().int().min(1).max(5).optional(),
   rationale: z.string().optional(),
   mitigation: z.string().optional(),
+}) satisfies z.ZodType<SubmitVoteRequest>;
+
+const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'json', 'md', 'pdf']).default('json'),
 });
 
+const scenarioBodySchema = z.record(z.unknown());
+
+const moderationKindSchema = z.enum(['rationale', 'mitigation']);
+
+const reviewDecisionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('approve') }),
+  z.object({ action: z.literal('redact'), text: z.string().trim().min(1).max(80) }),
+  z.object({ action: z.literal('hide') }),
+]);
+
+const termListSchema = z.array(z.string().trim().min(1).max(100)).max(500);
+
+const moderationRulesSchema = z.object({
+  allowList: termListSchema.default([]),
+  denyList: termListSchema.default([]),
+  redactionRules: z.array(z.object({
+    label: z.string().trim().min(1).max(60),
+    pattern: z.string().min(1),
+    replacement: z.string().max(40).optional(),
+  })).max(50).default([]),
+});
+
+const moderationProfileSchema = moderationRulesSchema.extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+const moderationPreviewSchema = z.object({
+  text: z.string().min(1).max(1000),
+  profileId: z.string().uuid().optional(),
+  // Unsaved lists and rules from the profile editor
+  profile: moderationRulesSchema.optional(),
+});
+
+const wordCloudQuerySchema = z.object({
+  // Comma separated, on top of the default stop words
+  stopWords: z.string().max(1000).optional()
+    .transform(value => (value ? value.split(',').map(word => word.trim()).filter(Boolean) : [])),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+const wordCloudCompareQuerySchema = wordCloudQuerySchema.extend({
+  // Two track ids, comma separated; defaults to the scenario's first two
+  tracks: z.string().regex(/^[a-z][a-z0-9_]{0,49},[a-z][a-z0-9_]{0,49}$/).optional()
+    .transform(value => value?.split(',') as [string, string] | undefined),
+  limit: z.coerce.number().int().min(1).max(100).default(40),
+});
+
+const voteSummaryQuerySchema = z.object({
+  round: z.coerce.number().int().min(1).optional(),
+});
+
+// Scenario writes report schema failures field by field
+function sendScenarioError(res: Response, error: Error) {
+  if (error instanceof ScenarioValidationError) {
+    return res.status(400).json({ error: error.message, fields: error.fields });
+  }
+  if (error instanceof ScenarioNotFoundError) {
+    return res.status(404).json({ error: error.message });
+  }
+  return res.status(400).json({ error: error.message });
+}
+
+// Profile writes report bad redaction patterns field by field
+function sendModerationProfileError(res: Response, error: Error) {
+  if (error instanceof ModerationProfileValidationError) {
+    return res.status(400).json({ error: error.message, fields: error.fields });
+  }
+  if (error instanceof ModerationProfileNotFoundError) {
+    return res.status(404).json({ error: error.message });
+  }
+  return res.status(400).json({ error: error.message });
+}
+
 export function createApiRoutes(realtimeService: RealtimeService) {
-  // Create room
-  router.post('/rooms/create', async (req, res) => {
+  // Open an organization's workspace; later rooms and library changes stay inside it
+  router.post('/organizations/sign-in', async (req, res: Reply<OrganizationSignInResponse>) => {
     try {
-      const { config } = createRoomSchema.parse(req.body);
-      const result = await RoomService.createRoom(config);
+      const { slug, accessKey } = organizationSignInSchema.parse(req.body);
+      const result = await OrganizationService.signIn(slug, accessKey);
       
       if (result.error) {
+        if (result.error instanceof OrganizationSignInError) {
+          return res.status(401).json({ error: result.error.message });
+        }
         return res.status(400).json({ error: result.error.message });
       }
       
-      res.json({ room: result.room });
+      return res.json({ organization: result.data.organization, facilitatorToken: result.data.token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // The organization the facilitator is working in, if any
+  router.get('/organizations/current', requireAnyFacilitator, async (_req, res: Reply<CurrentOrganizationResponse>) => {
+    try {
+      const organizationId = getOrganizationId(res);
+      const organization = organizationId ? await OrganizationService.getOrganization(organizationId) : null;
+      return res.json({ organization });
+    } catch (error) {
+      if (error instanceof OrganizationNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Create a facilitator account, inside the organization whose workspace is open
+  router.post('/accounts/register', optionalFacilitator, async (req, res: Reply<AccountSignInResponse>) => {
+    try {
+      const { email, password, name } = registerAccountSchema.parse(req.body);
+      const result = await AccountService.register(email, password, name ?? null, getOrganizationId(res));
+      
+      if (result.error) {
+        if (result.error instanceof AccountExistsError) {
+          return res.status(409).json({ error: result.error.message });
+        }
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      return res.status(201).json({ account: result.data.account, accountToken: result.data.token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Sign in to a facilitator account
+  router.post('/accounts/login', async (req, res: Reply<AccountSignInResponse>) => {
+    try {
+      const { email, password } = loginAccountSchema.parse(req.body);
+      const result = await AccountService.login(email, password);
+      
+      if (result.error) {
+        if (result.error instanceof AccountSignInError) {
+          return res.status(401).json({ error: result.error.message });
+        }
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      return res.json({ account: result.data.account, accountToken: result.data.token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // The signed-in facilitator account
+  router.get('/accounts/me', requireAccount, async (_req, res: Reply<AccountResponse>) => {
+    try {
+      const account = await AccountService.getAccount(getAccountId(res)!);
+      
+      if (!account) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+      
+      return res.json({ account });
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Rooms opened from the signed-in account, newest first
+  router.get('/accounts/me/sessions', requireAccount, async (_req, res: Reply<AccountSessionsResponse<Date>>) => {
+    try {
+      const result = await AccountService.listSessions(getAccountId(res)!);
+      
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      return res.json({ sessions: result.data });
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Take back control of one of the account's open rooms, e.g. from another device
+  router.post('/accounts/me/sessions/:sessionId/resume', requireAccount, async (req, res: Reply<ResumeSessionResponse<Date>>) => {
+    try {
+      const result = await AccountService.resumeSession(getAccountId(res)!, req.params.sessionId);
+      
+      if (result.error) {
+        if (result.error instanceof AccountSessionNotFoundError) {
+          return res.status(404).json({ error: result.error.message });
+        }
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      return res.json({ room: result.data.session, facilitatorToken: result.data.facilitatorToken });
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Create room, inside the facilitator's organization when signed in to one
+  router.post('/rooms/create', optionalFacilitator, async (req, res: Reply<CreateRoomResponse<Date>>) => {
+    try {
+      const { config, scenarioIds } = createRoomSchema.parse(req.body);
+      const result = await RoomService.createRoom(config, scenarioIds, getOrganizationId(res), getAccountId(res));
+      
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      res.json({ room: result.room, facilitatorToken: result.facilitatorToken });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: error.errors });
@@ -51,7 +375,7 @@ export function createApiRoutes(realtimeService: RealtimeService) {
   });
 
   // Join room
-  router.post('/rooms/join', async (req, res) => {
+  router.post('/rooms/join', async (req, res: Reply<JoinRoomResponse<Date>>) => {
     try {
       const { roomCode, fingerprint, userAgent } = joinRoomSchema.parse(req.body);
       const result = await RoomService.joinRoom(roomCode, fingerprint, userAgent);
@@ -63,6 +387,7 @@ export function createApiRoutes(realtimeService: RealtimeService) {
       res.json({ 
         participant: result.participant,
         session: result.session,
+        participantToken: result.participantToken,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -73,7 +398,7 @@ export function createApiRoutes(realtimeService: RealtimeService) {
   });
 
   // Get room status
-  router.get('/rooms/:roomCode/status', async (req, res) => {
+  router.get('/rooms/:roomCode/status', async (req, res: Reply<RoomStatus<Date>>) => {
     try {
       const { roomCode } = req.params;
       const result = await RoomService.getRoomStatus(roomCode);
@@ -88,33 +413,185 @@ export function createApiRoutes(realtimeService: RealtimeService) {
     }
   });
 
+  // Full session snapshot for (re)connecting clients
+  router.get('/rooms/:roomCode/snapshot', requireSessionAccess, async (req, res: Reply<SessionSnapshot<Date>>) => {
+    try {
+      const { roomCode } = req.params;
+      const participantId = getParticipantId(res) ?? undefined;
+      const result = await RoomService.getSessionSnapshotByRoomCode(roomCode, participantId);
+      
+      if (result.error) {
+        return res.status(404).json({ error: result.error.message });
+      }
+      
+      return res.json(result.data);
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Start scenario
-  router.post('/sessions/:sessionId/scenarios/:scenarioId/start', async (req, res) => {
+  router.post('/sessions/:sessionId/scenarios/:scenarioId/start', requireFacilitator, async (req, res: Reply<StartScenarioResponse<Date>>) => {
     try {
       const { sessionId, scenarioId } = req.params;
       const result = await RoomService.startScenario(sessionId, scenarioId);
       
       if (result.error) {
-        return res.status(400).json({ error: result.error.message });
+        const status = result.error instanceof PhaseTransitionError ? 409 : 400;
+        return res.status(status).json({ error: result.error.message });
       }
+
+      realtimeService.broadcastPhaseChanged(result.data.phase);
       
-      res.json(result.data);
+      res.json({
+        sessionScenario: result.data.sessionScenario,
+        phase: GamePhaseService.toPayload(result.data.phase),
+      });
     } catch (error) {
       res.status(500).json({ error: 'Internal server error' });
     }
   });
 
-  // Submit vote
-  router.post('/votes', async (req, res) => {
+  // Reopen voting on the scenario whose results are showing
+  router.post('/sessions/:sessionId/scenarios/:scenarioId/revote', requireFacilitator, async (req, res: Reply<StartScenarioResponse<Date>>) => {
+    try {
+      const { sessionId, scenarioId } = req.params;
+      const result = await RoomService.startRevote(sessionId, scenarioId);
+
+      if (result.error) {
+        const status = result.error instanceof PhaseTransitionError ? 409 : 400;
+        return res.status(status).json({ error: result.error.message });
+      }
+
+      realtimeService.broadcastPhaseChanged(result.data.phase);
+
+      return res.json({
+        sessionScenario: result.data.sessionScenario,
+        phase: GamePhaseService.toPayload(result.data.phase),
+      });
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Get current game phase
+  router.get('/sessions/:sessionId/phase', requireSessionAccess, async (req, res: Reply<PhaseState>) => {
+    try {
+      const { sessionId } = req.params;
+      const result = await RoomService.getPhase(sessionId);
+      
+      if (result.error) {
+        return res.status(404).json({ error: result.error.message });
+      }
+      
+      return res.json(GamePhaseService.toPayload(result.data));
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Close voting early or return to the lobby between scenarios
+  router.post('/sessions/:sessionId/phase', requireFacilitator, async (req, res: Reply<PhaseState>) => {
+    try {
+      const { sessionId } = req.params;
+      const { phase } = advancePhaseSchema.parse(req.body);
+      const result = await RoomService.advancePhase(sessionId, phase);
+      
+      if (result.error) {
+        const status = result.error instanceof PhaseTransitionError ? 409 : 400;
+        return res.status(status).json({ error: result.error.message });
+      }
+
+      realtimeService.broadcastPhaseChanged(result.data);
+      
+      return res.json(GamePhaseService.toPayload(result.data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Get the session's ordered scenario deck
+  router.get('/sessions/:sessionId/deck', requireSessionAccess, async (req, res: Reply<DeckEntry<Date>[]>) => {
+    try {
+      const { sessionId } = req.params;
+      const result = await DeckService.getDeck(sessionId);
+      
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      return res.json(result.data);
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Replace the deck before the first scenario is played
+  router.put('/sessions/:sessionId/deck', requireFacilitator, async (req, res: Reply<DeckEntry<Date>[]>) => {
+    try {
+      const { sessionId } = req.params;
+      const { scenarioIds } = setDeckSchema.parse(req.body);
+      const result = await DeckService.setDeck(sessionId, scenarioIds);
+      
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      const phase = await GamePhaseService.getState(sessionId);
+      realtimeService.broadcastPhaseChanged(phase);
+      
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Move to the next, previous or a specific deck entry
+  router.post('/sessions/:sessionId/deck/move', requireFacilitator, async (req, res: Reply<PhaseState>) => {
+    try {
+      const { sessionId } = req.params;
+      const move = deckMoveSchema.parse(req.body);
+      const result = await DeckService.move(sessionId, move);
+      
+      if (result.error) {
+        const status = result.error instanceof PhaseTransitionError ? 409 : 400;
+        return res.status(status).json({ error: result.error.message });
+      }
+
+      realtimeService.broadcastPhaseChanged(result.data);
+      
+      return res.json(GamePhaseService.toPayload(result.data));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Submit vote as the participant the token was issued to
+  router.post('/votes', requireParticipant, async (req, res: Reply<SubmitVoteResponse<Date>>) => {
     try {
       const data = submitVoteSchema.parse(req.body);
+      const auth = getAuth(res);
+      if (auth.sessionId !== data.sessionId) {
+        return res.status(403).json({ error: 'Participants can only vote in the session they joined' });
+      }
+
       const result = await RoomService.submitVote(
         data.sessionId,
-        data.participantId,
+        auth.participantId,
         data.scenarioId,
         data.vote,
         data.rationale,
-        data.mitigation
+        data.mitigation,
+        data.confidence
       );
       
       if (result.error) {
@@ -130,20 +607,32 @@ export function createApiRoutes(realtimeService: RealtimeService) {
           session_id: data.sessionId,
           scenario_id: data.scenarioId,
           vote: data.vote,
+          round: summary.data.round,
           total_votes: summary.data.totalVotes,
-          pull_votes: summary.data.pullVotes,
-          dont_pull_votes: summary.data.dontPullVotes,
+          track_votes: summary.data.trackVotes,
+          confidence: summary.data.confidence,
+          latency: summary.data.latency,
+          latency_comparison: summary.data.latencyComparison,
         });
       }
 
-      // Broadcast rationale if provided
-      if (data.rationale) {
+      // Held text only reaches the room once the facilitator approves it
+      const held = !!(data.rationale?.trim() || data.mitigation?.trim())
+        && await ModerationQueueService.isQueueEnabled(data.sessionId);
+
+      if (held) {
+        realtimeService.broadcastModerationQueueUpdated(data.sessionId, {
+          session_id: data.sessionId,
+          pending_count: await ModerationQueueService.getPendingCount(data.sessionId),
+        });
+      } else if (result.data.rationale) {
+        // Broadcast the moderated rationale if one was provided
         realtimeService.broadcastRationaleAdded(data.sessionId, {
           session_id: data.sessionId,
           scenario_id: data.scenarioId,
           vote: data.vote,
-          rationale: data.rationale,
-          participant_id: data.participantId,
+          rationale: result.data.rationale,
+          participant_id: auth.participantId,
         });
       }
       
@@ -157,10 +646,11 @@ export function createApiRoutes(realtimeService: RealtimeService) {
   });
 
   // Get vote summary
-  router.get('/sessions/:sessionId/scenarios/:scenarioId/votes', async (req, res) => {
+  router.get('/sessions/:sessionId/scenarios/:scenarioId/votes', requireSessionAccess, async (req, res: Reply<VoteSummary>) => {
     try {
       const { sessionId, scenarioId } = req.params;
-      const result = await RoomService.getVoteSummary(sessionId, scenarioId);
+      const { round } = voteSummaryQuerySchema.parse(req.query);
+      const result = await RoomService.getVoteSummary(sessionId, scenarioId, round);
       
       if (result.error) {
         return res.status(400).json({ error: result.error.message });
@@ -168,12 +658,87 @@ export function createApiRoutes(realtimeService: RealtimeService) {
       
       res.json(result.data);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   });
 
+  // Get how participants switched sides between voting rounds
+  router.get('/sessions/:sessionId/scenarios/:scenarioId/shift', requireSessionAccess, async (req, res: Reply<VoteShift | null>) => {
+    try {
+      const { sessionId, scenarioId } = req.params;
+      const result = await RoomService.getVoteShift(sessionId, scenarioId);
+
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Get word and phrase frequencies per track, so every view shows the same cloud
+  router.get('/sessions/:sessionId/scenarios/:scenarioId/wordcloud', requireSessionAccess, async (req, res: Reply<Record<string, TrackWordCloud>>) => {
+    try {
+      const { sessionId, scenarioId } = req.params;
+      const { stopWords, limit } = wordCloudQuerySchema.parse(req.query);
+      const result = await WordCloudService.getWordCloud(sessionId, scenarioId, { stopWords, limit });
+
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Compare two tracks' words, with the rationales behind each term
+  router.get('/sessions/:sessionId/scenarios/:scenarioId/wordcloud/compare', requireSessionAccess, async (req, res: Reply<WordCloudComparison>) => {
+    try {
+      const { sessionId, scenarioId } = req.params;
+      const { tracks, stopWords, limit } = wordCloudCompareQuerySchema.parse(req.query);
+      const result = await WordCloudService.compareTracks(sessionId, scenarioId, tracks, { stopWords, limit });
+
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Group rationales and mitigations into labelled themes
+  router.get('/sessions/:sessionId/scenarios/:scenarioId/themes', requireSessionAccess, async (req, res: Reply<ScenarioThemes>) => {
+    try {
+      const { sessionId, scenarioId } = req.params;
+      const result = await ThemeService.getThemes(sessionId, scenarioId);
+
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Get rationales
-  router.get('/sessions/:sessionId/scenarios/:scenarioId/rationales', async (req, res) => {
+  router.get('/sessions/:sessionId/scenarios/:scenarioId/rationales', requireSessionAccess, async (req, res: Reply<Record<string, string[]>>) => {
     try {
       const { sessionId, scenarioId } = req.params;
       const result = await RoomService.getRationales(sessionId, scenarioId);
@@ -189,7 +754,7 @@ export function createApiRoutes(realtimeService: RealtimeService) {
   });
 
   // Get mitigations
-  router.get('/sessions/:sessionId/scenarios/:scenarioId/mitigations', async (req, res) => {
+  router.get('/sessions/:sessionId/scenarios/:scenarioId/mitigations', requireSessionAccess, async (req, res: Reply<string[]>) => {
     try {
       const { sessionId, scenarioId } = req.params;
       const result = await RoomService.getMitigations(sessionId, scenarioId);
@@ -204,15 +769,111 @@ export function createApiRoutes(realtimeService: RealtimeService) {
     }
   });
 
+  // Rationales and mitigations waiting for the facilitator's review
+  router.get('/sessions/:sessionId/moderation', requireFacilitator, async (req, res: Reply<ModerationQueueResponse<Date>>) => {
+    try {
+      const { sessionId } = req.params;
+      const result = await ModerationQueueService.getQueue(sessionId);
+
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+
+      return res.json({ items: result.data });
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Approve, redact or hide one held rationale or mitigation
+  router.post('/sessions/:sessionId/moderation/:kind/:itemId', requireFacilitator, async (req, res: Reply<ReviewResponse<Date>>) => {
+    try {
+      const { sessionId, itemId } = req.params;
+      const kind = moderationKindSchema.parse(req.params.kind);
+      const decision = reviewDecisionSchema.parse(req.body);
+      const result = await ModerationQueueService.review(sessionId, kind, itemId, decision);
+
+      if (result.error) {
+        const status = result.error instanceof ModerationItemNotFoundError ? 404 : 400;
+        return res.status(status).json({ error: result.error.message });
+      }
+
+      const item = result.data;
+      if (item.kind === 'rationale' && item.status === 'approved') {
+        realtimeService.broadcastRationaleAdded(sessionId, {
+          session_id: sessionId,
+          scenario_id: item.scenarioId,
+          vote: item.vote,
+          rationale: item.text,
+          participant_id: item.participantId,
+        });
+      }
+
+      realtimeService.broadcastModerationQueueUpdated(sessionId, {
+        session_id: sessionId,
+        pending_count: await ModerationQueueService.getPendingCount(sessionId),
+      });
+
+      return res.json({ item });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Download a session's results with tallies, rationales and mitigations
+  router.get('/sessions/:sessionId/export', requireFacilitator, async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const { format } = exportQuerySchema.parse(req.query);
+
+      // The PDF is a printable report rather than a raw data dump
+      if (format === 'pdf') {
+        const report = await ReportService.buildReport(sessionId);
+        if (report.error) {
+          const status = report.error instanceof ReportNotReadyError ? 409 : 404;
+          return res.status(status).json({ error: report.error.message });
+        }
+
+        const pdf = await ReportService.renderPdf(report.data);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="trolley-game-report-${report.data.roomCode}.pdf"`);
+        return res.send(pdf);
+      }
+
+      const result = await ExportService.buildSessionExport(sessionId);
+      
+      if (result.error) {
+        return res.status(404).json({ error: result.error.message });
+      }
+
+      const filename = `trolley-game-session-${result.data.session.roomCode}.${format}`;
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      
+      return res.send(ExportService.render(result.data, format));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // End session
-  router.post('/sessions/:sessionId/end', async (req, res) => {
+  router.post('/sessions/:sessionId/end', requireFacilitator, async (req, res) => {
     try {
       const { sessionId } = req.params;
       const result = await RoomService.endSession(sessionId);
       
       if (result.error) {
-        return res.status(400).json({ error: result.error.message });
+        const status = result.error instanceof PhaseTransitionError ? 409 : 400;
+        return res.status(status).json({ error: result.error.message });
       }
+
+      realtimeService.broadcastPhaseChanged(await GamePhaseService.getState(sessionId));
       
       res.json(result.data);
     } catch (error) {
@@ -220,11 +881,11 @@ export function createApiRoutes(realtimeService: RealtimeService) {
     }
   });
 
-  // Load scenarios
-  router.get('/scenarios', async (req, res) => {
+  // Load scenarios: the shared library plus the facilitator's organization's or account's own
+  router.get('/scenarios', optionalFacilitator, async (req, res: Reply<Scenario<Date>[]>) => {
     try {
       const difficulty = req.query.difficulty as 'beginner' | 'intermediate' | 'advanced' | undefined;
-      const result = await RoomService.loadScenarios(difficulty);
+      const result = await RoomService.loadScenarios(difficulty, getLibraryOwner(res));
       
       if (result.error) {
         return res.status(400).json({ error: result.error.message });
@@ -236,5 +897,215 @@ export function createApiRoutes(realtimeService: RealtimeService) {
     }
   });
 
+  // Create scenario
+  router.post('/scenarios', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const body = scenarioBodySchema.parse(req.body);
+      const result = await ScenarioService.createScenario(body as unknown as ScenarioInput, getLibraryOwner(res));
+      
+      if (result.error) {
+        return sendScenarioError(res, result.error);
+      }
+      
+      return res.status(201).json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Update scenario; the merged result is validated as a whole
+  router.patch('/scenarios/:scenarioId', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const { scenarioId } = req.params;
+      const body = scenarioBodySchema.parse(req.body);
+      const result = await ScenarioService.updateScenario(scenarioId, body as Partial<ScenarioInput>, getLibraryOwner(res));
+      
+      if (result.error) {
+        return sendScenarioError(res, result.error);
+      }
+      
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Archive scenario
+  router.post('/scenarios/:scenarioId/archive', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const { scenarioId } = req.params;
+      const result = await ScenarioService.archiveScenario(scenarioId, getLibraryOwner(res));
+      
+      if (result.error) {
+        return sendScenarioError(res, result.error);
+      }
+      
+      return res.json(result.data);
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Clone scenario, optionally overriding fields in the copy
+  router.post('/scenarios/:scenarioId/clone', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const { scenarioId } = req.params;
+      const overrides = scenarioBodySchema.parse(req.body ?? {});
+      const result = await ScenarioService.cloneScenario(scenarioId, overrides as Partial<ScenarioInput>, getLibraryOwner(res));
+      
+      if (result.error) {
+        return sendScenarioError(res, result.error);
+      }
+      
+      return res.status(201).json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Step through a session from its event log, e.g. to coach a new facilitator
+  router.get('/sessions/:sessionId/replay', requireAnyFacilitator, async (req, res: Reply<SessionReplay<Date>>) => {
+    try {
+      const result = await EventLogService.getReplay(req.params.sessionId, getAuth(res));
+      
+      if (result.error) {
+        if (result.error instanceof ReplayNotFoundError) {
+          return res.status(404).json({ error: result.error.message });
+        }
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      return res.json(result.data);
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Results for every scenario across the organization's sessions
+  router.get('/analytics/scenarios', requireAnyFacilitator, async (_req, res: Reply<AnalyticsOverview>) => {
+    try {
+      const result = await AnalyticsService.getScenarioAnalytics(getLibraryOwner(res));
+      
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      return res.json(result.data);
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // List moderation profiles by name, for choosing one in room config
+  router.get('/moderation-profiles', optionalFacilitator, async (_req, res: Reply<ModerationProfilesResponse>) => {
+    try {
+      const result = await ModerationProfileService.listProfiles(getLibraryOwner(res));
+      
+      if (result.error) {
+        return res.status(400).json({ error: result.error.message });
+      }
+      
+      return res.json({ profiles: result.data });
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Get one of the facilitator's own moderation profiles with its lists and rules
+  router.get('/moderation-profiles/:profileId', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const profile = await ModerationProfileService.getOwnedProfile(req.params.profileId, getLibraryOwner(res));
+      return res.json(profile);
+    } catch (error) {
+      if (error instanceof ModerationProfileNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Create moderation profile
+  router.post('/moderation-profiles', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const body = moderationProfileSchema.parse(req.body);
+      const result = await ModerationProfileService.createProfile(body, getLibraryOwner(res));
+      
+      if (result.error) {
+        return sendModerationProfileError(res, result.error);
+      }
+      
+      return res.status(201).json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Replace a moderation profile's name, lists and rules
+  router.put('/moderation-profiles/:profileId', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const { profileId } = req.params;
+      const body = moderationProfileSchema.parse(req.body);
+      const result = await ModerationProfileService.updateProfile(profileId, body, getLibraryOwner(res));
+      
+      if (result.error) {
+        return sendModerationProfileError(res, result.error);
+      }
+      
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete moderation profile
+  router.delete('/moderation-profiles/:profileId', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const { profileId } = req.params;
+      const result = await ModerationProfileService.deleteProfile(profileId, getLibraryOwner(res));
+      
+      if (result.error) {
+        return sendModerationProfileError(res, result.error);
+      }
+      
+      return res.json({ success: true });
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Show what moderation would do to some text, without storing it
+  router.post('/moderation/preview', requireSignedInFacilitator, async (req, res) => {
+    try {
+      const { text, profileId, profile } = moderationPreviewSchema.parse(req.body);
+      const result = await ModerationProfileService.preview(text, { profileId, rules: profile }, getLibraryOwner(res));
+      
+      if (result.error) {
+        return sendModerationProfileError(res, result.error);
+      }
+      
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   return router;
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+// Usage: npm run org:create -- "<name>" <slug>
+async function main() {
+  const [name, slug] = process.argv.slice(2);
+  if (!name || !slug) {
+    console.error('Usage: npm run org:create -- "<name>" <slug>');
+    process.exit(1);
+  }
+
+  // Imported after dotenv so the database connection sees DATABASE_URL
+  const { OrganizationService } = await import('../services/organizationService');
+  const result = await OrganizationService.createOrganization(name, slug);
+  if (result.error) {
+    console.error('Failed to create organization:', result.error.message);
+    process.exit(1);
+  }
+
+  console.log(`Created ${result.data.organization.name} (${result.data.organization.slug})`);
+  console.log(`Access key: ${result.data.accessKey}`);
+  console.log('Share the key with the organization\'s facilitators; it cannot be shown again.');
+}
+
+main();
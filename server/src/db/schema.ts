@@ -1,24 +1,58 @@
-import { pgTable, uuid, varchar, timestamp, jsonb, boolean, text, integer, index, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, timestamp, jsonb, boolean, text, integer, serial, index, uniqueIndex, pgEnum } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import type { DeckEntry, RoomConfig, ScenarioMetrics, ScenarioTrack } from '../../../shared/contracts';
+
+export type { ScenarioTrack };
 
 // Enums
 export const sessionStatusEnum = pgEnum('session_status', ['waiting', 'active', 'complete', 'cancelled']);
 export const difficultyLevelEnum = pgEnum('difficulty_level', ['beginner', 'intermediate', 'advanced']);
-export const voteTypeEnum = pgEnum('vote_type', ['pull', 'dont_pull']);
+export const gamePhaseEnum = pgEnum('game_phase', ['waiting', 'voting', 'results', 'completed']);
+
+// Organizations table: one workspace per client, isolating its sessions and library
+export const organizations = pgTable('organizations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  slug: varchar('slug', { length: 63 }).unique().notNull(),
+  // bcrypt hash of the key facilitators use to open the workspace
+  accessKeyHash: varchar('access_key_hash', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Facilitator accounts table: optional sign-in so rooms can be listed and resumed later
+export const facilitators = pgTable('facilitators', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  // Stored lowercase
+  email: varchar('email', { length: 255 }).unique().notNull(),
+  passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+  name: varchar('name', { length: 100 }),
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  lastLoginAt: timestamp('last_login_at'),
+});
 
 // Sessions table
 export const sessions = pgTable('sessions', {
   id: uuid('id').defaultRandom().primaryKey(),
   roomCode: varchar('room_code', { length: 6 }).unique().notNull(),
+  // The facilitator account that opened the room, or a one-off id for anonymous facilitators
   facilitatorId: uuid('facilitator_id'),
+  // Null for sessions run outside any organization
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   endedAt: timestamp('ended_at'),
-  config: jsonb('config').default({}).notNull(),
+  config: jsonb('config').$type<RoomConfig>().default({}).notNull(),
   status: sessionStatusEnum('status').default('waiting').notNull(),
-  metadata: jsonb('metadata').default({}).notNull(),
+  phase: gamePhaseEnum('phase').default('waiting').notNull(),
+  phaseDeadline: timestamp('phase_deadline'),
+  deckPosition: integer('deck_position').default(0).notNull(),
+  metadata: jsonb('metadata').$type<Record<string, unknown>>().default({}).notNull(),
 }, (table) => ({
   roomCodeIdx: index('idx_sessions_room_code').on(table.roomCode),
   statusIdx: index('idx_sessions_status').on(table.status),
+  organizationIdx: index('idx_sessions_organization_id').on(table.organizationId),
+  facilitatorIdx: index('idx_sessions_facilitator_id').on(table.facilitatorId),
 }));
 
 // Participants table
@@ -31,7 +65,7 @@ export const participants = pgTable('participants', {
   userAgent: text('user_agent'),
   ipHash: varchar('ip_hash', { length: 255 }),
   isActive: boolean('is_active').default(true).notNull(),
-  metadata: jsonb('metadata').default({}).notNull(),
+  metadata: jsonb('metadata').$type<Record<string, unknown>>().default({}).notNull(),
 }, (table) => ({
   sessionIdIdx: index('idx_participants_session_id').on(table.sessionId),
   fingerprintIdx: index('idx_participants_fingerprint').on(table.fingerprint),
@@ -47,26 +81,41 @@ export const scenarios = pgTable('scenarios', {
   assumptions: text('assumptions').array().default([]).notNull(),
   ethicalAxes: text('ethical_axes').array().default([]).notNull(),
   riskNotes: text('risk_notes'),
-  metrics: jsonb('metrics').default({}).notNull(),
+  metrics: jsonb('metrics').$type<ScenarioMetrics>().default({}).notNull(),
   contentWarnings: text('content_warnings').array().default([]).notNull(),
   difficultyLevel: difficultyLevelEnum('difficulty_level').default('intermediate').notNull(),
   discussionPrompts: text('discussion_prompts').array().default([]).notNull(),
   mitigations: text('mitigations').array().default([]),
+  tracks: jsonb('tracks').$type<ScenarioTrack[]>(),
   isActive: boolean('is_active').default(true).notNull(),
+  // Private to this organization; null for the shared library
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+  // Private to this account when it works outside any organization
+  facilitatorId: uuid('facilitator_id').references(() => facilitators.id, { onDelete: 'cascade' }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  organizationIdx: index('idx_scenarios_organization_id').on(table.organizationId),
+  facilitatorIdx: index('idx_scenarios_facilitator_id').on(table.facilitatorId),
+}));
 
 // Session Scenarios table (junction table)
 export const sessionScenarios = pgTable('session_scenarios', {
   id: uuid('id').defaultRandom().primaryKey(),
   sessionId: uuid('session_id').references(() => sessions.id, { onDelete: 'cascade' }).notNull(),
   scenarioId: uuid('scenario_id').references(() => scenarios.id, { onDelete: 'cascade' }).notNull(),
-  status: varchar('status', { length: 20 }).default('pending').notNull(),
+  status: varchar('status', { length: 20 }).$type<DeckEntry['status']>().default('pending').notNull(),
   startedAt: timestamp('started_at'),
   endedAt: timestamp('ended_at'),
   orderIndex: integer('order_index'),
-});
+  // Voting round currently open or last closed; re-votes after discussion bump it
+  round: integer('round').default(1).notNull(),
+  // Round the current play opened with. Replays carry on past earlier rounds so
+  // their votes are kept, but only rounds from here on count towards re-votes
+  firstRound: integer('first_round').default(1).notNull(),
+}, (table) => ({
+  sessionOrderIdx: index('idx_session_scenarios_session_order').on(table.sessionId, table.orderIndex),
+}));
 
 // Votes table
 export const votes = pgTable('votes', {
@@ -74,12 +123,17 @@ export const votes = pgTable('votes', {
   sessionId: uuid('session_id').references(() => sessions.id, { onDelete: 'cascade' }).notNull(),
   participantId: uuid('participant_id').references(() => participants.id, { onDelete: 'cascade' }).notNull(),
   scenarioId: uuid('scenario_id').references(() => scenarios.id, { onDelete: 'cascade' }).notNull(),
-  vote: voteTypeEnum('vote').notNull(),
+  // Id of the scenario track the participant chose
+  vote: varchar('vote', { length: 50 }).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   latencyMs: integer('latency_ms'),
+  round: integer('round').default(1).notNull(),
+  // How sure the participant was, 1 (torn) to 5 (certain)
+  confidence: integer('confidence'),
 }, (table) => ({
   sessionIdIdx: index('idx_votes_session_id').on(table.sessionId),
   scenarioIdIdx: index('idx_votes_scenario_id').on(table.scenarioId),
+  participantRoundIdx: uniqueIndex('idx_votes_participant_round').on(table.sessionId, table.scenarioId, table.participantId, table.round),
 }));
 
 // Rationales table
@@ -91,9 +145,13 @@ export const rationales = pgTable('rationales', {
   wordCount: integer('word_count'),
   moderated: boolean('moderated').default(false).notNull(),
   moderationReason: varchar('moderation_reason', { length: 255 }),
+  // 'pending' while held for facilitator review, then 'approved' or 'hidden'
+  reviewStatus: varchar('review_status', { length: 20 }).default('approved').notNull(),
+  reviewedAt: timestamp('reviewed_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   voteIdIdx: index('idx_rationales_vote_id').on(table.voteId),
+  reviewStatusIdx: index('idx_rationales_review_status').on(table.reviewStatus),
 }));
 
 // Mitigations table
@@ -105,16 +163,79 @@ export const mitigations = pgTable('mitigations', {
   wordCount: integer('word_count'),
   moderated: boolean('moderated').default(false).notNull(),
   moderationReason: varchar('moderation_reason', { length: 255 }),
+  // 'pending' while held for facilitator review, then 'approved' or 'hidden'
+  reviewStatus: varchar('review_status', { length: 20 }).default('approved').notNull(),
+  reviewedAt: timestamp('reviewed_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   voteIdIdx: index('idx_mitigations_vote_id').on(table.voteId),
+  reviewStatusIdx: index('idx_mitigations_review_status').on(table.reviewStatus),
+}));
+
+// Session events table: what the room was sent, as described in schemas/events.schema.json, kept for replays
+export const sessionEvents = pgTable('session_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  sessionId: uuid('session_id').references(() => sessions.id, { onDelete: 'cascade' }).notNull(),
+  // Insert order across all sessions; replays step through events in this order
+  sequence: serial('sequence').notNull(),
+  type: varchar('type', { length: 50 }).notNull(),
+  payload: jsonb('payload').$type<Record<string, unknown>>().notNull(),
+  occurredAt: timestamp('occurred_at').defaultNow().notNull(),
+}, (table) => ({
+  sessionSequenceIdx: index('idx_session_events_session_sequence').on(table.sessionId, table.sequence),
 }));
 
+/**
+ * An extra redaction rule in a moderation profile. Matches of the pattern
+ * (case-insensitive) are replaced, by default with [REDACTED].
+ */
+export interface RedactionRule {
+  label: string;
+  pattern: string;
+  replacement?: string;
+}
+
+// Moderation profiles table: word lists and PII rules chosen per room
+export const moderationProfiles = pgTable('moderation_profiles', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: varchar('name', { length: 100 }).notNull(),
+  // Words and phrases never masked by the profanity filter or blocklist
+  allowList: text('allow_list').array().default([]).notNull(),
+  // Words and phrases always masked
+  denyList: text('deny_list').array().default([]).notNull(),
+  redactionRules: jsonb('redaction_rules').$type<RedactionRule[]>().default([]).notNull(),
+  // Private to this organization; null for profiles every facilitator can use
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+  // Private to this account when it works outside any organization
+  facilitatorId: uuid('facilitator_id').references(() => facilitators.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Relations
-export const sessionsRelations = relations(sessions, ({ many }) => ({
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  facilitators: many(facilitators),
+  sessions: many(sessions),
+  scenarios: many(scenarios),
+  moderationProfiles: many(moderationProfiles),
+}));
+
+export const facilitatorsRelations = relations(facilitators, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [facilitators.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [sessions.organizationId],
+    references: [organizations.id],
+  }),
   participants: many(participants),
   sessionScenarios: many(sessionScenarios),
   votes: many(votes),
+  events: many(sessionEvents),
 }));
 
 export const participantsRelations = relations(participants, ({ one, many }) => ({
@@ -125,7 +246,11 @@ export const participantsRelations = relations(participants, ({ one, many }) =>
   votes: many(votes),
 }));
 
-export const scenariosRelations = relations(scenarios, ({ many }) => ({
+export const scenariosRelations = relations(scenarios, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [scenarios.organizationId],
+    references: [organizations.id],
+  }),
   sessionScenarios: many(sessionScenarios),
   votes: many(votes),
 }));
@@ -172,7 +297,25 @@ export const mitigationsRelations = relations(mitigations, ({ one }) => ({
   }),
 }));
 
+export const sessionEventsRelations = relations(sessionEvents, ({ one }) => ({
+  session: one(sessions, {
+    fields: [sessionEvents.sessionId],
+    references: [sessions.id],
+  }),
+}));
+
+export const moderationProfilesRelations = relations(moderationProfiles, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [moderationProfiles.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
 // Type exports
+export type Organization = typeof organizations.$inferSelect;
+export type NewOrganization = typeof organizations.$inferInsert;
+export type Facilitator = typeof facilitators.$inferSelect;
+export type NewFacilitator = typeof facilitators.$inferInsert;
 export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
 export type Participant = typeof participants.$inferSelect;
@@ -184,4 +327,8 @@ export type NewVote = typeof votes.$inferInsert;
 export type Rationale = typeof rationales.$inferSelect;
 export type NewRationale = typeof rationales.$inferInsert;
 export type Mitigation = typeof mitigations.$inferSelect;
-export type NewMitigation = typeof mitigations.$inferInsert;
\ No newline at end of file
+export type NewMitigation = typeof mitigations.$inferInsert;
+export type ModerationProfile = typeof moderationProfiles.$inferSelect;
+export type NewModerationProfile = typeof moderationProfiles.$inferInsert;
+export type SessionEvent = typeof sessionEvents.$inferSelect;
+export type NewSessionEvent = typeof sessionEvents.$inferInsert;
\ No newline at end of file
@@ -5,6 +5,7 @@ import { createServer } from 'http';
 import * as dotenv from 'dotenv';
 import { RealtimeService } from './services/realtimeService';
 import { createApiRoutes } from './api/routes';
+import { createHealthRoutes } from './api/health';
 import rateLimit from 'express-rate-limit';
 
 // Load environment variables
@@ -47,6 +48,9 @@ app.get('/health', (req, res) => {
   res.json({ status: 'healthy', timestamp: new Date().toISOString() });
 });
 
+// Liveness and readiness probes with dependency status
+app.use('/health', createHealthRoutes(realtimeService));
+
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error('Error:', err);
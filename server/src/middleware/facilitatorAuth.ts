@@ -0,0 +1,222 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService, TokenPayload } from '../services/authService';
+import { RoomService } from '../services/roomService';
+import { libraryOwner } from '../services/organizationService';
+import { canReadSession } from '../utils/sessionAccess';
+import type { LibraryOwner } from '../services/organizationService';
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+/**
+ * Verify the request's bearer token, answering 401 when it is missing or
+ * invalid. Each guard below starts here and stops on null.
+ */
+function authenticate(req: Request, res: Response): TokenPayload | null {
+  const token = getBearerToken(req);
+  if (!token) {
+    res.status(401).json({ error: 'Authentication required' });
+    return null;
+  }
+
+  try {
+    return AuthService.verifyToken(token);
+  } catch (error) {
+    res.status(401).json({ error: (error as Error).message });
+    return null;
+  }
+}
+
+/**
+ * The verified token of a request one of the guards below let through
+ */
+export function getAuth(res: Response): TokenPayload {
+  return res.locals.auth as TokenPayload;
+}
+
+/**
+ * The organization of the authenticated facilitator, or null outside any
+ */
+export function getOrganizationId(res: Response): string | null {
+  return (res.locals.auth as TokenPayload | undefined)?.organizationId ?? null;
+}
+
+/**
+ * The signed-in facilitator account, or null for anonymous facilitators
+ */
+export function getAccountId(res: Response): string | null {
+  return (res.locals.auth as TokenPayload | undefined)?.accountId ?? null;
+}
+
+/**
+ * Whose library the authenticated facilitator reads and changes
+ */
+export function getLibraryOwner(res: Response): LibraryOwner {
+  return libraryOwner(getOrganizationId(res), getAccountId(res));
+}
+
+/**
+ * The participant the caller joined as, or null for anyone else
+ */
+export function getParticipantId(res: Response): string | null {
+  const auth = res.locals.auth as TokenPayload | undefined;
+  return auth?.role === 'participant' ? auth.participantId : null;
+}
+
+/**
+ * Only allow facilitators signed in to an account, from an account token
+ * or a session token issued to one
+ */
+export function requireAccount(req: Request, res: Response, next: NextFunction) {
+  const payload = authenticate(req, res);
+  if (!payload) {
+    return;
+  }
+
+  if (payload.role !== 'facilitator' || !payload.accountId) {
+    return res.status(401).json({ error: 'Sign in to a facilitator account first' });
+  }
+
+  res.locals.auth = payload;
+  return next();
+}
+
+/**
+ * Only allow participants, from the token issued when they joined a room
+ */
+export function requireParticipant(req: Request, res: Response, next: NextFunction) {
+  const payload = authenticate(req, res);
+  if (!payload) {
+    return;
+  }
+
+  if (payload.role !== 'participant') {
+    return res.status(403).json({ error: 'Only participants can perform this action' });
+  }
+
+  res.locals.auth = payload;
+  return next();
+}
+
+/**
+ * Pick up a facilitator token when one is sent, so public routes can scope
+ * what they return to the facilitator's organization. Without a token the
+ * caller is outside any organization; an expired token is refused rather
+ * than quietly dropping the caller out of their organization.
+ */
+export function optionalFacilitator(req: Request, res: Response, next: NextFunction) {
+  if (!getBearerToken(req)) {
+    return next();
+  }
+
+  const payload = authenticate(req, res);
+  if (!payload) {
+    return;
+  }
+
+  if (payload.role === 'facilitator') {
+    res.locals.auth = payload;
+  }
+  return next();
+}
+
+/**
+ * Allow any facilitator, e.g. for managing the shared scenario library
+ */
+export function requireAnyFacilitator(req: Request, res: Response, next: NextFunction) {
+  const payload = authenticate(req, res);
+  if (!payload) {
+    return;
+  }
+
+  if (payload.role !== 'facilitator') {
+    return res.status(403).json({ error: 'Only facilitators can perform this action' });
+  }
+
+  res.locals.auth = payload;
+  return next();
+}
+
+/**
+ * Only allow facilitators backed by an account or an organization's
+ * workspace, e.g. for writing to the scenario library. Anyone can open an
+ * anonymous room, so its token vouches for nobody.
+ */
+export function requireSignedInFacilitator(req: Request, res: Response, next: NextFunction) {
+  const payload = authenticate(req, res);
+  if (!payload) {
+    return;
+  }
+
+  if (payload.role !== 'facilitator') {
+    return res.status(403).json({ error: 'Only facilitators can perform this action' });
+  }
+  if (!payload.accountId && !payload.organizationId) {
+    return res.status(403).json({ error: 'Sign in to a facilitator account or organization first' });
+  }
+
+  res.locals.auth = payload;
+  return next();
+}
+
+/**
+ * Only allow readers of the session in :sessionId or :roomCode: its
+ * participants and facilitator, and facilitators of its organization
+ */
+export async function requireSessionAccess(req: Request, res: Response, next: NextFunction) {
+  const payload = authenticate(req, res);
+  if (!payload) {
+    return;
+  }
+
+  const { sessionId, roomCode } = req.params;
+  try {
+    const session = await RoomService.getSessionOwnership(sessionId ? { sessionId } : { roomCode });
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!canReadSession(payload, session)) {
+      return res.status(403).json({ error: 'Only the session\'s participants and facilitators can read it' });
+    }
+  } catch (error) {
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  res.locals.auth = payload;
+  return next();
+}
+
+/**
+ * Only allow the facilitator who owns :sessionId to continue
+ */
+export async function requireFacilitator(req: Request, res: Response, next: NextFunction) {
+  const payload = authenticate(req, res);
+  if (!payload) {
+    return;
+  }
+
+  const { sessionId } = req.params;
+  if (!AuthService.isFacilitatorToken(payload, sessionId)) {
+    return res.status(403).json({ error: 'Only the session facilitator can perform this action' });
+  }
+
+  try {
+    const isOwner = await RoomService.isSessionFacilitator(sessionId, payload.participantId);
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the session facilitator can perform this action' });
+    }
+  } catch (error) {
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  res.locals.auth = payload;
+  return next();
+}
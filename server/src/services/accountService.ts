@@ -0,0 +1,196 @@
+import { db } from '../db';
+import { facilitators, sessions, participants } from '../db/schema';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { AuthService } from './authService';
+import type { Facilitator } from '../db/schema';
+import type { FacilitatorAccount, AccountSession as AccountSessionPayload } from '../../../shared/contracts';
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+// Most recent rooms listed for an account
+const MAX_LISTED_SESSIONS = 100;
+
+// What clients see of an account; never the password hash
+export type AccountSummary = FacilitatorAccount;
+
+export type AccountSession = AccountSessionPayload<Date>;
+
+export class AccountExistsError extends Error {
+  constructor() {
+    super('An account with this email already exists');
+    this.name = 'AccountExistsError';
+  }
+}
+
+export class AccountSignInError extends Error {
+  constructor() {
+    super('Incorrect email or password');
+    this.name = 'AccountSignInError';
+  }
+}
+
+export class AccountSessionNotFoundError extends Error {
+  constructor() {
+    super('Session not found');
+    this.name = 'AccountSessionNotFoundError';
+  }
+}
+
+// Waiting and active rooms can be taken over; ended ones only listed
+const RESUMABLE_STATUSES: Array<'waiting' | 'active'> = ['waiting', 'active'];
+
+function isResumable(status: string): boolean {
+  return (RESUMABLE_STATUSES as string[]).includes(status);
+}
+
+// Compared against when the email is unknown, so both failures take as long
+let unknownAccountHash: Promise<string> | null = null;
+
+export class AccountService {
+  static toSummary(account: Facilitator): AccountSummary {
+    return {
+      id: account.id,
+      email: account.email,
+      name: account.name,
+      organizationId: account.organizationId,
+    };
+  }
+
+  static async getAccount(accountId: string): Promise<AccountSummary | null> {
+    const [row] = await db
+      .select()
+      .from(facilitators)
+      .where(eq(facilitators.id, accountId));
+
+    return row ? this.toSummary(row) : null;
+  }
+
+  /**
+   * Create an account, inside the organization whose workspace the
+   * facilitator is signed in to, if any
+   */
+  static async register(email: string, password: string, name: string | null, organizationId: string | null = null) {
+    try {
+      const [existing] = await db
+        .select({ id: facilitators.id })
+        .from(facilitators)
+        .where(eq(facilitators.email, email));
+
+      if (existing) {
+        throw new AccountExistsError();
+      }
+
+      const [row] = await db
+        .insert(facilitators)
+        .values({
+          email,
+          passwordHash: await AuthService.hashSecret(password),
+          name,
+          organizationId,
+          lastLoginAt: new Date(),
+        })
+        .returning();
+
+      const token = AuthService.generateAccountToken(row.id, row.organizationId);
+      return { data: { account: this.toSummary(row), token }, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Unknown emails and wrong passwords fail the same way
+   */
+  static async login(email: string, password: string) {
+    try {
+      const [row] = await db
+        .select()
+        .from(facilitators)
+        .where(eq(facilitators.email, email));
+
+      if (!row) {
+        unknownAccountHash ??= AuthService.hashSecret('unknown-account');
+        await AuthService.verifySecret(password, await unknownAccountHash);
+        throw new AccountSignInError();
+      }
+      if (!(await AuthService.verifySecret(password, row.passwordHash))) {
+        throw new AccountSignInError();
+      }
+
+      await db
+        .update(facilitators)
+        .set({ lastLoginAt: new Date() })
+        .where(eq(facilitators.id, row.id));
+
+      const token = AuthService.generateAccountToken(row.id, row.organizationId);
+      return { data: { account: this.toSummary(row), token }, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * The account's rooms, newest first
+   */
+  static async listSessions(accountId: string) {
+    try {
+      const rows = await db
+        .select({
+          id: sessions.id,
+          roomCode: sessions.roomCode,
+          status: sessions.status,
+          phase: sessions.phase,
+          createdAt: sessions.createdAt,
+          endedAt: sessions.endedAt,
+          participantCount: sql<number>`count(${participants.id})`,
+        })
+        .from(sessions)
+        .leftJoin(participants, eq(participants.sessionId, sessions.id))
+        .where(eq(sessions.facilitatorId, accountId))
+        .groupBy(sessions.id)
+        .orderBy(desc(sessions.createdAt))
+        .limit(MAX_LISTED_SESSIONS);
+
+      const data: AccountSession[] = rows.map(row => ({
+        ...row,
+        participantCount: Number(row.participantCount),
+        resumable: isResumable(row.status),
+      }));
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: [] as AccountSession[], error: error as Error };
+    }
+  }
+
+  /**
+   * Hand the account a fresh facilitator token for one of its open rooms,
+   * e.g. to carry on from another device
+   */
+  static async resumeSession(accountId: string, sessionId: string) {
+    try {
+      const [session] = await db
+        .select()
+        .from(sessions)
+        .where(
+          and(
+            eq(sessions.id, sessionId),
+            eq(sessions.facilitatorId, accountId),
+            inArray(sessions.status, RESUMABLE_STATUSES)
+          )
+        );
+
+      if (!session) {
+        throw new AccountSessionNotFoundError();
+      }
+
+      const facilitatorToken = AuthService.generateFacilitatorToken(session.id, accountId, session.roomCode, {
+        organizationId: session.organizationId,
+        accountId,
+      });
+      return { data: { session, facilitatorToken }, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { db } from '../db';
+import { scenarios, sessions, sessionScenarios, votes } from '../db/schema';
+import { eq, and, isNotNull, sql } from 'drizzle-orm';
+import { ScenarioService } from './scenarioService';
+import { visibleTo, ownedBy } from './organizationService';
+import type { LibraryOwner } from './organizationService';
+import { median, voteDivision, groupDivision } from '../utils/voteStats';
+import type { ScenarioAnalytics, AnalyticsOverview } from '../../../shared/contracts';
+
+export type { ScenarioAnalytics, AnalyticsOverview };
+
+// Votes cast in the first round of the scenario's latest play in their session
+const openingRound = and(
+  eq(sessionScenarios.sessionId, votes.sessionId),
+  eq(sessionScenarios.scenarioId, votes.scenarioId),
+  eq(sessionScenarios.firstRound, votes.round)
+);
+
+export class AnalyticsService {
+  /**
+   * Every scenario's results across the owner's sessions, and which ethical
+   * axes and difficulty levels divide groups the most. Accounts outside any
+   * organization see the rooms they opened; anonymous callers see none.
+   */
+  static async getScenarioAnalytics(owner: LibraryOwner) {
+    try {
+      const [scenarioRows, playRows, voteRows, latencyRows] = await Promise.all([
+        db.select().from(scenarios).where(visibleTo(scenarios, owner)),
+        db
+          .select({
+            scenarioId: sessionScenarios.scenarioId,
+            plays: sql<number>`count(distinct ${sessionScenarios.sessionId})`,
+          })
+          .from(sessionScenarios)
+          .innerJoin(sessions, eq(sessions.id, sessionScenarios.sessionId))
+          .where(and(isNotNull(sessionScenarios.startedAt), ownedBy(sessions, owner)))
+          .groupBy(sessionScenarios.scenarioId),
+        db
+          .select({
+            scenarioId: votes.scenarioId,
+            vote: votes.vote,
+            count: sql<number>`count(*)`,
+          })
+          .from(votes)
+          .innerJoin(sessions, eq(sessions.id, votes.sessionId))
+          .innerJoin(sessionScenarios, openingRound)
+          .where(ownedBy(sessions, owner))
+          .groupBy(votes.scenarioId, votes.vote),
+        this.getLatencies(owner),
+      ]);
+
+      const plays = new Map(playRows.map(row => [row.scenarioId, Number(row.plays)]));
+
+      const data: ScenarioAnalytics[] = scenarioRows.map(row => {
+        const tracks = ScenarioService.getTracks(row);
+        const trackVotes = Object.fromEntries(tracks.map(track => [track.id, 0]));
+        voteRows
+          .filter(vote => vote.scenarioId === row.id)
+          .forEach(vote => {
+            trackVotes[vote.vote] = (trackVotes[vote.vote] ?? 0) + Number(vote.count);
+          });
+        const counts = Object.values(trackVotes);
+
+        return {
+          scenarioId: row.id,
+          title: row.title,
+          difficultyLevel: row.difficultyLevel,
+          ethicalAxes: row.ethicalAxes,
+          isActive: row.isActive,
+          tracks,
+          plays: plays.get(row.id) ?? 0,
+          totalVotes: counts.reduce((sum, count) => sum + count, 0),
+          trackVotes,
+          division: voteDivision(counts),
+          medianLatencyMs: median(latencyRows.filter(latency => latency.scenarioId === row.id).map(latency => latency.latencyMs)),
+        };
+      });
+
+      const overview: AnalyticsOverview = {
+        scenarios: data.sort((a, b) => b.plays - a.plays || a.title.localeCompare(b.title)),
+        byEthicalAxis: groupDivision(data.map(item => ({ values: item.ethicalAxes, votes: item.totalVotes, division: item.division }))),
+        byDifficulty: groupDivision(data.map(item => ({ values: [item.difficultyLevel], votes: item.totalVotes, division: item.division }))),
+      };
+
+      return { data: overview, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Decision times recorded with each opening-round vote, from the round
+   * opening on the server to the vote arriving
+   */
+  private static async getLatencies(owner: LibraryOwner) {
+    const rows = await db
+      .select({
+        scenarioId: votes.scenarioId,
+        latencyMs: votes.latencyMs,
+      })
+      .from(votes)
+      .innerJoin(sessions, eq(sessions.id, votes.sessionId))
+      .innerJoin(sessionScenarios, openingRound)
+      .where(and(isNotNull(votes.latencyMs), ownedBy(sessions, owner)));
+
+    return rows.map(row => ({ scenarioId: row.scenarioId, latencyMs: row.latencyMs! }));
+  }
+}
@@ -5,11 +5,18 @@ import { nanoid } from 'nanoid';
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const JWT_EXPIRY = process.env.JWT_EXPIRY || '24h';
 
+export type TokenRole = 'participant' | 'facilitator';
+
 export interface TokenPayload {
   sessionId: string;
   participantId: string;
   fingerprint: string;
   roomCode: string;
+  role?: TokenRole;
+  // Facilitators working in an organization only see its sessions and library
+  organizationId?: string;
+  // Set for signed-in facilitator accounts, which can list and resume their rooms
+  accountId?: string;
   iat?: number;
   exp?: number;
 }
@@ -25,6 +32,82 @@ export class AuthService {
     });
   }
 
+  /**
+   * Generate a JWT token for one participant of a session
+   */
+  static generateParticipantToken(
+    sessionId: string,
+    participantId: string,
+    fingerprint: string,
+    roomCode: string
+  ): string {
+    return this.generateToken({
+      sessionId,
+      participantId,
+      fingerprint,
+      roomCode,
+      role: 'participant',
+    });
+  }
+
+  /**
+   * Generate a JWT token scoped to the facilitator who owns a session
+   */
+  static generateFacilitatorToken(
+    sessionId: string,
+    facilitatorId: string,
+    roomCode: string,
+    scope: { organizationId?: string | null; accountId?: string | null } = {}
+  ): string {
+    return this.generateToken({
+      sessionId,
+      participantId: facilitatorId,
+      fingerprint: facilitatorId,
+      roomCode,
+      role: 'facilitator',
+      ...(scope.organizationId ? { organizationId: scope.organizationId } : {}),
+      ...(scope.accountId ? { accountId: scope.accountId } : {}),
+    });
+  }
+
+  /**
+   * Generate a token for a signed-in facilitator account. Like a workspace
+   * token it owns no session until the account opens or resumes one.
+   */
+  static generateAccountToken(accountId: string, organizationId?: string | null): string {
+    return this.generateToken({
+      sessionId: '',
+      participantId: accountId,
+      fingerprint: accountId,
+      roomCode: '',
+      role: 'facilitator',
+      accountId,
+      ...(organizationId ? { organizationId } : {}),
+    });
+  }
+
+  /**
+   * Generate a facilitator token for an organization's workspace. It owns no
+   * session, so it can open rooms and manage the library but not run a room.
+   */
+  static generateWorkspaceToken(organizationId: string): string {
+    return this.generateToken({
+      sessionId: '',
+      participantId: organizationId,
+      fingerprint: organizationId,
+      roomCode: '',
+      role: 'facilitator',
+      organizationId,
+    });
+  }
+
+  /**
+   * Check whether a decoded token belongs to the facilitator of a session
+   */
+  static isFacilitatorToken(payload: TokenPayload, sessionId: string): boolean {
+    return payload.role === 'facilitator' && payload.sessionId === sessionId;
+  }
+
   /**
    * Verify and decode a JWT token
    */
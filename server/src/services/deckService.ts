@@ -0,0 +1,177 @@
+import { db } from '../db';
+import { sessions, scenarios, sessionScenarios } from '../db/schema';
+import { eq, and, inArray, ne, asc } from 'drizzle-orm';
+import { GamePhaseService, PhaseTransitionError } from './gamePhaseService';
+import { OrganizationService, visibleTo } from './organizationService';
+import type { LibraryOwner } from './organizationService';
+import type { DeckMove, DeckEntry as DeckEntryPayload } from '../../../shared/contracts';
+
+export type { DeckMove };
+
+export type DeckEntry = DeckEntryPayload<Date>;
+
+export class DeckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeckError';
+  }
+}
+
+export const MAX_DECK_SIZE = 50;
+
+export class DeckService {
+  /**
+   * Check a planned deck before anything is written. Without a plan the
+   * deck is every active scenario the owner can see, oldest first.
+   */
+  static async resolveDeck(scenarioIds: string[] | undefined, owner: LibraryOwner): Promise<string[]> {
+    if (!scenarioIds || scenarioIds.length === 0) {
+      const library = await db
+        .select({ id: scenarios.id })
+        .from(scenarios)
+        .where(and(eq(scenarios.isActive, true), visibleTo(scenarios, owner)))
+        .orderBy(asc(scenarios.createdAt))
+        .limit(MAX_DECK_SIZE);
+      return library.map(s => s.id);
+    }
+
+    if (new Set(scenarioIds).size !== scenarioIds.length) {
+      throw new DeckError('A scenario can only appear once in a deck');
+    }
+
+    // Scenarios private to someone else are as unknown as missing ones
+    const found = await db
+      .select({ id: scenarios.id })
+      .from(scenarios)
+      .where(and(inArray(scenarios.id, scenarioIds), visibleTo(scenarios, owner)));
+    const foundIds = new Set(found.map(s => s.id));
+
+    const missing = scenarioIds.find(id => !foundIds.has(id));
+    if (missing) {
+      throw new DeckError(`Unknown scenario: ${missing}`);
+    }
+
+    return scenarioIds;
+  }
+
+  /**
+   * Write a resolved deck, replacing any previous plan
+   */
+  static async writeDeck(sessionId: string, scenarioIds: string[]) {
+    await db
+      .delete(sessionScenarios)
+      .where(eq(sessionScenarios.sessionId, sessionId));
+
+    if (scenarioIds.length > 0) {
+      await db.insert(sessionScenarios).values(
+        scenarioIds.map((scenarioId, orderIndex) => ({
+          sessionId,
+          scenarioId,
+          orderIndex,
+          status: 'pending' as const,
+        }))
+      );
+    }
+
+    await db
+      .update(sessions)
+      .set({ deckPosition: 0 })
+      .where(eq(sessions.id, sessionId));
+  }
+
+  static async getDeck(sessionId: string) {
+    try {
+      const rows = await db
+        .select({
+          id: sessionScenarios.id,
+          position: sessionScenarios.orderIndex,
+          status: sessionScenarios.status,
+          scenario: scenarios,
+        })
+        .from(sessionScenarios)
+        .innerJoin(scenarios, eq(sessionScenarios.scenarioId, scenarios.id))
+        .where(eq(sessionScenarios.sessionId, sessionId))
+        .orderBy(asc(sessionScenarios.orderIndex));
+
+      const data: DeckEntry[] = rows.map((row, index) => ({
+        ...row,
+        position: row.position ?? index,
+      }));
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Replace the deck of a session that hasn't started any scenario yet
+   */
+  static async setDeck(sessionId: string, scenarioIds: string[]) {
+    try {
+      const [played] = await db
+        .select({ id: sessionScenarios.id })
+        .from(sessionScenarios)
+        .where(
+          and(
+            eq(sessionScenarios.sessionId, sessionId),
+            ne(sessionScenarios.status, 'pending')
+          )
+        )
+        .limit(1);
+
+      if (played) {
+        throw new DeckError('The deck cannot be changed once a scenario has been played');
+      }
+
+      const owner = await OrganizationService.getSessionLibraryOwner(sessionId);
+      const resolved = await this.resolveDeck(scenarioIds, owner);
+      await this.writeDeck(sessionId, resolved);
+
+      return this.getDeck(sessionId);
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Point the session at another deck entry. Only allowed between voting
+   * windows; moving on from results returns the room to the lobby.
+   */
+  static async move(sessionId: string, move: DeckMove) {
+    try {
+      const state = await GamePhaseService.getState(sessionId);
+      if (state.phase !== 'waiting' && state.phase !== 'results') {
+        throw new PhaseTransitionError(state.phase, 'waiting');
+      }
+
+      const target = move.type === 'next'
+        ? state.deckPosition + 1
+        : move.type === 'previous'
+          ? state.deckPosition - 1
+          : move.position;
+
+      if (!Number.isInteger(target) || target < 0 || target >= state.deckSize) {
+        throw new DeckError('There is no scenario at that position in the deck');
+      }
+
+      await db
+        .update(sessions)
+        .set({ deckPosition: target })
+        .where(
+          and(
+            eq(sessions.id, sessionId),
+            eq(sessions.phase, state.phase)
+          )
+        );
+
+      const data = state.phase === 'results'
+        ? await GamePhaseService.transition(sessionId, 'waiting')
+        : await GamePhaseService.getState(sessionId);
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { db } from '../db';
+import { sessions, sessionEvents, sessionScenarios, scenarios } from '../db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { buildReplay } from '../utils/replay';
+import { canReadSession } from '../utils/sessionAccess';
+import type { TokenPayload } from './authService';
+import type { SessionReplay as SessionReplayPayload } from '../../../shared/contracts';
+
+/**
+ * Broadcast events kept in a session's log, see eventLog in
+ * schemas/events.schema.json. Presence, timer ticks and per-socket syncs
+ * are left out: they say nothing about how the room decided.
+ */
+export const LOGGED_EVENTS = [
+  'scenario_started',
+  'phase_changed',
+  'timer_started',
+  'vote_cast',
+  'rationale_added',
+  'decision_announced',
+  'moderation_queue_updated',
+  'session_ended',
+] as const;
+
+export type LoggedEvent = typeof LOGGED_EVENTS[number];
+
+export type SessionReplay = SessionReplayPayload<Date>;
+
+export class ReplayNotFoundError extends Error {
+  constructor() {
+    super('Session not found');
+    this.name = 'ReplayNotFoundError';
+  }
+}
+
+export class EventLogService {
+  /**
+   * Append a broadcast event to its session's log. Never throws: a lost
+   * log entry mustn't hold up or break the live room.
+   */
+  static async append(sessionId: string, type: LoggedEvent, payload: object): Promise<void> {
+    try {
+      await db.insert(sessionEvents).values({
+        sessionId,
+        type,
+        payload: payload as Record<string, unknown>,
+      });
+    } catch (error) {
+      console.error(`Failed to log ${type} for session ${sessionId}:`, error);
+    }
+  }
+
+  static async getEvents(sessionId: string) {
+    return db
+      .select({
+        sequence: sessionEvents.sequence,
+        type: sessionEvents.type,
+        payload: sessionEvents.payload,
+        occurredAt: sessionEvents.occurredAt,
+      })
+      .from(sessionEvents)
+      .where(eq(sessionEvents.sessionId, sessionId))
+      .orderBy(asc(sessionEvents.sequence));
+  }
+
+  /**
+   * A session's log folded into replay frames, for the facilitator who ran
+   * it, the account that opened it and facilitators of its organization
+   */
+  static async getReplay(sessionId: string, auth: TokenPayload) {
+    try {
+      const [row] = await db
+        .select({
+          id: sessions.id,
+          roomCode: sessions.roomCode,
+          status: sessions.status,
+          createdAt: sessions.createdAt,
+          endedAt: sessions.endedAt,
+          organizationId: sessions.organizationId,
+          facilitatorId: sessions.facilitatorId,
+        })
+        .from(sessions)
+        .where(eq(sessions.id, sessionId));
+
+      if (!row || !canReadSession(auth, row)) {
+        throw new ReplayNotFoundError();
+      }
+      const { organizationId, facilitatorId, ...session } = row;
+
+      const deck = await db
+        .select({ id: scenarios.id, title: scenarios.title, tracks: scenarios.tracks })
+        .from(sessionScenarios)
+        .innerJoin(scenarios, eq(sessionScenarios.scenarioId, scenarios.id))
+        .where(eq(sessionScenarios.sessionId, sessionId))
+        .orderBy(asc(sessionScenarios.orderIndex));
+
+      const events = await this.getEvents(sessionId);
+      const data: SessionReplay = { session, scenarios: deck, ...buildReplay(events) };
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+}
@@ -0,0 +1,318 @@
+import { db } from '../db';
+import { sessions, votes, rationales, mitigations, scenarios, sessionScenarios } from '../db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { ScenarioService } from './scenarioService';
+import { displayedText } from './moderationQueueService';
+import type { ScenarioTrack } from '../db/schema';
+
+export type ExportFormat = 'csv' | 'json' | 'md';
+
+export interface ExportResponse {
+  voteId: string;
+  // Track id the participant chose
+  vote: string;
+  round: number;
+  confidence: number | null;
+  rationale: string | null;
+  mitigation: string | null;
+  moderated: boolean;
+  votedAt: string;
+}
+
+export interface ExportScenario {
+  position: number;
+  scenarioId: string;
+  title: string;
+  status: string;
+  tracks: ScenarioTrack[];
+  // Rounds in the latest play, whose last round the tallies cover; responses keep every round
+  rounds: number;
+  tallies: {
+    totalVotes: number;
+    trackVotes: Record<string, number>;
+  };
+  responses: ExportResponse[];
+}
+
+export interface SessionExport {
+  session: {
+    id: string;
+    roomCode: string;
+    status: string;
+    createdAt: string;
+    endedAt: string | null;
+  };
+  exportedAt: string;
+  scenarios: ExportScenario[];
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+};
+
+const CSV_COLUMNS = [
+  'room_code',
+  'scenario_position',
+  'scenario_title',
+  'scenario_total_votes',
+  'scenario_track_votes',
+  'round',
+  'vote',
+  'vote_label',
+  'confidence',
+  'rationale',
+  'mitigation',
+  'moderated',
+  'voted_at',
+];
+
+/**
+ * Quote a CSV field when needed. Leading formula characters are neutralised
+ * so spreadsheets don't execute participant text.
+ */
+export function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+// Markdown output is one line per response, so collapse line breaks
+function inlineMarkdown(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// A pipe would end the table cell early
+function tableCell(text: string): string {
+  return inlineMarkdown(text).replace(/\|/g, '\\|');
+}
+
+// Votes for a track that has since been removed fall back to the raw id
+function trackLabel(tracks: ScenarioTrack[], trackId: string): string {
+  return tracks.find(track => track.id === trackId)?.label ?? trackId;
+}
+
+export class ExportService {
+  /**
+   * Collect every deck entry with its tallies, rationales and mitigations
+   */
+  static async buildSessionExport(sessionId: string) {
+    try {
+      const [session] = await db
+        .select()
+        .from(sessions)
+        .where(eq(sessions.id, sessionId));
+
+      if (!session) {
+        throw new Error('Session not found');
+      }
+
+      const deck = await db
+        .select({
+          position: sessionScenarios.orderIndex,
+          status: sessionScenarios.status,
+          round: sessionScenarios.round,
+          firstRound: sessionScenarios.firstRound,
+          scenario: scenarios,
+        })
+        .from(sessionScenarios)
+        .innerJoin(scenarios, eq(sessionScenarios.scenarioId, scenarios.id))
+        .where(eq(sessionScenarios.sessionId, sessionId))
+        .orderBy(asc(sessionScenarios.orderIndex));
+
+      const rows = await db
+        .select({
+          voteId: votes.id,
+          scenarioId: votes.scenarioId,
+          vote: votes.vote,
+          round: votes.round,
+          confidence: votes.confidence,
+          createdAt: votes.createdAt,
+          rationale: rationales.originalText,
+          rationaleProcessed: rationales.processedText,
+          rationaleModerated: rationales.moderated,
+          mitigation: mitigations.originalText,
+          mitigationProcessed: mitigations.processedText,
+          mitigationModerated: mitigations.moderated,
+        })
+        .from(votes)
+        // Held and hidden text stays out of exports
+        .leftJoin(
+          rationales,
+          and(eq(rationales.voteId, votes.id), eq(rationales.reviewStatus, 'approved'))
+        )
+        .leftJoin(
+          mitigations,
+          and(eq(mitigations.voteId, votes.id), eq(mitigations.reviewStatus, 'approved'))
+        )
+        .where(eq(votes.sessionId, sessionId))
+        .orderBy(asc(votes.createdAt));
+
+      const exportScenarios: ExportScenario[] = deck.map((entry, index) => {
+        const tracks = ScenarioService.getTracks(entry.scenario);
+        return {
+          position: (entry.position ?? index) + 1,
+          scenarioId: entry.scenario.id,
+          title: entry.scenario.title,
+          status: entry.status,
+          tracks,
+          rounds: entry.round - entry.firstRound + 1,
+          tallies: {
+            totalVotes: 0,
+            trackVotes: Object.fromEntries(tracks.map(track => [track.id, 0])),
+          },
+          responses: [],
+        };
+      });
+      const byScenario = new Map(exportScenarios.map(s => [s.scenarioId, s]));
+      const latestRounds = new Map(deck.map(entry => [entry.scenario.id, entry.round]));
+
+      rows.forEach(row => {
+        const scenario = byScenario.get(row.scenarioId);
+        if (!scenario) {
+          return;
+        }
+
+        if (row.round === latestRounds.get(row.scenarioId)) {
+          scenario.tallies.totalVotes++;
+          scenario.tallies.trackVotes[row.vote] = (scenario.tallies.trackVotes[row.vote] ?? 0) + 1;
+        }
+
+        scenario.responses.push({
+          voteId: row.voteId,
+          vote: row.vote,
+          round: row.round,
+          confidence: row.confidence,
+          rationale: displayedText(row.rationale, row.rationaleProcessed, row.rationaleModerated),
+          mitigation: displayedText(row.mitigation, row.mitigationProcessed, row.mitigationModerated),
+          moderated: !!(row.rationaleModerated || row.mitigationModerated),
+          votedAt: row.createdAt.toISOString(),
+        });
+      });
+
+      const data: SessionExport = {
+        session: {
+          id: session.id,
+          roomCode: session.roomCode,
+          status: session.status,
+          createdAt: session.createdAt.toISOString(),
+          endedAt: session.endedAt ? session.endedAt.toISOString() : null,
+        },
+        exportedAt: new Date().toISOString(),
+        scenarios: exportScenarios,
+      };
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  static render(data: SessionExport, format: ExportFormat): string {
+    switch (format) {
+      case 'csv':
+        return this.toCsv(data);
+      case 'md':
+        return this.toMarkdown(data);
+      default:
+        return JSON.stringify(data, null, 2);
+    }
+  }
+
+  /**
+   * One row per response. Scenarios nobody voted on still get a row so
+   * the tallies cover the whole deck.
+   */
+  static toCsv(data: SessionExport): string {
+    const lines = [CSV_COLUMNS.join(',')];
+
+    data.scenarios.forEach(scenario => {
+      const prefix = [
+        data.session.roomCode,
+        scenario.position,
+        scenario.title,
+        scenario.tallies.totalVotes,
+        scenario.tracks.map(track => `${track.label}: ${scenario.tallies.trackVotes[track.id] ?? 0}`).join('; '),
+      ];
+
+      if (scenario.responses.length === 0) {
+        lines.push([...prefix, '', '', '', '', '', '', '', ''].map(escapeCsvField).join(','));
+        return;
+      }
+
+      scenario.responses.forEach(response => {
+        lines.push([
+          ...prefix,
+          response.round,
+          response.vote,
+          trackLabel(scenario.tracks, response.vote),
+          response.confidence,
+          response.rationale,
+          response.mitigation,
+          response.moderated,
+          response.votedAt,
+        ].map(escapeCsvField).join(','));
+      });
+    });
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  static toMarkdown(data: SessionExport): string {
+    const lines = [
+      `# Trolley Game Session ${data.session.roomCode}`,
+      '',
+      `- Started: ${data.session.createdAt}`,
+      `- Ended: ${data.session.endedAt ?? 'in progress'}`,
+      `- Exported: ${data.exportedAt}`,
+      '',
+    ];
+
+    data.scenarios.forEach(scenario => {
+      const { totalVotes, trackVotes } = scenario.tallies;
+      const share = (count: number) => (totalVotes ? Math.round((count / totalVotes) * 100) : 0);
+
+      lines.push(
+        `## ${scenario.position}. ${inlineMarkdown(scenario.title)}`,
+        '',
+        ...(scenario.rounds > 1 ? [`Tallies are from round ${scenario.rounds} of ${scenario.rounds}.`, ''] : []),
+        '| Choice | Votes | Share |',
+        '| --- | ---: | ---: |',
+        ...scenario.tracks.map(track => {
+          const count = trackVotes[track.id] ?? 0;
+          return `| ${tableCell(track.label)} | ${count} | ${share(count)}% |`;
+        }),
+        `| Total | ${totalVotes} | |`,
+        ''
+      );
+
+      scenario.tracks.forEach(track => {
+        const texts = scenario.responses
+          .filter(r => r.vote === track.id && r.rationale)
+          .map(r => `- ${inlineMarkdown(r.rationale!)}${scenario.rounds > 1 ? ` (round ${r.round})` : ''}`);
+        if (texts.length > 0) {
+          lines.push(`### Rationales: ${inlineMarkdown(track.label)}`, '', ...texts, '');
+        }
+      });
+
+      const mitigationTexts = scenario.responses
+        .filter(r => r.mitigation)
+        .map(r => `- ${inlineMarkdown(r.mitigation!)}`);
+      if (mitigationTexts.length > 0) {
+        lines.push('### Mitigations', '', ...mitigationTexts, '');
+      }
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,161 @@
+import { db } from '../db';
+import { sessions, sessionScenarios } from '../db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import type { GamePhase, PhaseState as PhasePayload } from '../../../shared/contracts';
+
+export type { GamePhase };
+
+export interface PhaseState {
+  sessionId: string;
+  phase: GamePhase;
+  scenarioId: string | null;
+  deadline: Date | null;
+  deckPosition: number;
+  deckSize: number;
+  round: number;
+  firstRound: number;
+}
+
+/**
+ * Legal phase transitions. A session can always be completed early, and
+ * results may go straight into the next scenario's voting window.
+ */
+export const PHASE_TRANSITIONS: Record<GamePhase, GamePhase[]> = {
+  waiting: ['voting', 'completed'],
+  voting: ['results', 'completed'],
+  results: ['waiting', 'voting', 'completed'],
+  completed: [],
+};
+
+// Votes that arrive just after the deadline are still accepted to absorb network lag
+export const VOTE_GRACE_MS = 1500;
+
+export class PhaseTransitionError extends Error {
+  constructor(public from: GamePhase, public to: GamePhase) {
+    super(`Cannot move session from ${from} to ${to}`);
+    this.name = 'PhaseTransitionError';
+  }
+}
+
+export class GamePhaseService {
+  static canTransition(from: GamePhase, to: GamePhase): boolean {
+    return PHASE_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Read the canonical phase, deadline and active scenario for a session
+   */
+  static async getState(sessionId: string): Promise<PhaseState> {
+    const [session] = await db
+      .select({
+        phase: sessions.phase,
+        phaseDeadline: sessions.phaseDeadline,
+        deckPosition: sessions.deckPosition,
+      })
+      .from(sessions)
+      .where(eq(sessions.id, sessionId));
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const [activeScenario] = await db
+      .select({
+        scenarioId: sessionScenarios.scenarioId,
+        round: sessionScenarios.round,
+        firstRound: sessionScenarios.firstRound,
+      })
+      .from(sessionScenarios)
+      .where(
+        and(
+          eq(sessionScenarios.sessionId, sessionId),
+          eq(sessionScenarios.status, 'active')
+        )
+      );
+
+    const [deck] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(sessionScenarios)
+      .where(eq(sessionScenarios.sessionId, sessionId));
+
+    return {
+      sessionId,
+      phase: session.phase,
+      scenarioId: activeScenario?.scenarioId ?? null,
+      deadline: session.phaseDeadline,
+      deckPosition: session.deckPosition,
+      deckSize: Number(deck?.count ?? 0),
+      round: activeScenario?.round ?? 1,
+      firstRound: activeScenario?.firstRound ?? 1,
+    };
+  }
+
+  /**
+   * Move a session to a new phase, rejecting illegal transitions.
+   * The update is conditional on the phase we read so concurrent
+   * transitions cannot both succeed.
+   */
+  static async transition(
+    sessionId: string,
+    to: GamePhase,
+    deadline: Date | null = null
+  ): Promise<PhaseState> {
+    const current = await this.getState(sessionId);
+
+    if (!this.canTransition(current.phase, to)) {
+      throw new PhaseTransitionError(current.phase, to);
+    }
+
+    const [updated] = await db
+      .update(sessions)
+      .set({
+        phase: to,
+        phaseDeadline: deadline,
+        status: to === 'completed' ? 'complete' : 'active',
+      })
+      .where(
+        and(
+          eq(sessions.id, sessionId),
+          eq(sessions.phase, current.phase)
+        )
+      )
+      .returning({ id: sessions.id });
+
+    if (!updated) {
+      throw new PhaseTransitionError(current.phase, to);
+    }
+
+    return this.getState(sessionId);
+  }
+
+  /**
+   * Check that a vote for a scenario falls inside its voting window
+   */
+  static isVotingOpen(state: PhaseState, scenarioId: string, now: Date = new Date()): boolean {
+    if (state.phase !== 'voting' || state.scenarioId !== scenarioId) {
+      return false;
+    }
+    if (state.deadline && now.getTime() > state.deadline.getTime() + VOTE_GRACE_MS) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Shape a phase state for clients, including the server clock so they
+   * can correct for drift when counting down to the deadline
+   */
+  static toPayload(state: PhaseState): PhasePayload {
+    return {
+      session_id: state.sessionId,
+      scenario_id: state.scenarioId,
+      phase: state.phase,
+      deadline: state.deadline ? state.deadline.toISOString() : null,
+      deck_position: state.deckPosition,
+      deck_size: state.deckSize,
+      round: state.round,
+      first_round: state.firstRound,
+      server_time: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,249 @@
+import { db } from '../db';
+import { moderationProfiles, sessions } from '../db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import { ModerationService, compileRedactionPattern } from './moderationService';
+import { visibleTo, ownedBy, libraryOwner } from './organizationService';
+import type { LibraryOwner } from './organizationService';
+import type { ModerationProfile, RedactionRule } from '../db/schema';
+import type { RoomConfig } from '../../../shared/contracts';
+import type { ModerationOptions } from './moderationService';
+import type { FieldError } from './scenarioService';
+
+export interface ModerationProfileInput {
+  name: string;
+  allowList: string[];
+  denyList: string[];
+  redactionRules: RedactionRule[];
+}
+
+// The lists and rules of a profile, as used by the preview before saving
+export type ModerationProfileRules = Omit<ModerationProfileInput, 'name'>;
+
+// Rules are short, readable patterns; anything longer belongs in the deny list
+const MAX_PATTERN_LENGTH = 200;
+
+export class ModerationProfileValidationError extends Error {
+  constructor(public fields: FieldError[]) {
+    super('Moderation profile failed validation');
+    this.name = 'ModerationProfileValidationError';
+  }
+}
+
+export class ModerationProfileNotFoundError extends Error {
+  constructor() {
+    super('Moderation profile not found');
+    this.name = 'ModerationProfileNotFoundError';
+  }
+}
+
+export class ModerationProfileService {
+  /**
+   * Check each redaction rule compiles as an RE2 regular expression
+   */
+  static validateRules(rules: RedactionRule[]): FieldError[] {
+    const errors: FieldError[] = [];
+    rules.forEach((rule, index) => {
+      if (rule.pattern.length > MAX_PATTERN_LENGTH) {
+        errors.push({ field: `redactionRules[${index}].pattern`, message: `must be at most ${MAX_PATTERN_LENGTH} characters` });
+        return;
+      }
+      try {
+        compileRedactionPattern(rule.pattern);
+      } catch (error) {
+        errors.push({ field: `redactionRules[${index}].pattern`, message: (error as Error).message });
+      }
+    });
+    return errors;
+  }
+
+  static toOptions(profile: ModerationProfileRules): ModerationOptions {
+    return {
+      allowlist: profile.allowList,
+      blocklist: profile.denyList,
+      redactionRules: profile.redactionRules,
+    };
+  }
+
+  /**
+   * Facilitators can turn the profanity filter off for a session; markup,
+   * PII and blocked words are always handled
+   */
+  static async getSessionOptions(sessionId: string): Promise<ModerationOptions> {
+    const [session] = await db
+      .select({ config: sessions.config, organizationId: sessions.organizationId, facilitatorId: sessions.facilitatorId })
+      .from(sessions)
+      .where(eq(sessions.id, sessionId));
+
+    const config: RoomConfig | undefined = session?.config;
+    const options: ModerationOptions = {
+      profanity: config?.moderationEnabled !== false,
+    };
+
+    if (config?.moderationProfileId) {
+      try {
+        const profile = await this.getProfile(
+          config.moderationProfileId,
+          libraryOwner(session.organizationId, session.facilitatorId)
+        );
+        Object.assign(options, ModerationProfileService.toOptions(profile));
+      } catch (error) {
+        // A deleted profile leaves the room on default moderation
+        if (!(error instanceof ModerationProfileNotFoundError)) {
+          throw error;
+        }
+      }
+    }
+
+    return options;
+  }
+
+  /**
+   * Look up a profile. Given an owner, profiles private to another
+   * organization or account are not found.
+   */
+  static async getProfile(profileId: string, owner?: LibraryOwner): Promise<ModerationProfile> {
+    const [row] = await db
+      .select()
+      .from(moderationProfiles)
+      .where(
+        owner === undefined
+          ? eq(moderationProfiles.id, profileId)
+          : and(eq(moderationProfiles.id, profileId), visibleTo(moderationProfiles, owner))
+      );
+
+    if (!row) {
+      throw new ModerationProfileNotFoundError();
+    }
+    return row;
+  }
+
+  /**
+   * Look up a profile with its lists for the owner to edit. Shared profiles
+   * are never found, since their lists may name people or organisations.
+   */
+  static async getOwnedProfile(profileId: string, owner: LibraryOwner): Promise<ModerationProfile> {
+    const [row] = await db
+      .select()
+      .from(moderationProfiles)
+      .where(and(eq(moderationProfiles.id, profileId), ownedBy(moderationProfiles, owner)));
+
+    if (!row) {
+      throw new ModerationProfileNotFoundError();
+    }
+    return row;
+  }
+
+  /**
+   * Names only, for choosing a profile; the lists themselves may name
+   * people or organisations
+   */
+  static async listProfiles(owner: LibraryOwner) {
+    try {
+      const data = await db
+        .select({ id: moderationProfiles.id, name: moderationProfiles.name })
+        .from(moderationProfiles)
+        .where(visibleTo(moderationProfiles, owner))
+        .orderBy(asc(moderationProfiles.name));
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: [] as Pick<ModerationProfile, 'id' | 'name'>[], error: error as Error };
+    }
+  }
+
+  /**
+   * Profiles are private to the organization or account creating them
+   */
+  static async createProfile(input: ModerationProfileInput, owner: LibraryOwner) {
+    try {
+      const fields = this.validateRules(input.redactionRules);
+      if (fields.length > 0) {
+        throw new ModerationProfileValidationError(fields);
+      }
+
+      const [data] = await db
+        .insert(moderationProfiles)
+        .values({ ...input, ...owner })
+        .returning();
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Shared profiles are never found here; create a private one instead
+   */
+  static async updateProfile(profileId: string, input: ModerationProfileInput, owner: LibraryOwner) {
+    try {
+      const fields = this.validateRules(input.redactionRules);
+      if (fields.length > 0) {
+        throw new ModerationProfileValidationError(fields);
+      }
+
+      const [data] = await db
+        .update(moderationProfiles)
+        .set({ ...input, updatedAt: new Date() })
+        .where(and(eq(moderationProfiles.id, profileId), ownedBy(moderationProfiles, owner)))
+        .returning();
+
+      if (!data) {
+        throw new ModerationProfileNotFoundError();
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Rooms that still name a deleted profile fall back to default moderation
+   */
+  static async deleteProfile(profileId: string, owner: LibraryOwner) {
+    try {
+      const [data] = await db
+        .delete(moderationProfiles)
+        .where(and(eq(moderationProfiles.id, profileId), ownedBy(moderationProfiles, owner)))
+        .returning();
+
+      if (!data) {
+        throw new ModerationProfileNotFoundError();
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Show what moderation would do to some text, with a saved profile or
+   * with lists and rules that have not been saved yet
+   */
+  static async preview(
+    text: string,
+    source: { profileId?: string; rules?: ModerationProfileRules },
+    owner: LibraryOwner
+  ) {
+    try {
+      let rules = source.rules;
+      if (source.profileId) {
+        rules = await this.getProfile(source.profileId, owner);
+      }
+
+      if (rules) {
+        const fields = this.validateRules(rules.redactionRules);
+        if (fields.length > 0) {
+          throw new ModerationProfileValidationError(fields);
+        }
+      }
+
+      const data = ModerationService.moderate(text, rules ? this.toOptions(rules) : {});
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { db } from '../db';
+import { sessions, votes, rationales, mitigations } from '../db/schema';
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { ModerationService } from './moderationService';
+import { ModerationProfileService } from './moderationProfileService';
+import type {
+  ModerationKind,
+  ReviewStatus,
+  ReviewDecision,
+  ModerationItem as ModerationItemPayload,
+} from '../../../shared/contracts';
+
+export type { ModerationKind, ReviewStatus, ReviewDecision };
+
+export type ModerationItem = ModerationItemPayload<Date>;
+
+export class ModerationItemNotFoundError extends Error {
+  constructor() {
+    super('Moderation item not found');
+    this.name = 'ModerationItemNotFoundError';
+  }
+}
+
+const TABLES = {
+  rationale: rationales,
+  mitigation: mitigations,
+};
+
+/**
+ * The text participants see: moderated items show their processed text
+ */
+export function displayedText(original: string | null, processed: string | null, moderated: boolean | null): string | null {
+  if (original === null) {
+    return null;
+  }
+  return moderated ? processed : original;
+}
+
+export class ModerationQueueService {
+  /**
+   * Whether the session holds rationales and mitigations until the facilitator reviews them
+   */
+  static async isQueueEnabled(sessionId: string): Promise<boolean> {
+    const [session] = await db
+      .select({ config: sessions.config })
+      .from(sessions)
+      .where(eq(sessions.id, sessionId));
+
+    return !!session?.config.moderationQueue;
+  }
+
+  /**
+   * Everything still waiting for review, oldest first
+   */
+  static async getQueue(sessionId: string) {
+    try {
+      const [heldRationales, heldMitigations] = await Promise.all([
+        this.getPending(sessionId, 'rationale'),
+        this.getPending(sessionId, 'mitigation'),
+      ]);
+
+      const data = [...heldRationales, ...heldMitigations]
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: [] as ModerationItem[], error: error as Error };
+    }
+  }
+
+  static async getPendingCount(sessionId: string): Promise<number> {
+    const counts = await Promise.all(
+      (Object.keys(TABLES) as ModerationKind[]).map(async kind => {
+        const table = TABLES[kind];
+        const [result] = await db
+          .select({ count: sql<number>`count(*)` })
+          .from(table)
+          .innerJoin(votes, eq(table.voteId, votes.id))
+          .where(and(eq(votes.sessionId, sessionId), eq(table.reviewStatus, 'pending')));
+        return Number(result?.count ?? 0);
+      })
+    );
+
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Approve, redact or hide one held item. Redacted text goes through the
+   * session's moderation like anything a participant writes.
+   */
+  static async review(sessionId: string, kind: ModerationKind, itemId: string, decision: ReviewDecision) {
+    try {
+      const table = TABLES[kind];
+      const [item] = await db
+        .select({
+          id: table.id,
+          scenarioId: votes.scenarioId,
+          participantId: votes.participantId,
+          vote: votes.vote,
+          createdAt: table.createdAt,
+        })
+        .from(table)
+        .innerJoin(votes, eq(table.voteId, votes.id))
+        .where(and(eq(table.id, itemId), eq(votes.sessionId, sessionId)));
+
+      if (!item) {
+        throw new ModerationItemNotFoundError();
+      }
+
+      let changes;
+      switch (decision.action) {
+        case 'approve':
+          changes = { reviewStatus: 'approved' };
+          break;
+        case 'redact':
+          changes = {
+            reviewStatus: 'approved',
+            processedText: ModerationService.moderate(
+              decision.text,
+              await ModerationProfileService.getSessionOptions(sessionId)
+            ).processed,
+            moderated: true,
+            moderationReason: 'Edited by facilitator',
+          };
+          break;
+        case 'hide':
+          changes = {
+            reviewStatus: 'hidden',
+            moderated: true,
+            moderationReason: 'Hidden by facilitator',
+          };
+          break;
+      }
+
+      const [updated] = await db
+        .update(table)
+        .set({ ...changes, reviewedAt: new Date() })
+        .where(eq(table.id, itemId))
+        .returning();
+
+      const data: ModerationItem = {
+        ...item,
+        kind,
+        text: displayedText(updated.originalText, updated.processedText, updated.moderated) ?? '',
+        status: updated.reviewStatus as ReviewStatus,
+      };
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Held items show the text that would be published, so the review screen
+   * never shows PII that moderation already removed
+   */
+  private static async getPending(sessionId: string, kind: ModerationKind): Promise<ModerationItem[]> {
+    const table = TABLES[kind];
+    const rows = await db
+      .select({
+        id: table.id,
+        scenarioId: votes.scenarioId,
+        participantId: votes.participantId,
+        vote: votes.vote,
+        originalText: table.originalText,
+        processedText: table.processedText,
+        moderated: table.moderated,
+        createdAt: table.createdAt,
+      })
+      .from(table)
+      .innerJoin(votes, eq(table.voteId, votes.id))
+      .where(and(eq(votes.sessionId, sessionId), eq(table.reviewStatus, 'pending')))
+      .orderBy(asc(table.createdAt));
+
+    return rows.map(({ originalText, processedText, moderated, ...row }) => ({
+      ...row,
+      kind,
+      text: displayedText(originalText, processedText, moderated) ?? '',
+      status: 'pending',
+    }));
+  }
+}
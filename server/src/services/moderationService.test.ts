@@ -0,0 +1,182 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ModerationService,
+  REDACTED,
+  stripHtml,
+  filterProfanity,
+  redactPii,
+  applyBlocklist,
+  applyRedactionRules,
+  compileRedactionPattern,
+} from './moderationService';
+
+describe('stripHtml', () => {
+  it('removes tags and keeps their text', () => {
+    assert.equal(stripHtml('<b>Serve</b> more <i>families</i>'), 'Serve more families');
+  });
+
+  it('drops scripts entirely', () => {
+    assert.equal(stripHtml('safe<script>alert(1)</script> text'), 'safe text');
+  });
+
+  it('leaves ampersands as plain text', () => {
+    assert.equal(stripHtml('fish & chips'), 'fish & chips');
+  });
+
+  it('drops stray angle brackets', () => {
+    assert.equal(stripHtml('risk < reward'), 'risk  reward');
+  });
+
+  it('leaves plain text alone', () => {
+    assert.equal(stripHtml('Trust matters more'), 'Trust matters more');
+  });
+});
+
+describe('filterProfanity', () => {
+  it('masks profane words', () => {
+    assert.equal(filterProfanity('this is shit'), 'this is ****');
+  });
+
+  it('leaves clean text alone', () => {
+    assert.equal(filterProfanity('this is fine'), 'this is fine');
+  });
+});
+
+describe('redactPii', () => {
+  it('redacts social security numbers', () => {
+    assert.equal(redactPii('mine is 123-45-6789'), `mine is ${REDACTED}`);
+  });
+
+  it('redacts email addresses', () => {
+    assert.equal(redactPii('write to jo.smith@example.org'), `write to ${REDACTED}`);
+  });
+
+  it('redacts phone numbers in common formats', () => {
+    assert.equal(redactPii('call 555-123-4567'), `call ${REDACTED}`);
+    assert.equal(redactPii('call (555) 123-4567'), `call ${REDACTED}`);
+    assert.equal(redactPii('call +1 555.123.4567'), `call ${REDACTED}`);
+  });
+
+  it('redacts card numbers as a whole', () => {
+    assert.equal(redactPii('card 4111 1111 1111 1111'), `card ${REDACTED}`);
+    assert.equal(redactPii('card 4111-1111-1111-1111'), `card ${REDACTED}`);
+  });
+
+  it('leaves short numbers alone', () => {
+    assert.equal(redactPii('helps 200 families in 3 towns'), 'helps 200 families in 3 towns');
+  });
+});
+
+describe('applyBlocklist', () => {
+  it('masks whole words regardless of case', () => {
+    assert.equal(applyBlocklist('Acme is great', ['acme']), '**** is great');
+  });
+
+  it('masks phrases', () => {
+    assert.equal(applyBlocklist('ask Jane Doe first', ['jane doe']), 'ask ******** first');
+  });
+
+  it('does not mask words that only contain a blocked term', () => {
+    assert.equal(applyBlocklist('acmeville is nearby', ['acme']), 'acmeville is nearby');
+  });
+
+  it('treats terms literally', () => {
+    assert.equal(applyBlocklist('costs $5 (max)', ['(max)']), 'costs $5 *****');
+  });
+});
+
+describe('applyRedactionRules', () => {
+  it('replaces matches case-insensitively', () => {
+    const rules = [{ label: 'Case number', pattern: 'case-\\d{6}' }];
+    assert.equal(applyRedactionRules('see CASE-123456 notes', rules), `see ${REDACTED} notes`);
+  });
+
+  it('uses the rule replacement when given', () => {
+    const rules = [{ label: 'Ward', pattern: 'ward [a-z]\\b', replacement: '[WARD]' }];
+    assert.equal(applyRedactionRules('moved from ward b', rules), 'moved from [WARD]');
+  });
+
+  it('applies rules in order', () => {
+    const rules = [
+      { label: 'Staff id', pattern: 'emp\\d+', replacement: 'staff' },
+      { label: 'Staff', pattern: 'staff' },
+    ];
+    assert.equal(applyRedactionRules('ask emp42', rules), `ask ${REDACTED}`);
+  });
+
+  it('runs nested quantifiers without backtracking', () => {
+    const rules = [{ label: 'Runaway', pattern: '(a+)+$' }];
+    const text = `${'a'.repeat(5000)}!`;
+
+    const started = Date.now();
+    assert.equal(applyRedactionRules(text, rules), text);
+    assert.ok(Date.now() - started < 1000);
+  });
+});
+
+describe('compileRedactionPattern', () => {
+  it('refuses backreferences and lookaround', () => {
+    assert.throws(() => compileRedactionPattern('(a)\\1'));
+    assert.throws(() => compileRedactionPattern('emp(?=\\d)'));
+  });
+});
+
+describe('ModerationService.moderate', () => {
+  it('passes clean text through unmoderated', () => {
+    assert.deepEqual(ModerationService.moderate('  Serve more families  '), {
+      original: 'Serve more families',
+      processed: 'Serve more families',
+      moderated: false,
+      reasons: [],
+    });
+  });
+
+  it('records a reason for every stage that changed the text', () => {
+    const result = ModerationService.moderate('<b>shit</b>, email me at a@b.com about Acme', {
+      blocklist: ['acme'],
+    });
+
+    assert.equal(result.processed, `****, email me at ${REDACTED} about ****`);
+    assert.equal(result.moderated, true);
+    assert.deepEqual(result.reasons, ['html_stripped', 'profanity_filtered', 'pii_removed', 'blocklisted']);
+  });
+
+  it('keeps the original text', () => {
+    const result = ModerationService.moderate('call 555-123-4567');
+    assert.equal(result.original, 'call 555-123-4567');
+  });
+
+  it('leaves allowed terms for the profanity filter', () => {
+    const result = ModerationService.moderate('Hell is other people, this is shit', { allowlist: ['hell'] });
+    assert.equal(result.processed, 'Hell is other people, this is ****');
+  });
+
+  it('leaves allowed phrases for the blocklist', () => {
+    const result = ModerationService.moderate('Acme Foundation funds Acme', {
+      blocklist: ['acme'],
+      allowlist: ['acme foundation'],
+    });
+    assert.equal(result.processed, 'Acme Foundation funds ****');
+    assert.deepEqual(result.reasons, ['blocklisted']);
+  });
+
+  it('does not let allowed terms escape PII redaction', () => {
+    const result = ModerationService.moderate('reach me at help@acme.org', { allowlist: ['help@acme.org'] });
+    assert.equal(result.processed, `reach me at ${REDACTED}`);
+  });
+
+  it('reports custom redaction rules as PII removal', () => {
+    const result = ModerationService.moderate('patient MRN 0042', {
+      redactionRules: [{ label: 'MRN', pattern: 'mrn \\d+' }],
+    });
+    assert.equal(result.processed, `patient ${REDACTED}`);
+    assert.deepEqual(result.reasons, ['pii_removed']);
+  });
+
+  it('can skip the profanity stage', () => {
+    const result = ModerationService.moderate('this is shit', { profanity: false });
+    assert.equal(result.processed, 'this is shit');
+    assert.equal(result.moderated, false);
+  });
+});
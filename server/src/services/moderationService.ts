@@ -0,0 +1,162 @@
+import { Filter } from 'bad-words';
+import RE2 from 're2';
+import { SanitizationService } from './sanitizationService';
+import type { RedactionRule } from '../db/schema';
+
+// Reason codes match the client filter and the moderation_event contract
+export type ModerationReason = 'html_stripped' | 'profanity_filtered' | 'pii_removed' | 'blocklisted';
+
+export interface ModerationResult {
+  original: string;
+  processed: string;
+  moderated: boolean;
+  reasons: ModerationReason[];
+}
+
+export interface ModerationOptions {
+  // Mask words from the profanity list
+  profanity?: boolean;
+  // Extra words or phrases to mask, on top of MODERATION_BLOCKLIST
+  blocklist?: string[];
+  // Words or phrases the profanity filter and blocklist leave alone
+  allowlist?: string[];
+  // Extra patterns redacted alongside the built-in PII patterns
+  redactionRules?: RedactionRule[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+// Same patterns as the client filter; cards run first so phone numbers don't eat them
+const PII_PATTERNS = [
+  /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g, // Credit card
+  /\b\d{3}-?\d{2}-?\d{4}\b/g, // SSN
+  /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, // Email
+  /(?:\+?1[-.\s]?)?(?:\(\d{3}\)|\b\d{3})[-.\s]?\d{3}[-.\s]?\d{4}\b/g, // Phone
+];
+
+// Words blocked for every session, comma separated
+const ENV_BLOCKLIST = (process.env.MODERATION_BLOCKLIST || '')
+  .split(',')
+  .map(term => term.trim())
+  .filter(Boolean);
+
+const profanityFilter = new Filter();
+
+// Stands in for allowed terms while a stage runs; private use, so never typed
+const ALLOWED_MARK = '\uE000';
+const ALLOWED_PLACEHOLDER = new RegExp(`${ALLOWED_MARK}(\\d+)${ALLOWED_MARK}`, 'g');
+
+function mask(word: string): string {
+  return '*'.repeat(word.length);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive match of a literal word or phrase
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![\\w])${escapeRegExp(term)}(?![\\w])`, 'gi');
+}
+
+/**
+ * Run a stage with allowed terms swapped out for placeholders, then put
+ * them back, so the stage cannot mask them
+ */
+function withAllowed(text: string, allowlist: string[], stage: (input: string) => string): string {
+  if (allowlist.length === 0) {
+    return stage(text);
+  }
+
+  const kept: string[] = [];
+  const shielded = allowlist.reduce((result, term) => result.replace(termPattern(term), match => {
+    kept.push(match);
+    return `${ALLOWED_MARK}${kept.length - 1}${ALLOWED_MARK}`;
+  }), text);
+
+  return stage(shielded).replace(ALLOWED_PLACEHOLDER, (_, index) => kept[Number(index)]);
+}
+
+/**
+ * Strip markup and leave plain text. Angle brackets are dropped rather than
+ * kept as entities because the realtime contract forbids them in rationales.
+ */
+export function stripHtml(text: string): string {
+  return SanitizationService.sanitizeText(text, { stripHtml: true })
+    .replace(/&lt;|&gt;/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+export function filterProfanity(text: string): string {
+  return profanityFilter.isProfane(text) ? profanityFilter.clean(text) : text;
+}
+
+export function redactPii(text: string): string {
+  return PII_PATTERNS.reduce((result, pattern) => result.replace(pattern, REDACTED), text);
+}
+
+/**
+ * Compile a facilitator's redaction pattern. RE2 matches in linear time, so
+ * no pattern can stall the event loop by backtracking; in exchange it has
+ * no backreferences or lookaround, and throws on patterns that use them.
+ */
+export function compileRedactionPattern(pattern: string): RE2 {
+  return new RE2(pattern, 'gi');
+}
+
+/**
+ * Apply custom redaction rules in order. Patterns are checked when a
+ * profile is saved, so a bad one here is a programming error.
+ */
+export function applyRedactionRules(text: string, rules: RedactionRule[]): string {
+  return rules.reduce(
+    (result, rule) => result.replace(compileRedactionPattern(rule.pattern), rule.replacement ?? REDACTED),
+    text
+  );
+}
+
+/**
+ * Mask whole-word, case-insensitive matches of each blocked word or phrase
+ */
+export function applyBlocklist(text: string, blocklist: string[]): string {
+  return blocklist.reduce((result, term) => result.replace(termPattern(term), mask), text);
+}
+
+export class ModerationService {
+  /**
+   * Run text through every stage in order: HTML, profanity, PII, blocklist.
+   * Each stage that changes the text adds its reason. Allowed terms are
+   * shielded from the profanity and blocklist stages but not from PII rules.
+   */
+  static moderate(text: string, options: ModerationOptions = {}): ModerationResult {
+    const original = text.trim();
+    const blocklist = [...ENV_BLOCKLIST, ...(options.blocklist ?? [])];
+    const allowlist = options.allowlist ?? [];
+    const redactionRules = options.redactionRules ?? [];
+
+    const stages: Array<[ModerationReason, (input: string) => string]> = [
+      ['html_stripped', stripHtml],
+      ['profanity_filtered', options.profanity === false ? input => input : input => withAllowed(input, allowlist, filterProfanity)],
+      ['pii_removed', input => applyRedactionRules(redactPii(input), redactionRules)],
+      ['blocklisted', input => withAllowed(input, allowlist, text => applyBlocklist(text, blocklist))],
+    ];
+
+    const reasons: ModerationReason[] = [];
+    const processed = stages.reduce((current, [reason, stage]) => {
+      const next = stage(current);
+      if (next !== current) {
+        reasons.push(reason);
+      }
+      return next;
+    }, original);
+
+    return {
+      original,
+      processed,
+      moderated: reasons.length > 0,
+      reasons,
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { db } from '../db';
+import { organizations, sessions } from '../db/schema';
+import { eq, and, or, isNull, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { AuthService } from './authService';
+import type { SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import type { Organization } from '../db/schema';
+
+// What clients see of an organization; never the key hash
+export type OrganizationSummary = Pick<Organization, 'id' | 'name' | 'slug'>;
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export class OrganizationSignInError extends Error {
+  constructor() {
+    super('Unknown organization or access key');
+    this.name = 'OrganizationSignInError';
+  }
+}
+
+export class OrganizationNotFoundError extends Error {
+  constructor() {
+    super('Organization not found');
+    this.name = 'OrganizationNotFoundError';
+  }
+}
+
+// Whose library rows a caller reads and changes: an organization, or else a
+// signed-in account. Both are null for anonymous facilitators.
+export interface LibraryOwner {
+  organizationId: string | null;
+  facilitatorId: string | null;
+}
+
+// Tables whose rows belong to an organization or a facilitator account
+interface OwnedColumns {
+  organizationId: AnyPgColumn;
+  facilitatorId: AnyPgColumn;
+}
+
+/**
+ * The owner for a facilitator: their organization when they work in one,
+ * otherwise their own account
+ */
+export function libraryOwner(organizationId: string | null, facilitatorId: string | null): LibraryOwner {
+  return organizationId ? { organizationId, facilitatorId: null } : { organizationId: null, facilitatorId };
+}
+
+/**
+ * Rows an owner may change. The shared library (both columns null) belongs
+ * to nobody, so it is only ever written by seeding, never through the API.
+ */
+export function ownedBy(table: OwnedColumns, owner: LibraryOwner): SQL {
+  if (owner.organizationId) {
+    return eq(table.organizationId, owner.organizationId);
+  }
+  if (owner.facilitatorId) {
+    return and(isNull(table.organizationId), eq(table.facilitatorId, owner.facilitatorId))!;
+  }
+  return sql`false`;
+}
+
+/**
+ * Rows an owner may read: the shared library and its own
+ */
+export function visibleTo(table: OwnedColumns, owner: LibraryOwner): SQL {
+  return or(and(isNull(table.organizationId), isNull(table.facilitatorId)), ownedBy(table, owner))!;
+}
+
+export class OrganizationService {
+  static toSummary(organization: Organization): OrganizationSummary {
+    return { id: organization.id, name: organization.name, slug: organization.slug };
+  }
+
+  /**
+   * Whose library a session draws on: its organization's, or else the
+   * account that opened it
+   */
+  static async getSessionLibraryOwner(sessionId: string): Promise<LibraryOwner> {
+    const [session] = await db
+      .select({ organizationId: sessions.organizationId, facilitatorId: sessions.facilitatorId })
+      .from(sessions)
+      .where(eq(sessions.id, sessionId));
+
+    return libraryOwner(session?.organizationId ?? null, session?.facilitatorId ?? null);
+  }
+
+  static async getOrganization(organizationId: string): Promise<OrganizationSummary> {
+    const [row] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, organizationId));
+
+    if (!row) {
+      throw new OrganizationNotFoundError();
+    }
+    return this.toSummary(row);
+  }
+
+  /**
+   * Create an organization with a fresh access key. The key is only ever
+   * returned here; the database keeps its hash.
+   */
+  static async createOrganization(name: string, slug: string) {
+    try {
+      if (!SLUG_PATTERN.test(slug)) {
+        throw new Error('Slug must be lowercase letters, digits and single hyphens');
+      }
+
+      const accessKey = nanoid(32);
+      const [row] = await db
+        .insert(organizations)
+        .values({ name, slug, accessKeyHash: await AuthService.hashSecret(accessKey) })
+        .returning();
+
+      return { data: { organization: this.toSummary(row), accessKey }, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Exchange an organization's slug and access key for a workspace token.
+   * Unknown slugs and wrong keys fail the same way.
+   */
+  static async signIn(slug: string, accessKey: string) {
+    try {
+      const [row] = await db
+        .select()
+        .from(organizations)
+        .where(eq(organizations.slug, slug));
+
+      if (!row || !(await AuthService.verifySecret(accessKey, row.accessKeyHash))) {
+        throw new OrganizationSignInError();
+      }
+
+      const token = AuthService.generateWorkspaceToken(row.id);
+      return { data: { organization: this.toSummary(row), token }, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+}
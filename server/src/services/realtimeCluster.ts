@@ -0,0 +1,501 @@
+import { randomUUID } from 'crypto';
+import { Server as SocketServer } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis from 'ioredis';
+import type { ClientToServerEvents, ServerToClientEvents } from '../../../shared/contracts';
+
+// Connection attempts are counted per hour, and too many block the IP for a day
+const ATTEMPT_WINDOW_SECONDS = 3600;
+const BLOCK_SECONDS = 86400;
+
+// How often instances look for voting deadlines their owner never closed, and how overdue one must be
+const TAKEOVER_INTERVAL_MS = 5000;
+const TAKEOVER_GRACE_MS = 5000;
+
+// Instances only talk through the adapter, never with events of their own
+export type InterServerEvents = Record<string, never>;
+
+// A socket.io server speaking the realtime contract, whatever it keeps per socket
+export type RealtimeServer<SocketData = unknown> =
+  SocketServer<ClientToServerEvents<Date>, ServerToClientEvents<Date>, InterServerEvents, SocketData>;
+
+// A running countdown or voting deadline; only the instance that owns it acts on it
+export interface TimerEntry {
+  owner: string;
+  // Epoch milliseconds
+  deadline: number;
+}
+
+export interface DueDeadline {
+  sessionId: string;
+  entry: TimerEntry;
+}
+
+/**
+ * State every instance serving a room has to agree on. Socket.io rooms are
+ * shared through the adapter; timers, voting deadlines and IP blocks are
+ * kept here.
+ */
+export interface RealtimeStore {
+  // Attempts from the IP in the current window, this one included
+  recordConnectionAttempt(ip: string): Promise<number>;
+  isBlocked(ip: string): Promise<boolean>;
+  block(ip: string): Promise<void>;
+  setTimer(sessionId: string, scenarioId: string, entry: TimerEntry): Promise<void>;
+  getTimer(sessionId: string, scenarioId: string): Promise<TimerEntry | null>;
+  clearTimer(sessionId: string, scenarioId: string): Promise<void>;
+  clearSessionTimers(sessionId: string): Promise<void>;
+  setDeadline(sessionId: string, entry: TimerEntry): Promise<void>;
+  getDeadline(sessionId: string): Promise<TimerEntry | null>;
+  clearDeadline(sessionId: string): Promise<void>;
+  // Remove the deadline if it is still this entry; true for the one caller that did
+  claimDeadline(sessionId: string, entry: TimerEntry): Promise<boolean>;
+  // Deadlines that passed at or before the given epoch milliseconds
+  getDueDeadlines(before: number): Promise<DueDeadline[]>;
+}
+
+/**
+ * Single instance store, used when REDIS_URL is not set
+ */
+export class MemoryRealtimeStore implements RealtimeStore {
+  private attempts: Map<string, { count: number; resetAt: number }> = new Map();
+  private blockedUntil: Map<string, number> = new Map();
+  private timers: Map<string, Map<string, TimerEntry>> = new Map();
+  private deadlines: Map<string, TimerEntry> = new Map();
+  private nextSweep = 0;
+
+  async recordConnectionAttempt(ip: string): Promise<number> {
+    const now = Date.now();
+    this.sweep(now);
+    const current = this.attempts.get(ip);
+    if (!current || current.resetAt <= now) {
+      this.attempts.set(ip, { count: 1, resetAt: now + ATTEMPT_WINDOW_SECONDS * 1000 });
+      return 1;
+    }
+    current.count++;
+    return current.count;
+  }
+
+  async isBlocked(ip: string): Promise<boolean> {
+    const until = this.blockedUntil.get(ip);
+    if (until === undefined) {
+      return false;
+    }
+    if (until <= Date.now()) {
+      this.blockedUntil.delete(ip);
+      return false;
+    }
+    return true;
+  }
+
+  async block(ip: string): Promise<void> {
+    this.blockedUntil.set(ip, Date.now() + BLOCK_SECONDS * 1000);
+  }
+
+  async setTimer(sessionId: string, scenarioId: string, entry: TimerEntry): Promise<void> {
+    const sessionTimers = this.timers.get(sessionId) ?? new Map<string, TimerEntry>();
+    sessionTimers.set(scenarioId, entry);
+    this.timers.set(sessionId, sessionTimers);
+  }
+
+  async getTimer(sessionId: string, scenarioId: string): Promise<TimerEntry | null> {
+    return this.timers.get(sessionId)?.get(scenarioId) ?? null;
+  }
+
+  async clearTimer(sessionId: string, scenarioId: string): Promise<void> {
+    this.timers.get(sessionId)?.delete(scenarioId);
+  }
+
+  async clearSessionTimers(sessionId: string): Promise<void> {
+    this.timers.delete(sessionId);
+  }
+
+  async setDeadline(sessionId: string, entry: TimerEntry): Promise<void> {
+    this.deadlines.set(sessionId, entry);
+  }
+
+  async getDeadline(sessionId: string): Promise<TimerEntry | null> {
+    return this.deadlines.get(sessionId) ?? null;
+  }
+
+  async clearDeadline(sessionId: string): Promise<void> {
+    this.deadlines.delete(sessionId);
+  }
+
+  async claimDeadline(sessionId: string, entry: TimerEntry): Promise<boolean> {
+    const current = this.deadlines.get(sessionId);
+    if (!current || !sameEntry(current, entry)) {
+      return false;
+    }
+    this.deadlines.delete(sessionId);
+    return true;
+  }
+
+  async getDueDeadlines(before: number): Promise<DueDeadline[]> {
+    return [...this.deadlines]
+      .filter(([, entry]) => entry.deadline <= before)
+      .map(([sessionId, entry]) => ({ sessionId, entry }));
+  }
+
+  // Forget IPs whose window or block has run out, at most once per window
+  private sweep(now: number) {
+    if (now < this.nextSweep) {
+      return;
+    }
+    this.nextSweep = now + ATTEMPT_WINDOW_SECONDS * 1000;
+
+    this.attempts.forEach((attempt, ip) => {
+      if (attempt.resetAt <= now) {
+        this.attempts.delete(ip);
+      }
+    });
+    this.blockedUntil.forEach((until, ip) => {
+      if (until <= now) {
+        this.blockedUntil.delete(ip);
+      }
+    });
+  }
+}
+
+/**
+ * Store shared by every instance connected to the same Redis. Keys expire
+ * on their own, so no instance has to sweep them.
+ */
+export class RedisRealtimeStore implements RealtimeStore {
+  constructor(private redis: Redis, private prefix = 'rt') {}
+
+  // The window opens with its expiry in one transaction, so no counter outlives it
+  async recordConnectionAttempt(ip: string): Promise<number> {
+    const key = `${this.prefix}:attempts:${ip}`;
+    const results = await this.redis
+      .multi()
+      .set(key, 0, 'EX', ATTEMPT_WINDOW_SECONDS, 'NX')
+      .incr(key)
+      .exec();
+
+    const [error, count] = results?.[1] ?? [new Error('Connection attempt was not counted'), 0];
+    if (error) {
+      throw error;
+    }
+    return Number(count);
+  }
+
+  async isBlocked(ip: string): Promise<boolean> {
+    return (await this.redis.exists(`${this.prefix}:blocked:${ip}`)) === 1;
+  }
+
+  async block(ip: string): Promise<void> {
+    await this.redis.set(`${this.prefix}:blocked:${ip}`, '1', 'EX', BLOCK_SECONDS);
+  }
+
+  async setTimer(sessionId: string, scenarioId: string, entry: TimerEntry): Promise<void> {
+    const key = this.timerKey(sessionId);
+    await this.redis.hset(key, scenarioId, JSON.stringify(entry));
+    // Outlive the countdown so a crashed owner doesn't leave the hash behind forever
+    await this.redis.pexpire(key, Math.max(0, entry.deadline - Date.now()) + 60000);
+  }
+
+  async getTimer(sessionId: string, scenarioId: string): Promise<TimerEntry | null> {
+    const value = await this.redis.hget(this.timerKey(sessionId), scenarioId);
+    return value ? (JSON.parse(value) as TimerEntry) : null;
+  }
+
+  async clearTimer(sessionId: string, scenarioId: string): Promise<void> {
+    await this.redis.hdel(this.timerKey(sessionId), scenarioId);
+  }
+
+  async clearSessionTimers(sessionId: string): Promise<void> {
+    await this.redis.del(this.timerKey(sessionId));
+  }
+
+  // Deadlines are also indexed by time, so any instance can find overdue ones
+  async setDeadline(sessionId: string, entry: TimerEntry): Promise<void> {
+    const previous = await this.getDeadline(sessionId);
+    const ttl = Math.max(0, entry.deadline - Date.now()) + 60000;
+    const transaction = this.redis
+      .multi()
+      .set(this.deadlineKey(sessionId), JSON.stringify(entry), 'PX', ttl)
+      .zadd(this.deadlineIndexKey(), entry.deadline, deadlineMember(sessionId, entry));
+    if (previous && !sameEntry(previous, entry)) {
+      transaction.zrem(this.deadlineIndexKey(), deadlineMember(sessionId, previous));
+    }
+    await transaction.exec();
+  }
+
+  async getDeadline(sessionId: string): Promise<TimerEntry | null> {
+    const value = await this.redis.get(this.deadlineKey(sessionId));
+    return value ? (JSON.parse(value) as TimerEntry) : null;
+  }
+
+  async clearDeadline(sessionId: string): Promise<void> {
+    const previous = await this.getDeadline(sessionId);
+    const transaction = this.redis.multi().del(this.deadlineKey(sessionId));
+    if (previous) {
+      transaction.zrem(this.deadlineIndexKey(), deadlineMember(sessionId, previous));
+    }
+    await transaction.exec();
+  }
+
+  // Removing the entry from the index is the claim: Redis lets only one caller do it
+  async claimDeadline(sessionId: string, entry: TimerEntry): Promise<boolean> {
+    const removed = await this.redis.zrem(this.deadlineIndexKey(), deadlineMember(sessionId, entry));
+    if (removed !== 1) {
+      return false;
+    }
+
+    const current = await this.getDeadline(sessionId);
+    if (current && sameEntry(current, entry)) {
+      await this.redis.del(this.deadlineKey(sessionId));
+    }
+    return true;
+  }
+
+  async getDueDeadlines(before: number): Promise<DueDeadline[]> {
+    const members = await this.redis.zrangebyscore(this.deadlineIndexKey(), '-inf', before);
+    return members.map(member => {
+      const { sessionId, owner, deadline } = JSON.parse(member) as TimerEntry & { sessionId: string };
+      return { sessionId, entry: { owner, deadline } };
+    });
+  }
+
+  private timerKey(sessionId: string): string {
+    return `${this.prefix}:timers:${sessionId}`;
+  }
+
+  private deadlineKey(sessionId: string): string {
+    return `${this.prefix}:deadline:${sessionId}`;
+  }
+
+  private deadlineIndexKey(): string {
+    return `${this.prefix}:deadlines`;
+  }
+}
+
+function sameEntry(a: TimerEntry, b: TimerEntry): boolean {
+  return a.owner === b.owner && a.deadline === b.deadline;
+}
+
+// One deadline in the index; a replaced deadline gets a new member, so stale claims miss
+function deadlineMember(sessionId: string, entry: TimerEntry): string {
+  return JSON.stringify({ sessionId, owner: entry.owner, deadline: entry.deadline });
+}
+
+/**
+ * Countdowns for scenario timers. The instance that starts a timer ticks
+ * it; any instance can stop it by clearing the store, and the owner notices
+ * on its next tick.
+ */
+export class SessionTimers {
+  private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private owner = randomUUID();
+
+  constructor(private store: RealtimeStore) {}
+
+  async start(
+    sessionId: string,
+    scenarioId: string,
+    duration: number,
+    onTick: (secondsRemaining: number) => void
+  ): Promise<void> {
+    const key = `${sessionId}-${scenarioId}`;
+    this.stop(key);
+
+    const entry: TimerEntry = { owner: this.owner, deadline: Date.now() + duration * 1000 };
+    await this.store.setTimer(sessionId, scenarioId, entry);
+
+    const interval = setInterval(async () => {
+      try {
+        const current = await this.store.getTimer(sessionId, scenarioId);
+        // Cleared, or restarted here or on another instance
+        if (!current || current.owner !== entry.owner || current.deadline !== entry.deadline) {
+          this.stop(key, interval);
+          return;
+        }
+
+        const secondsRemaining = Math.max(0, Math.round((entry.deadline - Date.now()) / 1000));
+        onTick(secondsRemaining);
+
+        if (secondsRemaining <= 0) {
+          this.stop(key, interval);
+          await this.store.clearTimer(sessionId, scenarioId);
+        }
+      } catch (error) {
+        console.error(`Timer tick failed for session ${sessionId}:`, error);
+      }
+    }, 1000);
+
+    this.intervals.set(key, interval);
+  }
+
+  async clearSession(sessionId: string): Promise<void> {
+    this.intervals.forEach((_, key) => {
+      if (key.startsWith(sessionId)) {
+        this.stop(key);
+      }
+    });
+    await this.store.clearSessionTimers(sessionId);
+  }
+
+  // Stop ticking locally; other instances' timers are left alone
+  stopAll() {
+    this.intervals.forEach(interval => clearInterval(interval));
+    this.intervals.clear();
+  }
+
+  private stop(key: string, interval = this.intervals.get(key)) {
+    if (!interval) {
+      return;
+    }
+    clearInterval(interval);
+    if (this.intervals.get(key) === interval) {
+      this.intervals.delete(key);
+    }
+  }
+}
+
+/**
+ * Voting deadlines. The instance that opens voting closes it when the
+ * deadline passes, unless any instance has since moved the session on,
+ * which replaces or clears the deadline in the store. Should the owner go
+ * away first, an instance watching for overdue deadlines closes it instead.
+ */
+export class VotingDeadlines {
+  private timeouts: Map<string, NodeJS.Timeout> = new Map();
+  private sweeper: NodeJS.Timeout | null = null;
+  private owner = randomUUID();
+
+  constructor(private store: RealtimeStore) {}
+
+  async schedule(sessionId: string, deadline: Date, onDeadline: () => void): Promise<void> {
+    this.stop(sessionId);
+
+    const entry: TimerEntry = { owner: this.owner, deadline: deadline.getTime() };
+    await this.store.setDeadline(sessionId, entry);
+
+    const timeout = setTimeout(async () => {
+      this.stop(sessionId, timeout);
+      try {
+        // Cleared, replaced, or already closed by an instance taking over
+        if (await this.store.claimDeadline(sessionId, entry)) {
+          onDeadline();
+        }
+      } catch (error) {
+        console.error(`Voting deadline failed for session ${sessionId}:`, error);
+      }
+    }, Math.max(0, entry.deadline - Date.now()));
+
+    this.timeouts.set(sessionId, timeout);
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    this.stop(sessionId);
+    await this.store.clearDeadline(sessionId);
+  }
+
+  /**
+   * Close deadlines still in the store a grace period after they passed,
+   * whichever instance set them. The store's claim makes sure only one
+   * instance closes each.
+   */
+  takeOver(
+    onDeadline: (sessionId: string) => void,
+    intervalMs = TAKEOVER_INTERVAL_MS,
+    graceMs = TAKEOVER_GRACE_MS
+  ) {
+    this.stopTakeOver();
+    this.sweeper = setInterval(async () => {
+      try {
+        const due = await this.store.getDueDeadlines(Date.now() - graceMs);
+        for (const { sessionId, entry } of due) {
+          if (await this.store.claimDeadline(sessionId, entry)) {
+            onDeadline(sessionId);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to take over overdue voting deadlines:', error);
+      }
+    }, intervalMs);
+  }
+
+  // Stop waiting locally; deadlines other instances own are left alone
+  stopAll() {
+    this.timeouts.forEach(timeout => clearTimeout(timeout));
+    this.timeouts.clear();
+    this.stopTakeOver();
+  }
+
+  private stopTakeOver() {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+  }
+
+  private stop(sessionId: string, timeout = this.timeouts.get(sessionId)) {
+    if (!timeout) {
+      return;
+    }
+    clearTimeout(timeout);
+    if (this.timeouts.get(sessionId) === timeout) {
+      this.timeouts.delete(sessionId);
+    }
+  }
+}
+
+export interface RealtimeCluster {
+  store: RealtimeStore;
+  timers: SessionTimers;
+  deadlines: VotingDeadlines;
+  // Whether rooms are shared with other instances through Redis
+  shared: boolean;
+  close(): Promise<void>;
+}
+
+/**
+ * Share rooms, timers, voting deadlines and IP blocks with every instance
+ * using the same Redis. Without REDIS_URL the server runs alone and keeps
+ * them in memory.
+ */
+export function joinCluster<SocketData>(io: RealtimeServer<SocketData>, redisUrl = process.env.REDIS_URL): RealtimeCluster {
+  if (!redisUrl) {
+    const store = new MemoryRealtimeStore();
+    const timers = new SessionTimers(store);
+    const deadlines = new VotingDeadlines(store);
+    return {
+      store,
+      timers,
+      deadlines,
+      shared: false,
+      close: async () => {
+        timers.stopAll();
+        deadlines.stopAll();
+      },
+    };
+  }
+
+  const pubClient = new Redis(redisUrl);
+  // Subscribed connections can't run other commands, hence a second client
+  const subClient = pubClient.duplicate();
+  for (const client of [pubClient, subClient]) {
+    client.on('error', (err) => {
+      console.error('Realtime Redis error:', err);
+    });
+  }
+
+  io.adapter(createAdapter(pubClient, subClient));
+
+  const store = new RedisRealtimeStore(pubClient);
+  const timers = new SessionTimers(store);
+  const deadlines = new VotingDeadlines(store);
+  return {
+    store,
+    timers,
+    deadlines,
+    shared: true,
+    close: async () => {
+      timers.stopAll();
+      deadlines.stopAll();
+      await Promise.all([pubClient.quit(), subClient.quit()]);
+    },
+  };
+}
@@ -1,66 +1,40 @@
-import { Server as SocketServer, Socket } from 'socket.io';
+import { Server as SocketServer, Socket as SocketIoSocket } from 'socket.io';
 import { Server } from 'http';
 import { RoomService } from './roomService';
+import { AuthService, TokenPayload } from './authService';
+import { GamePhaseService, PhaseState } from './gamePhaseService';
+import { EventLogService } from './eventLogService';
+import type { LoggedEvent } from './eventLogService';
+import { joinCluster, RealtimeCluster } from './realtimeCluster';
+import type { InterServerEvents, RealtimeServer } from './realtimeCluster';
+import { validateEvent, rejectMessage, getValidationMode } from '../utils/eventContracts';
+import type {
+  RealtimeEvents as RealtimeEventMap,
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from '../../../shared/contracts';
 
-export interface RealtimeEvents {
-  participant_joined: {
-    participant_id: string;
-    room_code: string;
-    active_count: number;
-  };
-  participant_left: {
-    participant_id: string;
-    room_code: string;
-    active_count: number;
-  };
-  vote_cast: {
-    session_id: string;
-    scenario_id: string;
-    vote: 'pull' | 'dont_pull';
-    total_votes: number;
-    pull_votes: number;
-    dont_pull_votes: number;
-  };
-  rationale_added: {
-    session_id: string;
-    scenario_id: string;
-    vote: 'pull' | 'dont_pull';
-    rationale: string;
-    participant_id: string;
-  };
-  timer_started: {
-    session_id: string;
-    scenario_id: string;
-    duration: number;
-    start_time: string;
-  };
-  timer_tick: {
-    session_id: string;
-    scenario_id: string;
-    seconds_remaining: number;
-  };
-  scenario_started: {
-    session_id: string;
-    scenario_id: string;
-    scenario_title: string;
-  };
-  session_ended: {
-    session_id: string;
-    room_code: string;
-  };
-  decision_announced: {
-    session_id: string;
-    scenario_id: string;
-    decision: 'ai_track' | 'non_ai_track' | 'tie';
-    pull_count: number;
-    dont_pull_count: number;
-    total_votes: number;
-  };
+// Server-side payloads carry Date objects until socket.io serializes them
+export type RealtimeEvents = RealtimeEventMap<Date>;
+
+// Room-wide events; sync_state and error only ever go to one socket
+type RoomEvent = Exclude<keyof RealtimeEvents, 'sync_state' | 'error'>;
+
+// What a socket has proven in its handshake and which room it joined
+interface SocketData {
+  auth?: TokenPayload;
+  sessionId?: string;
+  participantId?: string;
+  roomCode?: string;
 }
 
+type Socket = SocketIoSocket<ClientToServerEvents<Date>, ServerToClientEvents<Date>, InterServerEvents, SocketData>;
+
 export class RealtimeService {
-  private io: SocketServer;
-  private sessionTimers: Map<string, NodeJS.Timeout> = new Map();
+  private io: RealtimeServer<SocketData>;
+  // Rooms, scenario timers and voting deadlines, shared with other instances when REDIS_URL is set
+  private cluster: RealtimeCluster;
+  private validationMode = getValidationMode();
 
   constructor(server: Server) {
     this.io = new SocketServer(server, {
@@ -70,131 +44,200 @@ export class RealtimeService {
         credentials: true,
       },
     });
+    this.cluster = joinCluster(this.io);
+    // Close voting for sessions whose deadline was set by an instance that has since gone
+    this.cluster.deadlines.takeOver(sessionId => this.closeVoting(sessionId));
 
     this.setupHandlers();
   }
 
   private setupHandlers() {
+    // Sockets identify with a participant or facilitator token; projectors may
+    // connect without one but can't join a room
+    this.io.use((socket, next) => {
+      const token = socket.handshake.auth?.token;
+      if (!token) {
+        return next();
+      }
+      try {
+        socket.data.auth = AuthService.verifyToken(token);
+        next();
+      } catch (error) {
+        next(error as Error);
+      }
+    });
+
     this.io.on('connection', (socket: Socket) => {
       console.log(`Client connected: ${socket.id}`);
 
-      socket.on('join_room', async (data: { sessionId: string; participantId: string }) => {
+      // Refuse any message that breaks its contract in events.schema.json
+      socket.use(([event, ...args], next) => {
+        const payload = typeof args[0] === 'function' ? undefined : args[0];
+        const errors = validateEvent('inbound', event, payload ?? {});
+        if (errors.length > 0) {
+          console.warn(`Refused ${event} from ${socket.id}:`, errors);
+          this.refuse(socket, rejectMessage(event, errors));
+          return;
+        }
+        next();
+      });
+
+      socket.on('join_room', async (data) => {
         const { sessionId, participantId } = data;
+        const { auth } = socket.data;
+
+        // Only the session's own tokens get in, and participants only as themselves
+        const allowed = !!auth && auth.sessionId === sessionId && (
+          participantId
+            ? auth.role !== 'facilitator' && auth.participantId === participantId
+            : true
+        );
+        if (!allowed) {
+          this.deny(socket, 'join_room', 'Join with a token issued for this session');
+          return;
+        }
         
         // Join the room
         socket.join(`room:${sessionId}`);
         socket.data.sessionId = sessionId;
         socket.data.participantId = participantId;
 
-        // Get room status
-        const activeCount = await RoomService.getActiveParticipantCount(sessionId);
-        
-        // Broadcast participant joined event
-        this.io.to(`room:${sessionId}`).emit('participant_joined', {
-          participant_id: participantId,
-          room_code: sessionId,
-          active_count: activeCount,
-        });
-      });
+        // Facilitator and projector views watch the room without counting as participants
+        if (!participantId) {
+          return;
+        }
 
-      socket.on('leave_room', async () => {
-        const { sessionId, participantId } = socket.data;
-        if (sessionId && participantId) {
-          socket.leave(`room:${sessionId}`);
-          
+        try {
+          const roomCode = await RoomService.getRoomCode(sessionId);
+          if (!roomCode) {
+            return;
+          }
+          socket.data.roomCode = roomCode;
+
+          // Get room status
           const activeCount = await RoomService.getActiveParticipantCount(sessionId);
           
-          // Broadcast participant left event
-          this.io.to(`room:${sessionId}`).emit('participant_left', {
+          // Broadcast participant joined event
+          this.emitToRoom(sessionId, 'participant_joined', {
             participant_id: participantId,
-            room_code: sessionId,
+            room_code: roomCode,
             active_count: activeCount,
           });
+        } catch (error) {
+          this.fail(socket, 'join_room', `Failed to announce participant ${participantId} in session ${sessionId}`, error);
         }
       });
 
-      socket.on('start_timer', (data: { sessionId: string; scenarioId: string; duration: number }) => {
-        const { sessionId, scenarioId, duration } = data;
-        
-        // Clear any existing timer
-        const existingTimer = this.sessionTimers.get(`${sessionId}-${scenarioId}`);
-        if (existingTimer) {
-          clearInterval(existingTimer);
+      // Reconnecting clients ask for the full session state instead of replaying missed events.
+      // The room and participant come from the join, never from the request
+      socket.on('sync_state', async (_data, ack) => {
+        const { sessionId, participantId } = socket.data;
+        if (!sessionId || typeof ack !== 'function') {
+          return;
+        }
+
+        const result = await RoomService.getSessionSnapshot(sessionId, participantId);
+        if (result.data && !this.conforms('sync_state', result.data)) {
+          ack({ snapshot: null, error: 'Session state failed validation' });
+          return;
         }
+        ack({
+          snapshot: result.data,
+          error: result.error ? result.error.message : null,
+        });
+      });
 
-        // Start new timer
-        let secondsRemaining = duration;
+      socket.on('leave_room', async () => {
+        const { sessionId, participantId, roomCode } = socket.data;
+        if (sessionId && participantId && roomCode) {
+          socket.leave(`room:${sessionId}`);
+          
+          try {
+            const activeCount = await RoomService.getActiveParticipantCount(sessionId);
+            
+            // Broadcast participant left event
+            this.emitToRoom(sessionId, 'participant_left', {
+              participant_id: participantId,
+              room_code: roomCode,
+              active_count: activeCount,
+            });
+          } catch (error) {
+            this.fail(socket, 'leave_room', `Failed to announce participant ${participantId} leaving session ${sessionId}`, error);
+          }
+        }
+      });
+
+      socket.on('start_timer', async (data) => {
+        const { sessionId, scenarioId, duration } = data;
+        if (!(await this.authorizeFacilitator(socket, 'start_timer', sessionId))) {
+          return;
+        }
         const startTime = new Date().toISOString();
 
         // Emit timer started event
-        this.io.to(`room:${sessionId}`).emit('timer_started', {
+        this.broadcast(sessionId, 'timer_started', {
           session_id: sessionId,
           scenario_id: scenarioId,
           duration,
           start_time: startTime,
         });
 
-        // Start countdown
-        const timer = setInterval(() => {
-          secondsRemaining--;
-          
-          this.io.to(`room:${sessionId}`).emit('timer_tick', {
-            session_id: sessionId,
-            scenario_id: scenarioId,
-            seconds_remaining: secondsRemaining,
+        // Start countdown, replacing any running one for the scenario
+        try {
+          await this.cluster.timers.start(sessionId, scenarioId, duration, (secondsRemaining) => {
+            this.emitToRoom(sessionId, 'timer_tick', {
+              session_id: sessionId,
+              scenario_id: scenarioId,
+              seconds_remaining: secondsRemaining,
+            });
           });
-
-          if (secondsRemaining <= 0) {
-            clearInterval(timer);
-            this.sessionTimers.delete(`${sessionId}-${scenarioId}`);
-          }
-        }, 1000);
-
-        this.sessionTimers.set(`${sessionId}-${scenarioId}`, timer);
+        } catch (error) {
+          console.error(`Failed to start timer for session ${sessionId}:`, error);
+        }
       });
 
-      socket.on('start_scenario', (data: { sessionId: string; scenarioId: string; scenarioTitle: string }) => {
+      socket.on('start_scenario', async (data) => {
         const { sessionId, scenarioId, scenarioTitle } = data;
+        if (!(await this.authorizeFacilitator(socket, 'start_scenario', sessionId))) {
+          return;
+        }
         
-        this.io.to(`room:${sessionId}`).emit('scenario_started', {
+        this.broadcast(sessionId, 'scenario_started', {
           session_id: sessionId,
           scenario_id: scenarioId,
           scenario_title: scenarioTitle,
         });
       });
 
-      socket.on('announce_decision', (data: {
-        sessionId: string;
-        scenarioId: string;
-        decision: 'ai_track' | 'non_ai_track' | 'tie';
-        pullCount: number;
-        dontPullCount: number;
-        totalVotes: number;
-      }) => {
-        const { sessionId, scenarioId, decision, pullCount, dontPullCount, totalVotes } = data;
+      socket.on('announce_decision', async (data) => {
+        const { sessionId, scenarioId, decision, trackVotes, totalVotes } = data;
+        if (!(await this.authorizeFacilitator(socket, 'announce_decision', sessionId))) {
+          return;
+        }
         
-        this.io.to(`room:${sessionId}`).emit('decision_announced', {
+        this.broadcast(sessionId, 'decision_announced', {
           session_id: sessionId,
           scenario_id: scenarioId,
           decision,
-          pull_count: pullCount,
-          dont_pull_count: dontPullCount,
+          track_votes: trackVotes,
           total_votes: totalVotes,
         });
       });
 
-      socket.on('end_session', (data: { sessionId: string; roomCode: string }) => {
+      socket.on('end_session', async (data) => {
         const { sessionId, roomCode } = data;
+        if (!(await this.authorizeFacilitator(socket, 'end_session', sessionId))) {
+          return;
+        }
         
-        // Clear any timers for this session
-        this.sessionTimers.forEach((timer, key) => {
-          if (key.startsWith(sessionId)) {
-            clearInterval(timer);
-            this.sessionTimers.delete(key);
-          }
-        });
+        // Clear any timers for this session, whichever instance runs them
+        try {
+          await this.cluster.timers.clearSession(sessionId);
+        } catch (error) {
+          console.error(`Failed to clear timers for session ${sessionId}:`, error);
+        }
 
-        this.io.to(`room:${sessionId}`).emit('session_ended', {
+        this.broadcast(sessionId, 'session_ended', {
           session_id: sessionId,
           room_code: roomCode,
         });
@@ -203,26 +246,152 @@ export class RealtimeService {
       socket.on('disconnect', async () => {
         console.log(`Client disconnected: ${socket.id}`);
         
-        const { sessionId, participantId } = socket.data;
-        if (sessionId && participantId) {
-          const activeCount = await RoomService.getActiveParticipantCount(sessionId);
-          
-          // Broadcast participant left event
-          this.io.to(`room:${sessionId}`).emit('participant_left', {
-            participant_id: participantId,
-            room_code: sessionId,
-            active_count: activeCount,
-          });
+        const { sessionId, participantId, roomCode } = socket.data;
+        if (sessionId && participantId && roomCode) {
+          try {
+            const activeCount = await RoomService.getActiveParticipantCount(sessionId);
+            
+            // Broadcast participant left event
+            this.emitToRoom(sessionId, 'participant_left', {
+              participant_id: participantId,
+              room_code: roomCode,
+              active_count: activeCount,
+            });
+          } catch (error) {
+            // The socket is gone, so there is no one to tell
+            console.error(`Failed to announce participant ${participantId} leaving session ${sessionId}:`, error);
+          }
         }
       });
     });
   }
 
+  /**
+   * Whether an outgoing payload may be sent. Payloads that break their
+   * contract are always logged; strict mode also withholds them.
+   */
+  private conforms(event: keyof RealtimeEvents, data: unknown): boolean {
+    const errors = validateEvent('outbound', event, data);
+    if (errors.length === 0) {
+      return true;
+    }
+    console.error(`Outgoing ${event} does not match events.schema.json:`, errors);
+    return this.validationMode !== 'strict';
+  }
+
+  private refuse(socket: Socket, rejection: RealtimeEvents['error']) {
+    if (this.conforms('error', rejection)) {
+      socket.emit('error', rejection);
+    }
+  }
+
+  private deny(socket: Socket, event: string, message: string) {
+    this.refuse(socket, { code: 'unauthorized', event, message, errors: [] });
+  }
+
+  // Log a failed handler and let the socket know, without the details
+  private fail(socket: Socket, event: string, context: string, error: unknown) {
+    console.error(`${context}:`, error);
+    this.refuse(socket, { code: 'server_error', event, message: 'Something went wrong on the server', errors: [] });
+  }
+
+  /**
+   * Whether the socket's token belongs to the facilitator who owns the
+   * session. Everyone else is refused, so forged control events never
+   * reach the room or its event log.
+   */
+  private async authorizeFacilitator(socket: Socket, event: string, sessionId: string): Promise<boolean> {
+    const { auth } = socket.data;
+    let allowed = false;
+    if (auth && AuthService.isFacilitatorToken(auth, sessionId)) {
+      try {
+        allowed = await RoomService.isSessionFacilitator(sessionId, auth.participantId);
+      } catch (error) {
+        console.error(`Failed to check the facilitator of session ${sessionId}:`, error);
+      }
+    }
+
+    if (!allowed) {
+      this.deny(socket, event, 'Only the session facilitator can perform this action');
+    }
+    return allowed;
+  }
+
+  private emitToRoom<E extends RoomEvent>(sessionId: string, event: E, data: RealtimeEvents[E]): boolean {
+    if (!this.conforms(event, data)) {
+      return false;
+    }
+    // socket.io can't narrow its listener map through the generic, hence the spread
+    this.io.to(`room:${sessionId}`).emit(event, ...([data] as Parameters<ServerToClientEvents<Date>[E]>));
+    return true;
+  }
+
+  /**
+   * Send an event to everyone in the room and append it to the session's
+   * log for replays
+   */
+  private broadcast<E extends LoggedEvent>(sessionId: string, event: E, data: RealtimeEvents[E]) {
+    if (this.emitToRoom(sessionId, event, data)) {
+      void EventLogService.append(sessionId, event, data);
+    }
+  }
+
   public broadcastVoteCast(sessionId: string, data: RealtimeEvents['vote_cast']) {
-    this.io.to(`room:${sessionId}`).emit('vote_cast', data);
+    this.broadcast(sessionId, 'vote_cast', data);
   }
 
   public broadcastRationaleAdded(sessionId: string, data: RealtimeEvents['rationale_added']) {
-    this.io.to(`room:${sessionId}`).emit('rationale_added', data);
+    this.broadcast(sessionId, 'rationale_added', data);
+  }
+
+  public broadcastModerationQueueUpdated(sessionId: string, data: RealtimeEvents['moderation_queue_updated']) {
+    this.broadcast(sessionId, 'moderation_queue_updated', data);
+  }
+
+  /**
+   * Broadcast the canonical phase and, while voting, close the window
+   * on the server when the deadline passes
+   */
+  public broadcastPhaseChanged(state: PhaseState) {
+    const payload: RealtimeEvents['phase_changed'] = GamePhaseService.toPayload(state);
+    this.broadcast(state.sessionId, 'phase_changed', payload);
+
+    // Any other phase cancels a pending close, whichever instance scheduled it
+    const deadline = state.phase === 'voting' && state.deadline
+      ? this.cluster.deadlines.schedule(state.sessionId, state.deadline, () => this.closeVoting(state.sessionId))
+      : this.cluster.deadlines.clear(state.sessionId);
+    deadline.catch(error => {
+      console.error(`Failed to update the voting deadline for session ${state.sessionId}:`, error);
+    });
+  }
+
+  private async closeVoting(sessionId: string) {
+    try {
+      const state = await GamePhaseService.transition(sessionId, 'results');
+      this.broadcastPhaseChanged(state);
+    } catch (error) {
+      // The facilitator may already have closed voting or ended the session
+      console.error(`Failed to close voting for session ${sessionId}:`, error);
+    }
+  }
+
+  public async close(): Promise<void> {
+    this.io.close();
+    await this.cluster.close();
+  }
+
+  public getConnectedSockets(): number {
+    return this.io.sockets.sockets.size;
+  }
+
+  // Sessions with at least one socket on this instance
+  public getActiveSessionCount(): number {
+    let count = 0;
+    this.io.sockets.adapter.rooms.forEach((_, room) => {
+      if (room.startsWith('room:')) {
+        count++;
+      }
+    });
+    return count;
   }
 }
\ No newline at end of file
@@ -3,7 +3,9 @@ import { Server } from 'http';
 import { RoomService } from './roomService';
 import { AuthService } from './authService';
 import { SanitizationService } from './sanitizationService';
+import { joinCluster, RealtimeCluster } from './realtimeCluster';
 import winston from 'winston';
+import type { RealtimeEvents as RealtimeEventMap, RealtimeCommands } from '../../../shared/contracts';
 
 // Configure logger
 const logger = winston.createLogger({
@@ -18,67 +20,12 @@ const logger = winston.createLogger({
   ]
 });
 
-export interface RealtimeEvents {
-  participant_joined: {
-    participant_id: string;
-    room_code: string;
-    active_count: number;
-  };
-  participant_left: {
-    participant_id: string;
-    room_code: string;
-    active_count: number;
-  };
-  vote_cast: {
-    session_id: string;
-    scenario_id: string;
-    vote: 'pull' | 'dont_pull';
-    total_votes: number;
-    pull_votes: number;
-    dont_pull_votes: number;
-  };
-  rationale_added: {
-    session_id: string;
-    scenario_id: string;
-    vote: 'pull' | 'dont_pull';
-    rationale: string;
-    participant_id: string;
-  };
-  timer_started: {
-    session_id: string;
-    scenario_id: string;
-    duration: number;
-    start_time: string;
-  };
-  timer_tick: {
-    session_id: string;
-    scenario_id: string;
-    seconds_remaining: number;
-  };
-  scenario_started: {
-    session_id: string;
-    scenario_id: string;
-    scenario_title: string;
-  };
-  session_ended: {
-    session_id: string;
-    room_code: string;
-  };
-  decision_announced: {
-    session_id: string;
-    scenario_id: string;
-    decision: 'ai_track' | 'non_ai_track' | 'tie';
-    pull_count: number;
-    dont_pull_count: number;
-    total_votes: number;
-  };
-}
+export type RealtimeEvents = RealtimeEventMap<Date>;
 
 export class RealtimeServiceSecure {
   private io: SocketServer;
-  private sessionTimers: Map<string, NodeJS.Timeout> = new Map();
-  private connectionAttempts: Map<string, number> = new Map();
-  private blockedIPs: Set<string> = new Set();
+  // Timers and IP blocks, shared with other instances when REDIS_URL is set
+  private cluster: RealtimeCluster;
 
   constructor(server: Server) {
     this.io = new SocketServer(server, {
@@ -94,9 +41,10 @@ export class RealtimeServiceSecure {
       pingInterval: 25000,
     });
 
+    this.cluster = joinCluster(this.io);
+
     this.setupAuthentication();
     this.setupHandlers();
-    this.startCleanupInterval();
   }
 
   private setupAuthentication() {
@@ -107,19 +55,18 @@ export class RealtimeServiceSecure {
         const clientIP = this.getClientIP(socket);
 
         // Check if IP is blocked
-        if (this.blockedIPs.has(clientIP)) {
+        if (await this.cluster.store.isBlocked(clientIP)) {
           logger.warn(`Blocked connection attempt from IP: ${clientIP}`);
           return next(new Error('Access denied'));
         }
 
         // Rate limit connection attempts
-        const attempts = this.connectionAttempts.get(clientIP) || 0;
+        const attempts = await this.cluster.store.recordConnectionAttempt(clientIP);
         if (attempts > 10) {
-          this.blockedIPs.add(clientIP);
+          await this.cluster.store.block(clientIP);
           logger.error(`Blocking IP due to too many attempts: ${clientIP}`);
           return next(new Error('Too many connection attempts'));
         }
-        this.connectionAttempts.set(clientIP, attempts + 1);
 
         // Verify token
         if (!token) {
@@ -133,9 +80,10 @@ export class RealtimeServiceSecure {
         socket.data.participantId = decoded.participantId;
         socket.data.fingerprint = decoded.fingerprint;
         socket.data.roomCode = decoded.roomCode;
+        socket.data.role = decoded.role || 'participant';
         socket.data.authenticated = true;
 
-        logger.info(`Socket authenticated for participant ${decoded.participantId}`);
+        logger.info(`Socket authenticated for ${socket.data.role} ${decoded.participantId}`);
         next();
       } catch (error) {
         logger.error('Socket authentication failed:', error);
@@ -150,13 +98,15 @@ export class RealtimeServiceSecure {
       logger.info(`Client connected: ${socket.id} from IP: ${clientIP}`);
 
       // Automatically join the authenticated room
-      const { sessionId, participantId, roomCode } = socket.data;
+      const { sessionId, participantId, roomCode, role } = socket.data;
       if (sessionId && participantId) {
         socket.join(`room:${sessionId}`);
-        this.handleParticipantJoined(sessionId, participantId, roomCode);
+        if (role !== 'facilitator') {
+          this.handleParticipantJoined(sessionId, participantId, roomCode);
+        }
       }
 
-      socket.on('join_room', async (data: { sessionId: string; participantId: string }) => {
+      socket.on('join_room', async (data: RealtimeCommands['join_room']) => {
         try {
           // Validate that the user can only join their authenticated room
           if (data.sessionId !== socket.data.sessionId || 
@@ -165,7 +115,8 @@ export class RealtimeServiceSecure {
             return;
           }
 
-          const { sessionId, participantId } = data;
+          const { sessionId } = data;
+          const participantId: string = socket.data.participantId;
           
           // Sanitize inputs
           const sanitizedSessionId = SanitizationService.sanitizeFingerprint(sessionId);
@@ -174,7 +125,9 @@ export class RealtimeServiceSecure {
           // Join the room
           socket.join(`room:${sanitizedSessionId}`);
           
-          await this.handleParticipantJoined(sanitizedSessionId, sanitizedParticipantId, socket.data.roomCode);
+          if (socket.data.role !== 'facilitator') {
+            await this.handleParticipantJoined(sanitizedSessionId, sanitizedParticipantId, socket.data.roomCode);
+          }
         } catch (error) {
           logger.error('Error joining room:', error);
           socket.emit('error', { message: 'Failed to join room' });
@@ -193,10 +146,10 @@ export class RealtimeServiceSecure {
         }
       });
 
-      socket.on('start_timer', (data: { sessionId: string; scenarioId: string; duration: number }) => {
+      socket.on('start_timer', async (data: RealtimeCommands['start_timer']) => {
         try {
           // Validate authorization (only facilitator can start timer)
-          if (data.sessionId !== socket.data.sessionId) {
+          if (!(await this.isSessionFacilitator(socket, data.sessionId))) {
             socket.emit('error', { message: 'Unauthorized action' });
             return;
           }
@@ -209,17 +162,17 @@ export class RealtimeServiceSecure {
             return;
           }
 
-          this.startTimer(sessionId, scenarioId, duration);
+          await this.startTimer(sessionId, scenarioId, duration);
         } catch (error) {
           logger.error('Error starting timer:', error);
           socket.emit('error', { message: 'Failed to start timer' });
         }
       });
 
-      socket.on('start_scenario', (data: { sessionId: string; scenarioId: string; scenarioTitle: string }) => {
+      socket.on('start_scenario', async (data: RealtimeCommands['start_scenario']) => {
         try {
           // Validate authorization
-          if (data.sessionId !== socket.data.sessionId) {
+          if (!(await this.isSessionFacilitator(socket, data.sessionId))) {
             socket.emit('error', { message: 'Unauthorized action' });
             return;
           }
@@ -238,25 +191,18 @@ export class RealtimeServiceSecure {
         }
       });
 
-      socket.on('announce_decision', (data: {
-        sessionId: string;
-        scenarioId: string;
-        decision: 'ai_track' | 'non_ai_track' | 'tie';
-        pullCount: number;
-        dontPullCount: number;
-        totalVotes: number;
-      }) => {
+      socket.on('announce_decision', async (data: RealtimeCommands['announce_decision']) => {
         try {
           // Validate authorization
-          if (data.sessionId !== socket.data.sessionId) {
+          if (!(await this.isSessionFacilitator(socket, data.sessionId))) {
             socket.emit('error', { message: 'Unauthorized action' });
             return;
           }
 
-          const { sessionId, scenarioId, decision, pullCount, dontPullCount, totalVotes } = data;
+          const { sessionId, scenarioId, decision, trackVotes, totalVotes } = data;
           
           // Validate decision value
-          if (!['ai_track', 'non_ai_track', 'tie'].includes(decision)) {
+          if (decision !== 'tie' && !Object.prototype.hasOwnProperty.call(trackVotes, decision)) {
             socket.emit('error', { message: 'Invalid decision value' });
             return;
           }
@@ -265,8 +211,9 @@ export class RealtimeServiceSecure {
             session_id: sessionId,
             scenario_id: scenarioId,
             decision,
-            pull_count: Math.max(0, pullCount),
-            dont_pull_count: Math.max(0, dontPullCount),
+            track_votes: Object.fromEntries(
+              Object.entries(trackVotes).map(([track, count]) => [track, Math.max(0, count)])
+            ),
             total_votes: Math.max(0, totalVotes),
           });
         } catch (error) {
@@ -275,10 +222,10 @@ export class RealtimeServiceSecure {
         }
       });
 
-      socket.on('end_session', (data: { sessionId: string; roomCode: string }) => {
+      socket.on('end_session', async (data: RealtimeCommands['end_session']) => {
         try {
           // Validate authorization
-          if (data.sessionId !== socket.data.sessionId) {
+          if (!(await this.isSessionFacilitator(socket, data.sessionId))) {
             socket.emit('error', { message: 'Unauthorized action' });
             return;
           }
@@ -287,7 +234,7 @@ export class RealtimeServiceSecure {
           const roomCode = SanitizationService.sanitizeRoomCode(data.roomCode);
           
           // Clear any timers for this session
-          this.clearSessionTimers(sessionId);
+          await this.cluster.timers.clearSession(sessionId);
 
           this.io.to(`room:${sessionId}`).emit('session_ended', {
             session_id: sessionId,
@@ -303,8 +250,8 @@ export class RealtimeServiceSecure {
         try {
           logger.info(`Client disconnected: ${socket.id}`);
           
-          const { sessionId, participantId, roomCode } = socket.data;
-          if (sessionId && participantId) {
+          const { sessionId, participantId, roomCode, role } = socket.data;
+          if (sessionId && participantId && role !== 'facilitator') {
             await this.handleParticipantLeft(sessionId, participantId, roomCode);
           }
         } catch (error) {
@@ -319,6 +266,22 @@ export class RealtimeServiceSecure {
     });
   }
 
+  /**
+   * Only the facilitator who owns the session may control it
+   */
+  private async isSessionFacilitator(socket: Socket, sessionId: string): Promise<boolean> {
+    if (socket.data.role !== 'facilitator' || sessionId !== socket.data.sessionId) {
+      return false;
+    }
+
+    try {
+      return await RoomService.isSessionFacilitator(sessionId, socket.data.participantId);
+    } catch (error) {
+      logger.error('Error verifying facilitator:', error);
+      return false;
+    }
+  }
+
   private async handleParticipantJoined(sessionId: string, participantId: string, roomCode: string) {
     try {
       const activeCount = await RoomService.getActiveParticipantCount(sessionId);
@@ -351,52 +314,23 @@ export class RealtimeServiceSecure {
     }
   }
 
-  private startTimer(sessionId: string, scenarioId: string, duration: number) {
-    const timerKey = `${sessionId}-${scenarioId}`;
-    
-    // Clear any existing timer
-    const existingTimer = this.sessionTimers.get(timerKey);
-    if (existingTimer) {
-      clearInterval(existingTimer);
-    }
-
-    let secondsRemaining = duration;
-    const startTime = new Date().toISOString();
-
+  private async startTimer(sessionId: string, scenarioId: string, duration: number) {
     // Emit timer started event
     this.io.to(`room:${sessionId}`).emit('timer_started', {
       session_id: sessionId,
       scenario_id: scenarioId,
       duration,
-      start_time: startTime,
+      start_time: new Date().toISOString(),
     });
 
-    // Start countdown
-    const timer = setInterval(() => {
-      secondsRemaining--;
-      
+    // Start countdown; ticks reach sockets on every instance through the adapter
+    await this.cluster.timers.start(sessionId, scenarioId, duration, (secondsRemaining) => {
       // Use volatile emit for non-critical timer ticks
       this.io.to(`room:${sessionId}`).volatile.emit('timer_tick', {
         session_id: sessionId,
         scenario_id: scenarioId,
         seconds_remaining: secondsRemaining,
       });
-
-      if (secondsRemaining <= 0) {
-        clearInterval(timer);
-        this.sessionTimers.delete(timerKey);
-      }
-    }, 1000);
-
-    this.sessionTimers.set(timerKey, timer);
-  }
-
-  private clearSessionTimers(sessionId: string) {
-    this.sessionTimers.forEach((timer, key) => {
-      if (key.startsWith(sessionId)) {
-        clearInterval(timer);
-        this.sessionTimers.delete(key);
-      }
     });
   }
 
@@ -406,20 +340,6 @@ export class RealtimeServiceSecure {
            'unknown';
   }
 
-  private startCleanupInterval() {
-    // Clean up connection attempts map every hour
-    setInterval(() => {
-      this.connectionAttempts.clear();
-      logger.info('Cleared connection attempts map');
-    }, 3600000);
-
-    // Clear blocked IPs every 24 hours
-    setInterval(() => {
-      this.blockedIPs.clear();
-      logger.info('Cleared blocked IPs');
-    }, 86400000);
-  }
-
   public broadcastVoteCast(sessionId: string, data: RealtimeEvents['vote_cast']) {
     // Sanitize the rationale if it exists in the data
     this.io.to(`room:${sessionId}`).emit('vote_cast', data);
@@ -434,6 +354,11 @@ export class RealtimeServiceSecure {
     this.io.to(`room:${sessionId}`).emit('rationale_added', sanitizedData);
   }
 
+  public async close(): Promise<void> {
+    this.io.close();
+    await this.cluster.close();
+  }
+
   public getConnectedSockets(): number {
     return this.io.sockets.sockets.size;
   }
@@ -0,0 +1,270 @@
+import PDFDocument from 'pdfkit';
+import { db } from '../db';
+import { sessions, participants, scenarios, sessionScenarios } from '../db/schema';
+import { eq, and, ne, asc, sql } from 'drizzle-orm';
+import { RoomService } from './roomService';
+import { ScenarioService } from './scenarioService';
+import type { VoteShift } from './roomService';
+import type { ScenarioTrack } from '../db/schema';
+
+// How many rationales to print for each track
+const TOP_RATIONALES = 5;
+
+const COLORS = {
+  navy: '#1f2a44',
+  text: '#333333',
+  muted: '#777777',
+  empty: '#dddddd',
+  // Vote split segments, in track order
+  tracks: ['#2ecc71', '#e74c3c', '#3498db', '#f39c12'],
+};
+
+export interface ReportScenario {
+  position: number;
+  title: string;
+  context: string;
+  discussionPrompts: string[];
+  tracks: ScenarioTrack[];
+  trackVotes: Record<string, number>;
+  // Set when the scenario was re-voted after discussion
+  shift: VoteShift | null;
+  // Top rationales keyed by track id
+  rationales: Record<string, string[]>;
+  mitigations: string[];
+}
+
+export interface SessionReport {
+  roomCode: string;
+  date: Date;
+  participantCount: number;
+  scenarios: ReportScenario[];
+}
+
+export class ReportNotReadyError extends Error {
+  constructor() {
+    super('The report is available once the session has ended');
+    this.name = 'ReportNotReadyError';
+  }
+}
+
+/**
+ * Pick the most substantive distinct rationales, longest first
+ */
+function topRationales(texts: string[]): string[] {
+  const seen = new Set<string>();
+  return texts
+    .map(text => text.trim())
+    .filter(text => {
+      const key = text.toLowerCase();
+      if (!text || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => b.length - a.length)
+    .slice(0, TOP_RATIONALES);
+}
+
+export class ReportService {
+  /**
+   * Gather everything the printed report needs for a finished session
+   */
+  static async buildReport(sessionId: string) {
+    try {
+      const [session] = await db
+        .select()
+        .from(sessions)
+        .where(eq(sessions.id, sessionId));
+
+      if (!session) {
+        throw new Error('Session not found');
+      }
+      if (session.status !== 'complete') {
+        throw new ReportNotReadyError();
+      }
+
+      const [participantCount] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(participants)
+        .where(eq(participants.sessionId, sessionId));
+
+      // Only scenarios that were actually played make it into the report
+      const played = await db
+        .select({
+          position: sessionScenarios.orderIndex,
+          scenario: scenarios,
+        })
+        .from(sessionScenarios)
+        .innerJoin(scenarios, eq(sessionScenarios.scenarioId, scenarios.id))
+        .where(
+          and(
+            eq(sessionScenarios.sessionId, sessionId),
+            ne(sessionScenarios.status, 'pending')
+          )
+        )
+        .orderBy(asc(sessionScenarios.orderIndex));
+
+      const reportScenarios: ReportScenario[] = [];
+      for (const [index, entry] of played.entries()) {
+        const [summary, shift, rationales, mitigations] = await Promise.all([
+          RoomService.getVoteSummary(sessionId, entry.scenario.id),
+          RoomService.getVoteShift(sessionId, entry.scenario.id),
+          RoomService.getRationales(sessionId, entry.scenario.id),
+          RoomService.getMitigations(sessionId, entry.scenario.id),
+        ]);
+
+        const tracks = ScenarioService.getTracks(entry.scenario);
+        reportScenarios.push({
+          position: (entry.position ?? index) + 1,
+          title: entry.scenario.title,
+          context: entry.scenario.context,
+          discussionPrompts: entry.scenario.discussionPrompts,
+          tracks,
+          trackVotes: summary.data?.trackVotes ?? {},
+          shift: shift.data && shift.data.toRound > shift.data.fromRound ? shift.data : null,
+          rationales: Object.fromEntries(
+            tracks.map(track => [track.id, topRationales(rationales.data[track.id] ?? [])])
+          ),
+          mitigations: mitigations.data,
+        });
+      }
+
+      const data: SessionReport = {
+        roomCode: session.roomCode,
+        date: session.createdAt,
+        participantCount: Number(participantCount?.count ?? 0),
+        scenarios: reportScenarios,
+      };
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Lay the report out as a PDF: a cover page, then one page per scenario
+   */
+  static renderPdf(report: SessionReport): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'LETTER', margin: 54 });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      this.renderCover(doc, report);
+      report.scenarios.forEach(scenario => {
+        doc.addPage();
+        this.renderScenario(doc, scenario);
+      });
+
+      doc.end();
+    });
+  }
+
+  private static renderCover(doc: PDFKit.PDFDocument, report: SessionReport) {
+    doc
+      .moveDown(8)
+      .fillColor(COLORS.navy)
+      .fontSize(30)
+      .text('Nonprofit Trolley Game', { align: 'center' })
+      .fontSize(18)
+      .text('Session Report', { align: 'center' })
+      .moveDown(3)
+      .fillColor(COLORS.text)
+      .fontSize(14)
+      .text(`Room code: ${report.roomCode}`, { align: 'center' })
+      .text(`Date: ${report.date.toLocaleDateString('en-US', { dateStyle: 'long' })}`, { align: 'center' })
+      .text(`Participants: ${report.participantCount}`, { align: 'center' })
+      .text(`Scenarios discussed: ${report.scenarios.length}`, { align: 'center' });
+  }
+
+  private static renderScenario(doc: PDFKit.PDFDocument, scenario: ReportScenario) {
+    doc
+      .fillColor(COLORS.navy)
+      .fontSize(20)
+      .text(`Scenario ${scenario.position}: ${scenario.title}`)
+      .moveDown(0.5)
+      .fillColor(COLORS.text)
+      .fontSize(11)
+      .text(scenario.context)
+      .moveDown();
+
+    this.renderVoteSplit(doc, scenario.tracks, scenario.trackVotes);
+    if (scenario.shift) {
+      this.renderShift(doc, scenario.tracks, scenario.shift);
+    }
+
+    scenario.tracks.forEach(track => {
+      this.renderList(doc, `Top rationales: ${track.label}`, scenario.rationales[track.id] ?? []);
+    });
+    this.renderList(doc, 'Participant mitigations', scenario.mitigations);
+    this.renderList(doc, 'Discussion prompts', scenario.discussionPrompts);
+  }
+
+  private static renderVoteSplit(doc: PDFKit.PDFDocument, tracks: ScenarioTrack[], trackVotes: Record<string, number>) {
+    const counts = tracks.map(track => trackVotes[track.id] ?? 0);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const x = doc.page.margins.left;
+    const y = doc.y;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const height = 18;
+
+    if (total === 0) {
+      doc.rect(x, y, width, height).fill(COLORS.empty);
+    } else {
+      let offset = x;
+      counts.forEach((count, index) => {
+        const segment = (count / total) * width;
+        doc.rect(offset, y, segment, height).fill(COLORS.tracks[index % COLORS.tracks.length]);
+        offset += segment;
+      });
+    }
+
+    const percent = (count: number) => (total ? Math.round((count / total) * 100) : 0);
+    const legend = tracks
+      .map((track, index) => `${track.label}: ${counts[index]} (${percent(counts[index])}%)`)
+      .join('    ');
+    doc
+      .fillColor(COLORS.text)
+      .fontSize(10)
+      .text(`${legend}    Total: ${total}`, x, y + height + 6)
+      .moveDown();
+  }
+
+  private static renderShift(doc: PDFKit.PDFDocument, tracks: ScenarioTrack[], shift: VoteShift) {
+    const label = (trackId: string) => tracks.find(track => track.id === trackId)?.label ?? trackId;
+    const switched = shift.moves.reduce((sum, move) => sum + move.count, 0);
+    doc
+      .fillColor(COLORS.navy)
+      .fontSize(13)
+      .text(`Opinion shift after discussion (round ${shift.fromRound} to ${shift.toRound})`)
+      .moveDown(0.25)
+      .fillColor(COLORS.text)
+      .fontSize(10)
+      .text(`${switched} of ${shift.compared} participants switched sides.`);
+
+    shift.moves.forEach(move => {
+      doc.text(`${label(move.from)} to ${label(move.to)}: ${move.count}`);
+    });
+    doc.moveDown();
+  }
+
+  private static renderList(doc: PDFKit.PDFDocument, heading: string, items: string[]) {
+    doc
+      .fillColor(COLORS.navy)
+      .fontSize(13)
+      .text(heading)
+      .moveDown(0.25)
+      .fontSize(10);
+
+    if (items.length === 0) {
+      doc.fillColor(COLORS.muted).text('None recorded').moveDown();
+      return;
+    }
+
+    doc.fillColor(COLORS.text).list(items, { bulletRadius: 2, paragraphGap: 3 }).moveDown();
+  }
+}
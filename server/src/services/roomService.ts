@@ -1,39 +1,129 @@
 import { db } from '../db';
 import { sessions, participants, votes, rationales, mitigations, scenarios, sessionScenarios } from '../db/schema';
-import { eq, and, inArray, sql, desc } from 'drizzle-orm';
+import { eq, and, inArray, isNotNull, sql, desc } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
+import { randomUUID } from 'crypto';
+import { AuthService } from './authService';
+import { GamePhaseService, PhaseTransitionError } from './gamePhaseService';
+import { DeckService } from './deckService';
+import { ScenarioService } from './scenarioService';
+import { ModerationQueueService, displayedText } from './moderationQueueService';
+import { ModerationService } from './moderationService';
+import { ModerationProfileService } from './moderationProfileService';
+import { OrganizationService, visibleTo, libraryOwner } from './organizationService';
+import { latencyDistribution, compareLatencies } from '../utils/voteStats';
+import type { SessionOwnership } from '../utils/sessionAccess';
+import type { ModerationResult } from './moderationService';
+import type { LibraryOwner } from './organizationService';
+import type {
+  SessionSnapshot as SessionSnapshotPayload,
+  VoteShift,
+  ConfidenceDistribution,
+  GamePhase,
+  LatencyComparison,
+  RoomConfig,
+} from '../../../shared/contracts';
 import type { NewSession, NewParticipant, NewVote, NewRationale, NewMitigation } from '../db/schema';
+import type { Scenario, ScenarioTrack } from '../db/schema';
+
+export type SessionSnapshot = SessionSnapshotPayload<Date>;
+
+export type { VoteShift, ConfidenceDistribution };
+
+// Start every track at zero so empty tracks still show up in tallies
+function perTrack<T>(tracks: ScenarioTrack[], initial: () => T): Record<string, T> {
+  return Object.fromEntries(tracks.map(track => [track.id, initial()]));
+}
+
+// A scenario can be voted on once, then re-voted once after discussion
+export const MAX_VOTE_ROUNDS = 2;
+
+// What a room gets for any setting its facilitator leaves out
+const DEFAULT_ROOM_CONFIG = {
+  timerDuration: 30,
+  maxParticipants: 200,
+  moderationEnabled: true,
+  contentWarnings: true,
+} satisfies RoomConfig;
 
 export class RoomService {
   static generateRoomCode(): string {
     return nanoid(6).toUpperCase();
   }
 
-  static async createRoom(config: any = {}) {
+  /**
+   * Open a room, inside the facilitator's organization when they have one.
+   * The deck and moderation profile must be ones the organization, or else
+   * the account, can see. Rooms opened from an account are listed under it.
+   */
+  static async createRoom(
+    config: RoomConfig = {},
+    scenarioIds?: string[],
+    organizationId: string | null = null,
+    accountId: string | null = null
+  ) {
     try {
-      const defaultConfig = {
-        timerDuration: 30,
-        maxParticipants: 200,
-        moderationEnabled: true,
-        contentWarnings: true,
+      const owner = libraryOwner(organizationId, accountId);
+      const deck = await DeckService.resolveDeck(scenarioIds, owner);
+      if (config.moderationProfileId) {
+        await ModerationProfileService.getProfile(config.moderationProfileId, owner);
+      }
+
+      const defaultConfig: RoomConfig = {
+        ...DEFAULT_ROOM_CONFIG,
         ...config,
       };
 
       const roomCode = this.generateRoomCode();
+      const facilitatorId = accountId ?? randomUUID();
       
       const [room] = await db.insert(sessions).values({
         roomCode,
+        facilitatorId,
+        organizationId,
         config: defaultConfig,
         status: 'waiting',
       }).returning();
 
-      return { room, error: null };
+      await DeckService.writeDeck(room.id, deck);
+
+      const facilitatorToken = AuthService.generateFacilitatorToken(room.id, facilitatorId, roomCode, {
+        organizationId,
+        accountId,
+      });
+
+      return { room, facilitatorToken, error: null };
     } catch (error) {
       console.error('Failed to create room:', error);
-      return { room: null, error: error as Error };
+      return { room: null, facilitatorToken: null, error: error as Error };
     }
   }
 
+  static async isSessionFacilitator(sessionId: string, facilitatorId: string): Promise<boolean> {
+    const [session] = await db
+      .select({ facilitatorId: sessions.facilitatorId })
+      .from(sessions)
+      .where(eq(sessions.id, sessionId));
+
+    return !!session && session.facilitatorId === facilitatorId;
+  }
+
+  /**
+   * Who a session belongs to, looked up by id or by room code
+   */
+  static async getSessionOwnership(key: { sessionId: string } | { roomCode: string }): Promise<SessionOwnership | null> {
+    const [session] = await db
+      .select({
+        id: sessions.id,
+        organizationId: sessions.organizationId,
+        facilitatorId: sessions.facilitatorId,
+      })
+      .from(sessions)
+      .where('sessionId' in key ? eq(sessions.id, key.sessionId) : eq(sessions.roomCode, key.roomCode));
+
+    return session ?? null;
+  }
+
   static async joinRoom(roomCode: string, fingerprint: string, userAgent?: string) {
     try {
       // Check if room exists and is active
@@ -62,8 +152,8 @@ export class RoomService {
           )
         );
 
-      const config = session.config as any;
-      if (participantCount[0].count >= config.maxParticipants) {
+      const { maxParticipants = DEFAULT_ROOM_CONFIG.maxParticipants } = session.config;
+      if (participantCount[0].count >= maxParticipants) {
         throw new Error('Room is full');
       }
 
@@ -89,7 +179,13 @@ export class RoomService {
           .where(eq(participants.id, existingParticipant.id))
           .returning();
 
-        return { participant: updatedParticipant, session, error: null };
+        const participantToken = AuthService.generateParticipantToken(
+          session.id,
+          updatedParticipant.id,
+          fingerprint,
+          session.roomCode
+        );
+        return { participant: updatedParticipant, session, participantToken, error: null };
       }
 
       // Create new participant
@@ -103,10 +199,16 @@ export class RoomService {
         })
         .returning();
 
-      return { participant, session, error: null };
+      const participantToken = AuthService.generateParticipantToken(
+        session.id,
+        participant.id,
+        fingerprint,
+        session.roomCode
+      );
+      return { participant, session, participantToken, error: null };
     } catch (error) {
       console.error('Failed to join room:', error);
-      return { participant: null, session: null, error: error as Error };
+      return { participant: null, session: null, participantToken: null, error: error as Error };
     }
   }
 
@@ -145,6 +247,16 @@ export class RoomService {
 
   static async startScenario(sessionId: string, scenarioId: string) {
     try {
+      const current = await GamePhaseService.getState(sessionId);
+      if (!GamePhaseService.canTransition(current.phase, 'voting')) {
+        throw new PhaseTransitionError(current.phase, 'voting');
+      }
+
+      const timerDuration = await this.getTimerDuration(sessionId);
+
+      // Scenarios outside the deck can be played, but never someone else's private ones
+      await ScenarioService.getScenario(scenarioId, await OrganizationService.getSessionLibraryOwner(sessionId));
+
       // Mark current scenario as complete
       await db
         .update(sessionScenarios)
@@ -159,17 +271,226 @@ export class RoomService {
           )
         );
 
-      // Start new scenario
+      // Start the deck entry for this scenario, adding it to the end of the deck if it wasn't planned
+      const [planned] = await db
+        .select({
+          id: sessionScenarios.id,
+          status: sessionScenarios.status,
+          round: sessionScenarios.round,
+        })
+        .from(sessionScenarios)
+        .where(
+          and(
+            eq(sessionScenarios.sessionId, sessionId),
+            eq(sessionScenarios.scenarioId, scenarioId)
+          )
+        );
+
+      // Replaying a scenario opens a fresh round so earlier votes are kept,
+      // and re-votes are counted again from there
+      const round = planned?.status === 'pending' ? planned.round : (planned?.round ?? 0) + 1;
+      const [data] = planned
+        ? await db
+            .update(sessionScenarios)
+            .set({
+              status: 'active',
+              startedAt: new Date(),
+              endedAt: null,
+              round,
+              firstRound: round,
+            })
+            .where(eq(sessionScenarios.id, planned.id))
+            .returning()
+        : await db
+            .insert(sessionScenarios)
+            .values({
+              sessionId,
+              scenarioId,
+              status: 'active',
+              startedAt: new Date(),
+              orderIndex: current.deckSize,
+              round,
+              firstRound: round,
+            })
+            .returning();
+
+      await db
+        .update(sessions)
+        .set({ deckPosition: data.orderIndex ?? current.deckPosition })
+        .where(eq(sessions.id, sessionId));
+
+      const deadline = new Date(data.startedAt!.getTime() + timerDuration * 1000);
+      const phase = await GamePhaseService.transition(sessionId, 'voting', deadline);
+
+      return { data: { sessionScenario: data, phase }, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Reopen voting on the scenario whose results are showing, so the room
+   * can vote again after discussing it
+   */
+  static async startRevote(sessionId: string, scenarioId: string) {
+    try {
+      const current = await GamePhaseService.getState(sessionId);
+      if (current.phase !== 'results' || current.scenarioId !== scenarioId) {
+        throw new Error('A re-vote can only follow the results of this scenario');
+      }
+      // Rounds from earlier plays of the scenario don't count
+      if (current.round - current.firstRound + 1 >= MAX_VOTE_ROUNDS) {
+        throw new Error(`This scenario has already had ${MAX_VOTE_ROUNDS} voting rounds`);
+      }
+
+      const timerDuration = await this.getTimerDuration(sessionId);
+
+      // Conditional on the round we read so a double click can't skip a round
       const [data] = await db
-        .insert(sessionScenarios)
-        .values({
-          sessionId,
-          scenarioId,
-          status: 'active',
+        .update(sessionScenarios)
+        .set({
+          round: current.round + 1,
           startedAt: new Date(),
         })
+        .where(
+          and(
+            eq(sessionScenarios.sessionId, sessionId),
+            eq(sessionScenarios.scenarioId, scenarioId),
+            eq(sessionScenarios.status, 'active'),
+            eq(sessionScenarios.round, current.round)
+          )
+        )
         .returning();
 
+      if (!data) {
+        throw new Error('A re-vote is already open for this scenario');
+      }
+
+      const deadline = new Date(data.startedAt!.getTime() + timerDuration * 1000);
+      const phase = await GamePhaseService.transition(sessionId, 'voting', deadline);
+
+      return { data: { sessionScenario: data, phase }, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  static async getPhase(sessionId: string) {
+    try {
+      const data = await GamePhaseService.getState(sessionId);
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Everything a (re)connecting client needs. my_vote is only filled in for
+   * the participant the caller authenticated as.
+   */
+  static async getSessionSnapshot(sessionId: string, participantId?: string) {
+    try {
+      const [session] = await db
+        .select()
+        .from(sessions)
+        .where(eq(sessions.id, sessionId));
+
+      if (!session) {
+        throw new Error('Session not found');
+      }
+
+      const phase = await GamePhaseService.getState(sessionId);
+      const activeParticipants = await this.getActiveParticipantCount(sessionId);
+
+      let scenario: Scenario | null = null;
+      let tallies: SessionSnapshot['tallies'] = null;
+      let myVote: SessionSnapshot['my_vote'] = null;
+
+      if (phase.scenarioId) {
+        [scenario = null] = await db
+          .select()
+          .from(scenarios)
+          .where(eq(scenarios.id, phase.scenarioId));
+
+        const summary = await this.getVoteSummary(sessionId, phase.scenarioId, phase.round);
+        if (summary.data) {
+          tallies = {
+            total_votes: summary.data.totalVotes,
+            track_votes: summary.data.trackVotes,
+            confidence: summary.data.confidence,
+            latency: summary.data.latency,
+            latency_comparison: summary.data.latencyComparison,
+          };
+        }
+
+        if (participantId) {
+          const [ownVote] = await db
+            .select({
+              vote: votes.vote,
+              original: rationales.originalText,
+              processed: rationales.processedText,
+              moderated: rationales.moderated,
+            })
+            .from(votes)
+            .leftJoin(rationales, eq(rationales.voteId, votes.id))
+            .where(
+              and(
+                eq(votes.sessionId, sessionId),
+                eq(votes.scenarioId, phase.scenarioId),
+                eq(votes.participantId, participantId),
+                eq(votes.round, phase.round)
+              )
+            )
+            .orderBy(desc(votes.createdAt))
+            .limit(1);
+
+          myVote = ownVote
+            ? { vote: ownVote.vote, rationale: displayedText(ownVote.original, ownVote.processed, ownVote.moderated) }
+            : null;
+        }
+      }
+
+      const data: SessionSnapshot = {
+        session_id: session.id,
+        room_code: session.roomCode,
+        status: session.status,
+        active_participants: activeParticipants,
+        phase: GamePhaseService.toPayload(phase),
+        scenario,
+        tallies,
+        my_vote: myVote,
+      };
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  static async getSessionSnapshotByRoomCode(roomCode: string, participantId?: string) {
+    try {
+      const [session] = await db
+        .select({ id: sessions.id })
+        .from(sessions)
+        .where(eq(sessions.roomCode, roomCode));
+
+      if (!session) {
+        throw new Error('Room not found');
+      }
+
+      return this.getSessionSnapshot(session.id, participantId);
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Move a session between phases that don't need extra bookkeeping,
+   * e.g. closing voting early or returning to the lobby between scenarios
+   */
+  static async advancePhase(sessionId: string, phase: Extract<GamePhase, 'results' | 'waiting'>) {
+    try {
+      const data = await GamePhaseService.transition(sessionId, phase);
       return { data, error: null };
     } catch (error) {
       return { data: null, error: error as Error };
@@ -180,13 +501,53 @@ export class RoomService {
     sessionId: string,
     participantId: string,
     scenarioId: string,
-    vote: 'pull' | 'dont_pull',
+    vote: string,
     rationale?: string,
-    mitigation?: string
+    mitigation?: string,
+    confidence?: number
   ) {
-    const startTime = Date.now();
+    const receivedAt = Date.now();
     
     try {
+      // Only accept votes for the active scenario while its window is open
+      const phase = await GamePhaseService.getState(sessionId);
+      if (!GamePhaseService.isVotingOpen(phase, scenarioId)) {
+        throw new Error('Voting is closed for this scenario');
+      }
+
+      // Decision time runs from when the server opened this round, not from the client's clock
+      const [round] = await db
+        .select({ startedAt: sessionScenarios.startedAt })
+        .from(sessionScenarios)
+        .where(
+          and(
+            eq(sessionScenarios.sessionId, sessionId),
+            eq(sessionScenarios.scenarioId, scenarioId)
+          )
+        );
+      const latencyMs = round?.startedAt ? Math.max(0, receivedAt - round.startedAt.getTime()) : null;
+
+      const tracks = await this.getScenarioTracks(scenarioId);
+      if (!tracks.some(track => track.id === vote)) {
+        throw new Error('Unknown track for this scenario');
+      }
+
+      const [existing] = await db
+        .select({ id: votes.id })
+        .from(votes)
+        .where(
+          and(
+            eq(votes.sessionId, sessionId),
+            eq(votes.scenarioId, scenarioId),
+            eq(votes.participantId, participantId),
+            eq(votes.round, phase.round)
+          )
+        );
+
+      if (existing) {
+        throw new Error('You have already voted in this round');
+      }
+
       // Submit vote
       const [voteData] = await db
         .insert(votes)
@@ -195,17 +556,29 @@ export class RoomService {
           participantId,
           scenarioId,
           vote,
-          latencyMs: Date.now() - startTime,
+          round: phase.round,
+          confidence,
+          latencyMs,
         })
         .returning();
 
+      // Sessions with a moderation queue hold free text until the facilitator reviews it
+      const hasText = !!(rationale?.trim() || mitigation?.trim());
+      const reviewStatus = hasText && await ModerationQueueService.isQueueEnabled(sessionId)
+        ? 'pending'
+        : 'approved';
+
+      // Free text goes through the moderation pipeline whatever the client did
+      const moderationOptions = hasText ? await ModerationProfileService.getSessionOptions(sessionId) : {};
+      let moderatedRationale: ModerationResult | null = null;
+
       // Submit rationale if provided
       if (rationale && rationale.trim()) {
+        moderatedRationale = ModerationService.moderate(rationale, moderationOptions);
         await db.insert(rationales).values({
           voteId: voteData.id,
-          originalText: rationale.trim(),
-          processedText: rationale.trim().toLowerCase(),
-          wordCount: rationale.trim().split(/\s+/).length,
+          ...this.toModeratedColumns(moderatedRationale),
+          reviewStatus,
         });
       }
       
@@ -213,111 +586,249 @@ export class RoomService {
       if (mitigation && mitigation.trim()) {
         await db.insert(mitigations).values({
           voteId: voteData.id,
-          originalText: mitigation.trim(),
-          processedText: mitigation.trim().toLowerCase(),
-          wordCount: mitigation.trim().split(/\s+/).length,
+          ...this.toModeratedColumns(ModerationService.moderate(mitigation, moderationOptions)),
+          reviewStatus,
         });
       }
 
-      return { data: voteData, error: null };
+      // The rationale as others may see it, after moderation
+      return { data: { ...voteData, rationale: moderatedRationale?.processed || null }, error: null };
     } catch (error) {
       return { data: null, error: error as Error };
     }
   }
 
-  static async getVoteSummary(sessionId: string, scenarioId: string) {
+  /**
+   * Tally one voting round, by default the scenario's latest
+   */
+  static async getVoteSummary(sessionId: string, scenarioId: string, round?: number) {
     try {
+      const targetRound = round ?? (await this.getCurrentRounds(sessionId, scenarioId)).round;
+      const tracks = await this.getScenarioTracks(scenarioId);
       const voteResults = await db
         .select({
           vote: votes.vote,
           count: sql<number>`count(*)`,
-          avgLatency: sql<number>`avg(${votes.latencyMs})`,
         })
         .from(votes)
         .where(
           and(
             eq(votes.sessionId, sessionId),
-            eq(votes.scenarioId, scenarioId)
+            eq(votes.scenarioId, scenarioId),
+            eq(votes.round, targetRound)
           )
         )
         .groupBy(votes.vote);
 
+      const confidenceResults = await db
+        .select({
+          vote: votes.vote,
+          confidence: votes.confidence,
+          count: sql<number>`count(*)`,
+        })
+        .from(votes)
+        .where(
+          and(
+            eq(votes.sessionId, sessionId),
+            eq(votes.scenarioId, scenarioId),
+            eq(votes.round, targetRound),
+            isNotNull(votes.confidence)
+          )
+        )
+        .groupBy(votes.vote, votes.confidence);
+
+      const latencyResults = await db
+        .select({
+          vote: votes.vote,
+          latencyMs: votes.latencyMs,
+        })
+        .from(votes)
+        .where(
+          and(
+            eq(votes.sessionId, sessionId),
+            eq(votes.scenarioId, scenarioId),
+            eq(votes.round, targetRound),
+            isNotNull(votes.latencyMs)
+          )
+        );
+
+      const latencies = perTrack(tracks, () => [] as number[]);
+      latencyResults.forEach(result => {
+        (latencies[result.vote] ??= []).push(result.latencyMs!);
+      });
+      const allLatencies = Object.values(latencies).flat();
+
       const summary = {
+        round: targetRound,
         totalVotes: 0,
-        pullVotes: 0,
-        dontPullVotes: 0,
-        avgLatencyMs: 0,
+        trackVotes: perTrack(tracks, () => 0),
+        avgLatencyMs: allLatencies.length > 0
+          ? allLatencies.reduce((sum, latency) => sum + latency, 0) / allLatencies.length
+          : 0,
+        confidence: perTrack(tracks, () => [0, 0, 0, 0, 0]) as ConfidenceDistribution,
+        latency: Object.fromEntries(
+          Object.entries(latencies).map(([trackId, values]) => [trackId, latencyDistribution(values)])
+        ),
+        latencyComparison: null as LatencyComparison | null,
       };
 
+      confidenceResults.forEach(result => {
+        summary.confidence[result.vote] ??= [0, 0, 0, 0, 0];
+        summary.confidence[result.vote][result.confidence! - 1] = Number(result.count);
+      });
+
       voteResults.forEach(result => {
         const count = Number(result.count);
         summary.totalVotes += count;
-        if (result.vote === 'pull') {
-          summary.pullVotes = count;
-        } else {
-          summary.dontPullVotes = count;
-        }
-        summary.avgLatencyMs = Number(result.avgLatency) || 0;
+        summary.trackVotes[result.vote] = count;
       });
 
+      // Gut reaction against deliberation, between the two most chosen tracks
+      const [leader, runnerUp] = Object.keys(summary.trackVotes)
+        .sort((a, b) => summary.trackVotes[b] - summary.trackVotes[a]);
+      if (leader && runnerUp) {
+        summary.latencyComparison = compareLatencies(
+          { id: leader, values: latencies[leader] ?? [] },
+          { id: runnerUp, values: latencies[runnerUp] ?? [] }
+        );
+      }
+
       return { data: summary, error: null };
     } catch (error) {
       return { data: null, error: error as Error };
     }
   }
 
+  /**
+   * Compare each participant's first vote in the current play with their latest re-vote
+   */
+  static async getVoteShift(sessionId: string, scenarioId: string) {
+    try {
+      const { round: toRound, firstRound: fromRound } = await this.getCurrentRounds(sessionId, scenarioId);
+      const rows = await db
+        .select({
+          participantId: votes.participantId,
+          vote: votes.vote,
+          round: votes.round,
+        })
+        .from(votes)
+        .where(
+          and(
+            eq(votes.sessionId, sessionId),
+            eq(votes.scenarioId, scenarioId),
+            inArray(votes.round, [fromRound, toRound])
+          )
+        );
+
+      const firstVotes = new Map<string, string>();
+      rows
+        .filter(row => row.round === fromRound)
+        .forEach(row => firstVotes.set(row.participantId, row.vote));
+
+      const shift: VoteShift = {
+        fromRound,
+        toRound,
+        compared: 0,
+        unchanged: 0,
+        moves: [],
+      };
+
+      if (toRound > fromRound) {
+        rows
+          .filter(row => row.round === toRound && firstVotes.has(row.participantId))
+          .forEach(row => {
+            const before = firstVotes.get(row.participantId)!;
+            shift.compared++;
+            if (before === row.vote) {
+              shift.unchanged++;
+              return;
+            }
+
+            const move = shift.moves.find(m => m.from === before && m.to === row.vote);
+            if (move) {
+              move.count++;
+            } else {
+              shift.moves.push({ from: before, to: row.vote, count: 1 });
+            }
+          });
+      }
+
+      return { data: shift, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Group approved rationales from the latest round by the track each participant voted for
+   */
   static async getRationales(sessionId: string, scenarioId: string) {
     try {
+      const tracks = await this.getScenarioTracks(scenarioId);
+      const { round } = await this.getCurrentRounds(sessionId, scenarioId);
       const voteData = await db
         .select({
           vote: votes.vote,
-          rationale: rationales.originalText,
+          original: rationales.originalText,
+          processed: rationales.processedText,
+          moderated: rationales.moderated,
         })
         .from(votes)
-        .leftJoin(rationales, eq(rationales.voteId, votes.id))
+        .leftJoin(
+          rationales,
+          and(eq(rationales.voteId, votes.id), eq(rationales.reviewStatus, 'approved'))
+        )
         .where(
           and(
             eq(votes.sessionId, sessionId),
-            eq(votes.scenarioId, scenarioId)
+            eq(votes.scenarioId, scenarioId),
+            eq(votes.round, round)
           )
         );
 
-      const groupedRationales = {
-        pull: [] as string[],
-        dont_pull: [] as string[]
-      };
+      const groupedRationales = perTrack<string[]>(tracks, () => []);
 
       voteData.forEach(item => {
-        if (item.rationale) {
-          const voteType = item.vote === 'pull' ? 'pull' : 'dont_pull';
-          groupedRationales[voteType].push(item.rationale);
+        const rationale = displayedText(item.original, item.processed, item.moderated);
+        if (rationale) {
+          (groupedRationales[item.vote] ??= []).push(rationale);
         }
       });
 
       return { data: groupedRationales, error: null };
     } catch (error) {
-      return { data: { pull: [], dont_pull: [] }, error: error as Error };
+      return { data: {} as Record<string, string[]>, error: error as Error };
     }
   }
 
+  /**
+   * Approved mitigations from a scenario's latest round
+   */
   static async getMitigations(sessionId: string, scenarioId: string) {
     try {
+      const { round } = await this.getCurrentRounds(sessionId, scenarioId);
       const mitigationData = await db
         .select({
-          mitigation: mitigations.originalText,
+          original: mitigations.originalText,
+          processed: mitigations.processedText,
+          moderated: mitigations.moderated,
         })
         .from(votes)
-        .leftJoin(mitigations, eq(mitigations.voteId, votes.id))
+        .leftJoin(
+          mitigations,
+          and(eq(mitigations.voteId, votes.id), eq(mitigations.reviewStatus, 'approved'))
+        )
         .where(
           and(
             eq(votes.sessionId, sessionId),
-            eq(votes.scenarioId, scenarioId)
+            eq(votes.scenarioId, scenarioId),
+            eq(votes.round, round)
           )
         );
 
       const mitigationTexts = mitigationData
-        .filter(item => item.mitigation)
-        .map(item => item.mitigation!);
+        .map(item => displayedText(item.original, item.processed, item.moderated))
+        .filter((text): text is string => !!text);
 
       return { data: mitigationTexts, error: null };
     } catch (error) {
@@ -327,6 +838,8 @@ export class RoomService {
 
   static async endSession(sessionId: string) {
     try {
+      await GamePhaseService.transition(sessionId, 'completed');
+
       const [data] = await db
         .update(sessions)
         .set({
@@ -342,24 +855,75 @@ export class RoomService {
     }
   }
 
-  static async loadScenarios(difficulty?: 'beginner' | 'intermediate' | 'advanced') {
+  /**
+   * The active library: shared scenarios plus the owner's own
+   */
+  static async loadScenarios(difficulty: 'beginner' | 'intermediate' | 'advanced' | undefined, owner: LibraryOwner) {
     try {
-      let query = db
+      const data = await db
         .select()
         .from(scenarios)
-        .where(eq(scenarios.isActive, true));
-
-      if (difficulty) {
-        query = query.where(eq(scenarios.difficultyLevel, difficulty));
-      }
+        .where(
+          and(
+            eq(scenarios.isActive, true),
+            visibleTo(scenarios, owner),
+            difficulty ? eq(scenarios.difficultyLevel, difficulty) : undefined
+          )
+        );
 
-      const data = await query;
       return { data, error: null };
     } catch (error) {
       return { data: null, error: error as Error };
     }
   }
 
+  static async getScenarioTracks(scenarioId: string): Promise<ScenarioTrack[]> {
+    return ScenarioService.getTracks(await ScenarioService.getScenario(scenarioId));
+  }
+
+  // The scenario's latest round, and the one its current play opened with
+  static async getCurrentRounds(sessionId: string, scenarioId: string): Promise<{ round: number; firstRound: number }> {
+    const [entry] = await db
+      .select({ round: sessionScenarios.round, firstRound: sessionScenarios.firstRound })
+      .from(sessionScenarios)
+      .where(
+        and(
+          eq(sessionScenarios.sessionId, sessionId),
+          eq(sessionScenarios.scenarioId, scenarioId)
+        )
+      );
+
+    return entry ?? { round: 1, firstRound: 1 };
+  }
+
+  private static toModeratedColumns(result: ModerationResult) {
+    return {
+      originalText: result.original,
+      processedText: result.processed,
+      wordCount: result.processed.split(/\s+/).filter(Boolean).length,
+      moderated: result.moderated,
+      moderationReason: result.reasons.join(',') || null,
+    };
+  }
+
+  private static async getTimerDuration(sessionId: string): Promise<number> {
+    const [session] = await db
+      .select({ config: sessions.config })
+      .from(sessions)
+      .where(eq(sessions.id, sessionId));
+
+    return session?.config.timerDuration || DEFAULT_ROOM_CONFIG.timerDuration;
+  }
+
+  static async getRoomCode(sessionId: string): Promise<string | null> {
+    const [session] = await db
+      .select({ roomCode: sessions.roomCode })
+      .from(sessions)
+      .where(eq(sessions.id, sessionId));
+
+    return session?.roomCode ?? null;
+  }
+
   static async getActiveParticipantCount(sessionId: string): Promise<number> {
     const result = await db
       .select({ count: sql<number>`count(*)` })
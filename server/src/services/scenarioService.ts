@@ -0,0 +1,277 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Ajv, { ErrorObject } from 'ajv';
+import addFormats from 'ajv-formats';
+import { db } from '../db';
+import { scenarios } from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+import { visibleTo, ownedBy } from './organizationService';
+import type { LibraryOwner } from './organizationService';
+import type { Scenario, NewScenario, ScenarioTrack } from '../db/schema';
+
+// The authoring schema lives at the repo root so content tooling can share it
+const SCENARIO_SCHEMA_PATH = path.resolve(__dirname, '../../../schemas/scenario.schema.json');
+
+const ajv = new Ajv({ allErrors: true });
+addFormats(ajv);
+const validateDocument = ajv.compile(JSON.parse(readFileSync(SCENARIO_SCHEMA_PATH, 'utf8')));
+
+/**
+ * A scenario as described by scenario.schema.json (snake_case)
+ */
+export interface ScenarioDocument {
+  id: string;
+  title: string;
+  context: string;
+  ai_option: string;
+  non_ai_option: string;
+  assumptions: string[];
+  ethical_axes: string[];
+  risk_notes: string;
+  metrics: Record<string, unknown>;
+  content_warnings?: string[];
+  difficulty_level?: 'beginner' | 'intermediate' | 'advanced';
+  discussion_prompts?: string[];
+  mitigations?: string[];
+  tracks?: ScenarioTrack[];
+}
+
+export type ScenarioInput = Omit<ScenarioDocument, 'id'>;
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export class ScenarioValidationError extends Error {
+  constructor(public fields: FieldError[]) {
+    super('Scenario failed validation');
+    this.name = 'ScenarioValidationError';
+  }
+}
+
+export class ScenarioNotFoundError extends Error {
+  constructor() {
+    super('Scenario not found');
+    this.name = 'ScenarioNotFoundError';
+  }
+}
+
+/**
+ * Turn an ajv error into a field path like `assumptions[1]` or `metrics.benefit_estimate`
+ */
+function toFieldError(error: ErrorObject): FieldError {
+  const segments = error.instancePath.split('/').filter(Boolean);
+  if (error.keyword === 'required') {
+    segments.push((error.params as { missingProperty: string }).missingProperty);
+  }
+
+  const field = segments.reduce(
+    (acc, segment) => (/^\d+$/.test(segment) ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment),
+    ''
+  );
+
+  let message = error.message || 'is invalid';
+  if (error.keyword === 'required') {
+    message = 'is required';
+  } else if (error.keyword === 'enum') {
+    message = `must be one of: ${(error.params as { allowedValues: string[] }).allowedValues.join(', ')}`;
+  }
+
+  return { field: field || '(root)', message };
+}
+
+export class ScenarioService {
+  /**
+   * Validate a full scenario document against scenario.schema.json
+   */
+  static validate(document: unknown): FieldError[] {
+    if (!validateDocument(document)) {
+      return (validateDocument.errors || []).map(toFieldError);
+    }
+
+    // Votes are stored by track id, so ids must be unique within a scenario
+    const errors: FieldError[] = [];
+    const seen = new Set<string>();
+    ((document as ScenarioDocument).tracks || []).forEach((track, index) => {
+      if (seen.has(track.id)) {
+        errors.push({ field: `tracks[${index}].id`, message: 'must be unique' });
+      }
+      seen.add(track.id);
+    });
+    return errors;
+  }
+
+  /**
+   * The options participants vote between. Scenarios without tracks get
+   * the classic pair built from their AI and non-AI options.
+   */
+  static getTracks(row: Scenario): ScenarioTrack[] {
+    if (row.tracks && row.tracks.length > 0) {
+      return row.tracks;
+    }
+    return [
+      { id: 'pull', label: 'Pull the lever', description: row.aiOption },
+      { id: 'dont_pull', label: "Don't pull", description: row.nonAiOption },
+    ];
+  }
+
+  static toDocument(row: Scenario): ScenarioDocument {
+    return {
+      id: row.id,
+      title: row.title,
+      context: row.context,
+      ai_option: row.aiOption,
+      non_ai_option: row.nonAiOption,
+      assumptions: row.assumptions,
+      ethical_axes: row.ethicalAxes,
+      risk_notes: row.riskNotes ?? '',
+      metrics: row.metrics as Record<string, unknown>,
+      content_warnings: row.contentWarnings,
+      difficulty_level: row.difficultyLevel,
+      discussion_prompts: row.discussionPrompts,
+      mitigations: row.mitigations ?? [],
+      ...(row.tracks ? { tracks: row.tracks } : {}),
+    };
+  }
+
+  static fromDocument(document: ScenarioDocument): NewScenario {
+    return {
+      id: document.id,
+      title: document.title,
+      context: document.context,
+      aiOption: document.ai_option,
+      nonAiOption: document.non_ai_option,
+      assumptions: document.assumptions,
+      ethicalAxes: document.ethical_axes,
+      riskNotes: document.risk_notes,
+      metrics: document.metrics,
+      contentWarnings: document.content_warnings ?? [],
+      difficultyLevel: document.difficulty_level ?? 'intermediate',
+      discussionPrompts: document.discussion_prompts ?? [],
+      mitigations: document.mitigations ?? [],
+      tracks: document.tracks ?? null,
+    };
+  }
+
+  /**
+   * Look up a scenario. Given an owner, scenarios private to another
+   * organization or account are not found.
+   */
+  static async getScenario(scenarioId: string, owner?: LibraryOwner): Promise<Scenario> {
+    const [row] = await db
+      .select()
+      .from(scenarios)
+      .where(
+        owner === undefined
+          ? eq(scenarios.id, scenarioId)
+          : and(eq(scenarios.id, scenarioId), visibleTo(scenarios, owner))
+      );
+
+    if (!row) {
+      throw new ScenarioNotFoundError();
+    }
+    return row;
+  }
+
+  /**
+   * Look up a scenario the owner may change. Shared scenarios are never
+   * found; clone one to change it.
+   */
+  static async getOwnedScenario(scenarioId: string, owner: LibraryOwner): Promise<Scenario> {
+    const [row] = await db
+      .select()
+      .from(scenarios)
+      .where(and(eq(scenarios.id, scenarioId), ownedBy(scenarios, owner)));
+
+    if (!row) {
+      throw new ScenarioNotFoundError();
+    }
+    return row;
+  }
+
+  /**
+   * Scenarios are private to the organization or account creating them
+   */
+  static async createScenario(input: ScenarioInput, owner: LibraryOwner) {
+    try {
+      const document = { ...input, id: randomUUID() };
+      const fields = this.validate(document);
+      if (fields.length > 0) {
+        throw new ScenarioValidationError(fields);
+      }
+
+      const [data] = await db
+        .insert(scenarios)
+        .values({ ...this.fromDocument(document), ...owner })
+        .returning();
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Apply a partial update; the merged scenario must still satisfy the schema
+   */
+  static async updateScenario(scenarioId: string, changes: Partial<ScenarioInput>, owner: LibraryOwner) {
+    try {
+      const existing = await this.getOwnedScenario(scenarioId, owner);
+      const document = { ...this.toDocument(existing), ...changes, id: existing.id };
+      const fields = this.validate(document);
+      if (fields.length > 0) {
+        throw new ScenarioValidationError(fields);
+      }
+
+      const [data] = await db
+        .update(scenarios)
+        .set({ ...this.fromDocument(document), updatedAt: new Date() })
+        .where(eq(scenarios.id, scenarioId))
+        .returning();
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Hide a scenario from the library without breaking past sessions that used it
+   */
+  static async archiveScenario(scenarioId: string, owner: LibraryOwner) {
+    try {
+      await this.getOwnedScenario(scenarioId, owner);
+
+      const [data] = await db
+        .update(scenarios)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(scenarios.id, scenarioId))
+        .returning();
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Copy a scenario as a starting point for a new one, optionally overriding
+   * fields. Copies of shared scenarios belong to whoever clones them.
+   */
+  static async cloneScenario(scenarioId: string, overrides: Partial<ScenarioInput>, owner: LibraryOwner) {
+    try {
+      const existing = await this.getScenario(scenarioId, owner);
+      const { id: _id, ...source } = this.toDocument(existing);
+
+      return await this.createScenario({
+        ...source,
+        title: `${source.title} (copy)`,
+        ...overrides,
+      }, owner);
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+}
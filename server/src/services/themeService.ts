@@ -0,0 +1,53 @@
+import { RoomService } from './roomService';
+import { clusterThemes } from '../utils/themeClustering';
+import type { Theme as ThemeSummary, RationaleTheme, ScenarioThemes } from '../../../shared/contracts';
+
+export type { ThemeSummary, RationaleTheme, ScenarioThemes };
+
+export class ThemeService {
+  /**
+   * Group a scenario's approved rationales and mitigations into themes.
+   * Everything runs in process; no text leaves the server.
+   */
+  static async getThemes(sessionId: string, scenarioId: string) {
+    try {
+      const [rationales, mitigations] = await Promise.all([
+        RoomService.getRationales(sessionId, scenarioId),
+        RoomService.getMitigations(sessionId, scenarioId),
+      ]);
+      if (rationales.error) {
+        throw rationales.error;
+      }
+      if (mitigations.error) {
+        throw mitigations.error;
+      }
+
+      const votedFor = Object.entries(rationales.data)
+        .flatMap(([trackId, texts]) => texts.map(text => ({ trackId, text })));
+      const rationaleThemes = clusterThemes(votedFor.map(({ text }) => text));
+      const mitigationThemes = clusterThemes(mitigations.data);
+
+      const data: ScenarioThemes = {
+        rationales: {
+          themes: rationaleThemes.themes.map(({ members, ...theme }) => ({
+            ...theme,
+            trackCounts: members.reduce<Record<string, number>>((counts, index) => {
+              const { trackId } = votedFor[index];
+              counts[trackId] = (counts[trackId] ?? 0) + 1;
+              return counts;
+            }, {}),
+          })),
+          unthemed: rationaleThemes.unthemed,
+        },
+        mitigations: {
+          themes: mitigationThemes.themes.map(({ members: _members, ...theme }) => theme),
+          unthemed: mitigationThemes.unthemed,
+        },
+      };
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+}
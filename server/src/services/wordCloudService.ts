@@ -0,0 +1,63 @@
+import { RoomService } from './roomService';
+import { countTerms, compareTerms } from '../utils/textAnalysis';
+import type { TermCountOptions, TermFrequencies } from '../utils/textAnalysis';
+import type { WordCloudComparison } from '../../../shared/contracts';
+
+export type { WordCloudComparison };
+
+export class WordCloudService {
+  /**
+   * Word and phrase frequencies per track, from the rationales participants
+   * can see: approved and moderated, never the raw text
+   */
+  static async getWordCloud(sessionId: string, scenarioId: string, options: TermCountOptions = {}) {
+    try {
+      const rationales = await RoomService.getRationales(sessionId, scenarioId);
+      if (rationales.error) {
+        throw rationales.error;
+      }
+
+      const data: Record<string, TermFrequencies> = Object.fromEntries(
+        Object.entries(rationales.data).map(([trackId, texts]) => [trackId, countTerms(texts, options)])
+      );
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+
+  /**
+   * Compare two tracks' rationales; without a pair, the scenario's first two tracks
+   */
+  static async compareTracks(
+    sessionId: string,
+    scenarioId: string,
+    pair?: [string, string],
+    options: TermCountOptions = {}
+  ) {
+    try {
+      const rationales = await RoomService.getRationales(sessionId, scenarioId);
+      if (rationales.error) {
+        throw rationales.error;
+      }
+
+      const trackIds = Object.keys(rationales.data);
+      const tracks = pair ?? [trackIds[0], trackIds[1]];
+      if (tracks.some(trackId => !trackIds.includes(trackId)) || tracks[0] === tracks[1]) {
+        throw new Error('Choose two different tracks from this scenario');
+      }
+
+      const sides: [string[], string[]] = [rationales.data[tracks[0]], rationales.data[tracks[1]]];
+      const data: WordCloudComparison = {
+        tracks: tracks as [string, string],
+        rationales: sides,
+        terms: compareTerms(sides, options),
+      };
+
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error as Error };
+    }
+  }
+}
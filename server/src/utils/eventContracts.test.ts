@@ -0,0 +1,219 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  INBOUND_EVENTS,
+  OUTBOUND_EVENTS,
+  validateEvent,
+  rejectMessage,
+  getValidationMode,
+} from './eventContracts';
+
+const SESSION = '6f1c2b9e-3d4a-4c5b-8e7f-9a0b1c2d3e4f';
+const SCENARIO = '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d';
+const PARTICIPANT = 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e';
+const ROOM = 'AB3_X-';
+const NOW = '2024-06-01T10:00:00.000Z';
+
+const phase = {
+  session_id: SESSION,
+  scenario_id: SCENARIO,
+  phase: 'voting',
+  deadline: NOW,
+  deck_position: 0,
+  deck_size: 3,
+  round: 1,
+  first_round: 1,
+  server_time: NOW,
+};
+
+// A payload the server or client actually sends for every message in the contract
+const INBOUND: Record<string, unknown> = {
+  join_room: { sessionId: SESSION, participantId: PARTICIPANT },
+  sync_state: { sessionId: SESSION, participantId: PARTICIPANT },
+  leave_room: {},
+  start_timer: { sessionId: SESSION, scenarioId: SCENARIO, duration: 30 },
+  start_scenario: { sessionId: SESSION, scenarioId: SCENARIO, scenarioTitle: 'The Trolley' },
+  announce_decision: {
+    sessionId: SESSION,
+    scenarioId: SCENARIO,
+    decision: 'pull',
+    trackVotes: { pull: 3, dont_pull: 1 },
+    totalVotes: 4,
+  },
+  end_session: { sessionId: SESSION, roomCode: ROOM },
+};
+
+const OUTBOUND: Record<string, unknown> = {
+  room_created: {
+    roomId: ROOM,
+    sessionId: SESSION,
+    facilitatorId: 'facilitator-1',
+    timestamp: NOW,
+    config: { timerDuration: 30 },
+  },
+  participant_joined: { participant_id: PARTICIPANT, room_code: ROOM, active_count: 4 },
+  participant_left: { participant_id: PARTICIPANT, room_code: ROOM, active_count: 3 },
+  vote_cast: {
+    session_id: SESSION,
+    scenario_id: SCENARIO,
+    vote: 'pull',
+    round: 1,
+    total_votes: 2,
+    track_votes: { pull: 1, dont_pull: 1 },
+    confidence: { pull: [0, 0, 1, 0, 0], dont_pull: [0, 0, 0, 0, 1] },
+    latency: {
+      pull: { count: 1, medianMs: 4200, p25Ms: 4200, p75Ms: 4200, buckets: [0, 1, 0] },
+    },
+    latency_comparison: null,
+  },
+  rationale_added: {
+    session_id: SESSION,
+    scenario_id: SCENARIO,
+    vote: 'pull',
+    rationale: 'Fewer people hurt',
+    participant_id: PARTICIPANT,
+  },
+  timer_started: { session_id: SESSION, scenario_id: SCENARIO, duration: 30, start_time: NOW },
+  timer_tick: { session_id: SESSION, scenario_id: SCENARIO, seconds_remaining: 12 },
+  scenario_started: { session_id: SESSION, scenario_id: SCENARIO, scenario_title: 'The Trolley' },
+  phase_changed: phase,
+  sync_state: {
+    session_id: SESSION,
+    room_code: ROOM,
+    status: 'active',
+    active_participants: 4,
+    phase,
+    scenario: { id: SCENARIO, title: 'The Trolley' },
+    tallies: {
+      total_votes: 1,
+      track_votes: { pull: 1 },
+      confidence: { pull: [0, 0, 0, 1, 0] },
+      latency: {},
+      latency_comparison: null,
+    },
+    my_vote: { vote: 'pull', rationale: null },
+  },
+  decision_announced: {
+    session_id: SESSION,
+    scenario_id: SCENARIO,
+    decision: 'tie',
+    track_votes: { pull: 2, dont_pull: 2 },
+    total_votes: 4,
+  },
+  session_ended: { session_id: SESSION, room_code: ROOM },
+  word_clouds_updated: {
+    roomId: ROOM,
+    scenarioId: SCENARIO,
+    clouds: { pull: [{ text: 'lives', count: 3, size: 24 }] },
+  },
+  session_exported: {
+    roomId: ROOM,
+    sessionId: SESSION,
+    exportUrl: 'https://example.com/export.csv',
+    timestamp: NOW,
+  },
+  moderation_event: {
+    roomId: ROOM,
+    participantId: 'participant-1',
+    type: 'profanity_filtered',
+    reason: 'Blocked word',
+    timestamp: NOW,
+  },
+  moderation_queue_updated: { session_id: SESSION, pending_count: 2 },
+  error: rejectMessage('start_timer', [{ path: '/duration', message: 'must be <= 120' }]),
+};
+
+describe('event contracts', () => {
+  it('has a conforming example for every message in the schema', () => {
+    assert.deepEqual(Object.keys(INBOUND).sort(), [...INBOUND_EVENTS].sort());
+    assert.deepEqual(Object.keys(OUTBOUND).sort(), [...OUTBOUND_EVENTS].sort());
+  });
+
+  for (const [event, payload] of Object.entries(INBOUND)) {
+    it(`accepts ${event} from clients`, () => {
+      assert.deepEqual(validateEvent('inbound', event, payload), []);
+    });
+  }
+
+  for (const [event, payload] of Object.entries(OUTBOUND)) {
+    it(`accepts ${event} from the server`, () => {
+      assert.deepEqual(validateEvent('outbound', event, payload), []);
+    });
+  }
+
+  it('points at missing fields', () => {
+    const errors = validateEvent('inbound', 'start_timer', { sessionId: SESSION, duration: 30 });
+
+    assert.deepEqual(errors, [{ path: '/scenarioId', message: 'is required' }]);
+  });
+
+  it('refuses fields a command does not declare', () => {
+    const errors = validateEvent('inbound', 'end_session', { sessionId: SESSION, roomCode: ROOM, force: true });
+
+    assert.deepEqual(errors, [{ path: '/force', message: 'is not allowed' }]);
+  });
+
+  it('reports every problem at once', () => {
+    const errors = validateEvent('inbound', 'start_timer', { sessionId: 'nope', scenarioId: SCENARIO, duration: 600 });
+
+    assert.deepEqual(errors.map(error => error.path).sort(), ['/duration', '/sessionId']);
+  });
+
+  it('checks nested values against the shared definitions', () => {
+    const errors = validateEvent('outbound', 'vote_cast', {
+      ...(OUTBOUND.vote_cast as object),
+      confidence: { pull: [1, 2, 3] },
+    });
+
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].path, '/confidence/pull');
+  });
+
+  it('lets facilitators sync without a participant id', () => {
+    assert.deepEqual(validateEvent('inbound', 'sync_state', { sessionId: SESSION, participantId: null }), []);
+    assert.deepEqual(validateEvent('inbound', 'join_room', { sessionId: SESSION }), []);
+  });
+
+  it('rejects a payload that is not an object', () => {
+    assert.notDeepEqual(validateEvent('inbound', 'join_room', SESSION), []);
+  });
+
+  it('fails unknown events in either direction', () => {
+    assert.deepEqual(validateEvent('inbound', 'pull_lever', {}), [{ path: '', message: 'Unknown inbound event' }]);
+    assert.deepEqual(validateEvent('outbound', 'join_room', {}), [{ path: '', message: 'Unknown outbound event' }]);
+  });
+});
+
+describe('rejectMessage', () => {
+  it('describes an invalid payload of a known command', () => {
+    const errors = [{ path: '/duration', message: 'is required' }];
+
+    assert.deepEqual(rejectMessage('start_timer', errors), {
+      code: 'invalid_payload',
+      event: 'start_timer',
+      message: 'Invalid start_timer payload',
+      errors,
+    });
+  });
+
+  it('describes an event the server does not handle', () => {
+    const rejection = rejectMessage('pull_lever', []);
+
+    assert.equal(rejection.code, 'unknown_event');
+    assert.equal(rejection.message, 'Unknown event pull_lever');
+  });
+});
+
+describe('getValidationMode', () => {
+  it('is strict in production and warns elsewhere', () => {
+    assert.equal(getValidationMode({ NODE_ENV: 'production' }), 'strict');
+    assert.equal(getValidationMode({ NODE_ENV: 'development' }), 'warn');
+    assert.equal(getValidationMode({}), 'warn');
+  });
+
+  it('follows SOCKET_VALIDATION when set', () => {
+    assert.equal(getValidationMode({ NODE_ENV: 'production', SOCKET_VALIDATION: 'warn' }), 'warn');
+    assert.equal(getValidationMode({ NODE_ENV: 'test', SOCKET_VALIDATION: 'strict' }), 'strict');
+    assert.equal(getValidationMode({ NODE_ENV: 'production', SOCKET_VALIDATION: 'off' }), 'strict');
+  });
+});
@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import type { PayloadError, RejectedMessage } from '../../../shared/contracts';
+
+export type { PayloadError, RejectedMessage };
+
+// Shared with the client and content tooling, so it lives at the repo root
+const EVENT_SCHEMA_PATH = path.resolve(__dirname, '../../../schemas/events.schema.json');
+const SCHEMA_KEY = 'events.schema.json';
+
+// Inbound messages are the schema's commands; outbound ones its events
+export type EventDirection = 'inbound' | 'outbound';
+
+/**
+ * warn: outbound messages that break the contract are logged and still sent.
+ * strict: they are logged and withheld. Invalid inbound messages are always
+ * refused.
+ */
+export type EventValidationMode = 'warn' | 'strict';
+
+const document = JSON.parse(readFileSync(EVENT_SCHEMA_PATH, 'utf8'));
+
+// The schema keeps events and commands outside standard keywords, hence not strict
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+ajv.addSchema(document, SCHEMA_KEY);
+
+const SECTIONS: Record<EventDirection, 'commands' | 'events'> = {
+  inbound: 'commands',
+  outbound: 'events',
+};
+
+export const INBOUND_EVENTS: string[] = Object.keys(document.commands);
+export const OUTBOUND_EVENTS: string[] = Object.keys(document.events);
+
+const validators = new Map<string, ValidateFunction>();
+
+export function isKnownEvent(direction: EventDirection, event: string): boolean {
+  return Object.prototype.hasOwnProperty.call(document[SECTIONS[direction]], event);
+}
+
+function getValidator(direction: EventDirection, event: string): ValidateFunction {
+  const key = `${direction}:${event}`;
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = ajv.getSchema(`${SCHEMA_KEY}#/${SECTIONS[direction]}/${event}`)!;
+    validators.set(key, validate);
+  }
+  return validate;
+}
+
+function toPayloadError(error: ErrorObject): PayloadError {
+  if (error.keyword === 'required') {
+    return { path: `${error.instancePath}/${error.params.missingProperty}`, message: 'is required' };
+  }
+  if (error.keyword === 'additionalProperties') {
+    return { path: `${error.instancePath}/${error.params.additionalProperty}`, message: 'is not allowed' };
+  }
+  return { path: error.instancePath, message: error.message ?? 'is invalid' };
+}
+
+/**
+ * Check a message against its contract in events.schema.json. An empty
+ * list means it conforms; unknown events fail with a single error.
+ */
+export function validateEvent(direction: EventDirection, event: string, payload: unknown): PayloadError[] {
+  if (!isKnownEvent(direction, event)) {
+    return [{ path: '', message: `Unknown ${direction} event` }];
+  }
+
+  const validate = getValidator(direction, event);
+  if (validate(payload)) {
+    return [];
+  }
+  return (validate.errors ?? []).map(toPayloadError);
+}
+
+/**
+ * The error event for a refused inbound message
+ */
+export function rejectMessage(event: string, errors: PayloadError[]): RejectedMessage {
+  const known = isKnownEvent('inbound', event);
+  return {
+    code: known ? 'invalid_payload' : 'unknown_event',
+    event,
+    message: known ? `Invalid ${event} payload` : `Unknown event ${event}`,
+    errors,
+  };
+}
+
+/**
+ * SOCKET_VALIDATION picks the mode; production defaults to strict
+ */
+export function getValidationMode(env: NodeJS.ProcessEnv = process.env): EventValidationMode {
+  const configured = env.SOCKET_VALIDATION;
+  if (configured === 'warn' || configured === 'strict') {
+    return configured;
+  }
+  return env.NODE_ENV === 'production' ? 'strict' : 'warn';
+}
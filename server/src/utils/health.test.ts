@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readinessProblems } from './health';
+
+const reachable = { reachable: true, connectionAttempts: 0, pool: null };
+
+describe('readinessProblems', () => {
+  it('is ready with a reachable database and no open circuits', () => {
+    assert.deepEqual(readinessProblems({ database: reachable, circuits: {} }), []);
+  });
+
+  it('lets closed and half-open circuits through', () => {
+    const circuits = { 'join-room': 'closed', 'vote-summary': 'halfOpen' } as const;
+
+    assert.deepEqual(readinessProblems({ database: reachable, circuits }), []);
+  });
+
+  it('fails while a database circuit is open', () => {
+    const circuits = { 'join-room': 'closed', health: 'open' } as const;
+
+    assert.deepEqual(readinessProblems({ database: reachable, circuits }), ['Database circuit health is open']);
+  });
+
+  it('fails when the database cannot be reached', () => {
+    const database = { reachable: false, connectionAttempts: 2, pool: null };
+
+    assert.deepEqual(readinessProblems({ database, circuits: {} }), ['Database is unreachable']);
+  });
+});
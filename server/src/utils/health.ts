@@ -0,0 +1,22 @@
+import type { HealthReport } from '../../../shared/contracts';
+
+/**
+ * Why an instance should stop taking traffic. An open circuit means queries
+ * are already being refused, so the load balancer should drain the node
+ * until the breaker lets a trial query through again.
+ */
+export function readinessProblems(report: Pick<HealthReport, 'database' | 'circuits'>): string[] {
+  const problems: string[] = [];
+
+  if (!report.database.reachable) {
+    problems.push('Database is unreachable');
+  }
+
+  for (const [name, state] of Object.entries(report.circuits)) {
+    if (state === 'open') {
+      problems.push(`Database circuit ${name} is open`);
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildReplay } from './replay';
+import type { ReplayEvent } from './replay';
+
+const SESSION = 'session-1';
+const FIRST = 'scenario-1';
+const SECOND = 'scenario-2';
+
+function log(events: Array<[string, Record<string, any>]>): ReplayEvent[] {
+  const start = Date.UTC(2024, 5, 1, 10, 0, 0);
+  return events.map(([type, payload], index) => ({
+    sequence: index + 1,
+    type,
+    payload: { session_id: SESSION, ...payload },
+    occurredAt: new Date(start + index * 1000),
+  }));
+}
+
+function phase(scenarioId: string | null, phaseName: string, round = 1) {
+  return ['phase_changed', { scenario_id: scenarioId, phase: phaseName, round }] as [string, Record<string, any>];
+}
+
+function voteCast(scenarioId: string, vote: string, trackVotes: Record<string, number>, round = 1) {
+  const total = Object.values(trackVotes).reduce((sum, count) => sum + count, 0);
+  return ['vote_cast', { scenario_id: scenarioId, vote, round, track_votes: trackVotes, total_votes: total }] as [string, Record<string, any>];
+}
+
+describe('buildReplay', () => {
+  it('builds tallies up from the running totals on each vote', () => {
+    const { frames } = buildReplay(log([
+      phase(FIRST, 'voting'),
+      voteCast(FIRST, 'pull', { pull: 1 }),
+      voteCast(FIRST, 'dont_pull', { pull: 1, dont_pull: 1 }),
+      voteCast(FIRST, 'pull', { pull: 2, dont_pull: 1 }),
+    ]));
+
+    assert.deepEqual(frames.map(frame => frame.totalVotes), [0, 1, 2, 3]);
+    assert.deepEqual(frames.map(frame => frame.leader), [null, 'pull', 'tie', 'pull']);
+    assert.equal(frames[2].vote, 'dont_pull');
+  });
+
+  it('times frames from the first event', () => {
+    const { frames } = buildReplay(log([phase(FIRST, 'voting'), voteCast(FIRST, 'pull', { pull: 1 })]));
+
+    assert.deepEqual(frames.map(frame => frame.elapsedMs), [0, 1000]);
+  });
+
+  it('starts tallies again for a new scenario and for a re-vote', () => {
+    const { frames } = buildReplay(log([
+      phase(FIRST, 'voting'),
+      voteCast(FIRST, 'pull', { pull: 1 }),
+      phase(FIRST, 'results'),
+      phase(FIRST, 'voting', 2),
+      voteCast(FIRST, 'dont_pull', { dont_pull: 1 }, 2),
+      phase(SECOND, 'voting'),
+    ]));
+
+    assert.equal(frames[2].totalVotes, 1);
+    assert.equal(frames[3].totalVotes, 0);
+    assert.equal(frames[3].round, 2);
+    assert.deepEqual(frames[4].trackVotes, { dont_pull: 1 });
+    assert.equal(frames[5].scenarioId, SECOND);
+    assert.equal(frames[5].totalVotes, 0);
+  });
+
+  it('keeps the last results on screen back in the lobby', () => {
+    const { frames } = buildReplay(log([
+      phase(FIRST, 'voting'),
+      voteCast(FIRST, 'pull', { pull: 1 }),
+      phase(null, 'waiting'),
+    ]));
+
+    assert.equal(frames[2].phase, 'waiting');
+    assert.equal(frames[2].scenarioId, FIRST);
+    assert.equal(frames[2].totalVotes, 1);
+  });
+
+  it('collects rationales against the frame they arrived on', () => {
+    const { frames, rationales } = buildReplay(log([
+      phase(FIRST, 'voting', 2),
+      voteCast(FIRST, 'pull', { pull: 1 }, 2),
+      ['rationale_added', { scenario_id: FIRST, vote: 'pull', rationale: 'Fewer people hurt', participant_id: 'participant-1' }],
+    ]));
+
+    assert.equal(frames[2].rationaleCount, 1);
+    assert.deepEqual(rationales, [
+      { sequence: 3, scenarioId: FIRST, round: 2, vote: 'pull', rationale: 'Fewer people hurt' },
+    ]);
+  });
+
+  it('replays in sequence order whatever order the events are read in', () => {
+    const events = log([phase(FIRST, 'voting'), voteCast(FIRST, 'pull', { pull: 1 })]).reverse();
+    const { frames } = buildReplay(events);
+
+    assert.deepEqual(frames.map(frame => frame.type), ['phase_changed', 'vote_cast']);
+  });
+
+  it('marks the session complete when it ends', () => {
+    const { frames } = buildReplay(log([phase(FIRST, 'voting'), ['session_ended', { room_code: 'ABC123' }]]));
+
+    assert.equal(frames[1].phase, 'completed');
+  });
+
+  it('is empty for an empty log', () => {
+    assert.deepEqual(buildReplay([]), { frames: [], rationales: [] });
+  });
+});
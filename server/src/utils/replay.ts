@@ -0,0 +1,118 @@
+import type { GamePhase, ReplayFrame, ReplayRationale } from '../../../shared/contracts';
+
+export type { ReplayFrame, ReplayRationale };
+
+// A logged event as read back for a replay; payloads are as broadcast
+export interface ReplayEvent {
+  sequence: number;
+  type: string;
+  payload: Record<string, any>;
+  occurredAt: Date;
+}
+
+export interface Replay {
+  frames: ReplayFrame[];
+  rationales: ReplayRationale[];
+}
+
+function leaderOf(trackVotes: Record<string, number>): string | null {
+  const counts = Object.entries(trackVotes).filter(([, count]) => count > 0);
+  if (counts.length === 0) {
+    return null;
+  }
+  const top = Math.max(...counts.map(([, count]) => count));
+  const leaders = counts.filter(([, count]) => count === top);
+  return leaders.length === 1 ? leaders[0][0] : 'tie';
+}
+
+/**
+ * Fold a session's event log into one frame per event, so a replay can
+ * step through how tallies and rationales built up. Tallies come from the
+ * running totals each vote_cast carried; a new scenario or round starts
+ * them again from zero.
+ */
+export function buildReplay(events: ReplayEvent[]): Replay {
+  const ordered = [...events].sort((a, b) => a.sequence - b.sequence);
+  const startedAt = ordered[0]?.occurredAt.getTime() ?? 0;
+
+  let phase: GamePhase | null = null;
+  let scenarioId: string | null = null;
+  let round = 1;
+  let trackVotes: Record<string, number> = {};
+  let totalVotes = 0;
+  let rationaleCount = 0;
+
+  const moveTo = (nextScenarioId: string | null, nextRound: number) => {
+    if (nextScenarioId !== scenarioId || nextRound !== round) {
+      trackVotes = {};
+      totalVotes = 0;
+      rationaleCount = 0;
+    }
+    scenarioId = nextScenarioId;
+    round = nextRound;
+  };
+
+  const rationales: ReplayRationale[] = [];
+  const frames = ordered.map(event => {
+    const { payload } = event;
+    let vote: string | null = null;
+
+    switch (event.type) {
+      case 'phase_changed':
+        // Back in the lobby the last scenario's results stay on screen
+        if (payload.scenario_id) {
+          moveTo(payload.scenario_id, payload.round ?? 1);
+        }
+        phase = payload.phase;
+        break;
+      case 'scenario_started':
+        moveTo(payload.scenario_id, 1);
+        break;
+      case 'vote_cast':
+        moveTo(payload.scenario_id, payload.round ?? round);
+        trackVotes = { ...payload.track_votes };
+        totalVotes = payload.total_votes;
+        vote = payload.vote;
+        break;
+      case 'decision_announced':
+        if (payload.scenario_id === scenarioId) {
+          trackVotes = { ...payload.track_votes };
+          totalVotes = payload.total_votes;
+        }
+        break;
+      case 'rationale_added':
+        vote = payload.vote;
+        if (payload.scenario_id === scenarioId) {
+          rationaleCount += 1;
+        }
+        rationales.push({
+          sequence: event.sequence,
+          scenarioId: payload.scenario_id,
+          round: payload.scenario_id === scenarioId ? round : 1,
+          vote: payload.vote,
+          rationale: payload.rationale,
+        });
+        break;
+      case 'session_ended':
+        phase = 'completed';
+        break;
+    }
+
+    const frame: ReplayFrame = {
+      sequence: event.sequence,
+      type: event.type,
+      elapsedMs: event.occurredAt.getTime() - startedAt,
+      phase,
+      scenarioId,
+      round,
+      totalVotes,
+      trackVotes,
+      leader: leaderOf(trackVotes),
+      rationaleCount,
+      vote,
+    };
+    return frame;
+  });
+
+  return { frames, rationales };
+}
@@ -1,5 +1,6 @@
 import CircuitBreaker from 'opossum';
 import winston from 'winston';
+import type { CircuitState } from '../../../shared/contracts';
 
 const logger = winston.createLogger({
   level: 'info',
@@ -223,6 +224,17 @@ export class ResilientDatabase {
     return stats;
   }
 
+  /**
+   * Whether each circuit breaker is letting queries through
+   */
+  getStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    this.circuitBreakers.forEach((breaker, key) => {
+      states[key] = breaker.opened ? 'open' : breaker.halfOpen ? 'halfOpen' : 'closed';
+    });
+    return states;
+  }
+
   /**
    * Reset a circuit breaker
    */
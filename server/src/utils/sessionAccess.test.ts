@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { canReadSession } from './sessionAccess';
+import type { TokenPayload } from '../services/authService';
+
+const ORG_A = 'org-a';
+const ORG_B = 'org-b';
+
+const session = { id: 'session-a', organizationId: ORG_A, facilitatorId: 'account-a' };
+
+function token(overrides: Partial<TokenPayload>): TokenPayload {
+  return {
+    sessionId: '',
+    participantId: 'someone',
+    fingerprint: 'someone',
+    roomCode: '',
+    ...overrides,
+  };
+}
+
+describe('canReadSession', () => {
+  it('lets in participants of the session', () => {
+    const auth = token({ sessionId: 'session-a', role: 'participant' });
+
+    assert.equal(canReadSession(auth, session), true);
+  });
+
+  it('keeps out participants of other sessions', () => {
+    const auth = token({ sessionId: 'session-b', role: 'participant', organizationId: ORG_A });
+
+    assert.equal(canReadSession(auth, session), false);
+  });
+
+  it('lets in the facilitator running the session', () => {
+    const auth = token({ sessionId: 'session-a', role: 'facilitator' });
+
+    assert.equal(canReadSession(auth, session), true);
+  });
+
+  it('lets in facilitators of the same organization', () => {
+    const auth = token({ sessionId: 'session-c', role: 'facilitator', organizationId: ORG_A });
+
+    assert.equal(canReadSession(auth, session), true);
+  });
+
+  it('keeps out facilitators of another organization', () => {
+    const auth = token({ sessionId: 'session-b', role: 'facilitator', organizationId: ORG_B });
+
+    assert.equal(canReadSession(auth, session), false);
+  });
+
+  it('keeps out anonymous facilitators from sessions outside any organization', () => {
+    const unscoped = { ...session, organizationId: null, facilitatorId: 'facilitator-a' };
+    const auth = token({ sessionId: 'session-b', role: 'facilitator' });
+
+    assert.equal(canReadSession(auth, unscoped), false);
+  });
+
+  it('lets in the account that opened the session', () => {
+    const auth = token({ role: 'facilitator', accountId: 'account-a', organizationId: ORG_B });
+
+    assert.equal(canReadSession(auth, session), true);
+  });
+});
@@ -0,0 +1,26 @@
+import type { TokenPayload } from '../services/authService';
+
+// What decides who may read a session
+export interface SessionOwnership {
+  id: string;
+  organizationId: string | null;
+  facilitatorId: string | null;
+}
+
+/**
+ * Whether a token may read a session's results. Tokens issued for the
+ * session itself let in its participants and facilitator; other facilitators
+ * get in through the session's organization, or the account that opened it.
+ */
+export function canReadSession(auth: TokenPayload, session: SessionOwnership): boolean {
+  if (auth.sessionId === session.id) {
+    return true;
+  }
+  if (auth.role !== 'facilitator') {
+    return false;
+  }
+  if (session.organizationId !== null && auth.organizationId === session.organizationId) {
+    return true;
+  }
+  return !!auth.accountId && auth.accountId === session.facilitatorId;
+}
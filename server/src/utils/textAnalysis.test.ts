@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { stemWord, tokenize, countTerms, compareTerms } from './textAnalysis';
+
+describe('stemWord', () => {
+  it('groups plurals and verb forms', () => {
+    assert.equal(stemWord('decisions'), stemWord('decision'));
+    assert.equal(stemWord('reviewed'), stemWord('review'));
+    assert.equal(stemWord('reviewing'), stemWord('reviews'));
+    assert.equal(stemWord('policies'), stemWord('policy'));
+  });
+
+  it('leaves short words and double s alone', () => {
+    assert.equal(stemWord('bus'), 'bus');
+    assert.equal(stemWord('process'), 'process');
+    assert.equal(stemWord('red'), 'red');
+    assert.equal(stemWord('family'), 'family');
+    assert.equal(stemWord('speed'), 'speed');
+  });
+});
+
+describe('tokenize', () => {
+  it('splits runs at punctuation and redactions', () => {
+    assert.deepEqual(tokenize('Human review, always. Call [REDACTED] now'), [
+      ['human', 'review'],
+      ['always'],
+      ['call'],
+      ['now'],
+    ]);
+  });
+
+  it('treats masked words as a break', () => {
+    assert.deepEqual(tokenize('total **** nonsense'), [['total'], ['nonsense']]);
+  });
+
+  it('keeps hyphenated words and contractions whole', () => {
+    assert.deepEqual(tokenize("Don't trust black-box models"), [["don't", 'trust', 'black-box', 'models']]);
+  });
+});
+
+describe('countTerms', () => {
+  it('counts stemmed words once per text', () => {
+    const { unigrams } = countTerms(['Fairness fairness matters', 'fairness first']);
+    assert.deepEqual(unigrams.find(term => term.text === 'fairness'), { text: 'fairness', count: 2 });
+  });
+
+  it('shows each stem in its most common form', () => {
+    const { unigrams } = countTerms(['more reviews', 'reviews help', 'review it']);
+    assert.deepEqual(unigrams[0], { text: 'reviews', count: 3 });
+  });
+
+  it('keeps phrases that more than one person used', () => {
+    const { bigrams } = countTerms([
+      'Human review catches errors',
+      'needs human review',
+      'human judgement',
+    ]);
+    assert.deepEqual(bigrams, [{ text: 'human review', count: 2 }]);
+  });
+
+  it('does not join words across stop words or punctuation', () => {
+    const { bigrams } = countTerms(['human in the loop', 'human, loop', 'human in the loop']);
+    assert.deepEqual(bigrams, []);
+  });
+
+  it('drops stop words, short words and numbers', () => {
+    const { unigrams } = countTerms(['it is 42 ok to use AI for triage']);
+    assert.deepEqual(unigrams.map(term => term.text), ['triage', 'use']);
+  });
+
+  it('accepts extra stop words', () => {
+    const { unigrams } = countTerms(['trolley safety'], { stopWords: ['Trolley'] });
+    assert.deepEqual(unigrams.map(term => term.text), ['safety']);
+  });
+
+  it('orders ties alphabetically and honours the limit', () => {
+    const { unigrams } = countTerms(['zebra apple mango'], { limit: 2 });
+    assert.deepEqual(unigrams.map(term => term.text), ['apple', 'mango']);
+  });
+});
+
+describe('compareTerms', () => {
+  const pull = [
+    'AI can scale to every family',
+    'scale matters most here',
+    'it scales where staff cannot',
+    'faster help at scale',
+    'staff are stretched thin',
+    'families need help now',
+  ];
+  const dontPull = [
+    'staff know the families',
+    'trust takes a human face',
+    'families need human trust',
+    'help should come from people',
+    'human judgement matters',
+    'staff build trust',
+    'trust is earned face to face',
+    'people trust people',
+  ];
+
+  it('finds terms over-represented on each side', () => {
+    const terms = compareTerms([pull, dontPull]);
+    const scale = terms.find(term => term.text === 'scale');
+    const trust = terms.find(term => term.text === 'trust');
+
+    assert.equal(scale?.favours, 0);
+    assert.ok(scale!.zScore > 0);
+    assert.equal(trust?.favours, 1);
+    assert.ok(trust!.zScore < 0);
+  });
+
+  it('shows terms both sides use as shared', () => {
+    const families = compareTerms([pull, dontPull]).find(term => term.text === 'families');
+    assert.equal(families?.favours, null);
+    assert.deepEqual(families?.counts, [2, 2]);
+  });
+
+  it('points back to the texts that use each term', () => {
+    const scale = compareTerms([pull, dontPull]).find(term => term.text === 'scale');
+    assert.deepEqual(scale?.matches, [[0, 1, 2, 3], []]);
+  });
+
+  it('skips terms used only once', () => {
+    assert.equal(compareTerms([pull, dontPull]).find(term => term.text === 'faster'), undefined);
+  });
+
+  it('copes with an empty side', () => {
+    const terms = compareTerms([pull, []]);
+    assert.ok(terms.length > 0);
+    assert.ok(terms.every(term => Number.isFinite(term.zScore)));
+  });
+});
@@ -0,0 +1,221 @@
+import type { TermCount, ComparedTerm, TrackWordCloud } from '../../../shared/contracts';
+
+// Common words left out of word clouds; matches the client's list
+export const DEFAULT_STOP_WORDS: readonly string[] = [
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
+  'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
+  'to', 'was', 'will', 'with', 'would', 'i', 'we', 'they', 'you',
+  'but', 'can', 'could', 'should', 'this', 'these', 'those', 'or',
+  'not', 'no', 'yes', 'more', 'most', 'very', 'so', 'too', 'just',
+  'than', 'only', 'other', 'some', 'all', 'any', 'may', 'might',
+  'must', 'shall', 'do', 'does', 'did', 'have', 'had', 'been',
+  'being', 'am', 'were', 'what', 'when', 'where', 'who', 'why',
+  'how', 'which', 'there', 'here', 'their', 'them', 'him', 'her',
+  "don't", "can't", "won't", "isn't", "it's", "i'm", "we're", "they're",
+];
+
+// Extra stop words for every session, comma separated
+const ENV_STOP_WORDS = (process.env.WORDCLOUD_STOP_WORDS || '')
+  .split(',')
+  .map(word => word.trim().toLowerCase())
+  .filter(Boolean);
+
+// Phrases seen once are mostly noise; it takes two people to make a phrase
+export const MIN_BIGRAM_COUNT = 2;
+
+// Added to every cell of the comparison table so unused terms don't divide by zero
+export const SMOOTHING = 0.5;
+
+// One-sided 95%: past this z-score a term counts as over-represented
+export const Z_THRESHOLD = 1.645;
+
+export type { TermCount, ComparedTerm };
+
+export type TermFrequencies = TrackWordCloud;
+
+export interface TermCountOptions {
+  // Added to the defaults and WORDCLOUD_STOP_WORDS
+  stopWords?: string[];
+  // Most terms returned of each kind
+  limit?: number;
+}
+
+export function getStopWords(extra: string[] = []): Set<string> {
+  return new Set([...DEFAULT_STOP_WORDS, ...ENV_STOP_WORDS, ...extra.map(word => word.toLowerCase())]);
+}
+
+/**
+ * Light suffix stripping so "decisions" and "decision" count together.
+ * Deliberately conservative: a wrong merge is worse than a missed one.
+ */
+export function stemWord(word: string): string {
+  const lower = word.toLowerCase();
+
+  if (/(?:ies|ied)$/.test(lower) && lower.length > 4) {
+    return `${lower.slice(0, -3)}y`;
+  }
+  // No -ly: "family" and "only" are not adverbs
+  for (const suffix of ['ing', 'ed']) {
+    if (lower.endsWith(suffix) && lower.length - suffix.length >= 4) {
+      return lower.slice(0, -suffix.length);
+    }
+  }
+  if (/[^su]s$/.test(lower) && lower.length > 3) {
+    return lower.slice(0, -1);
+  }
+  return lower;
+}
+
+/**
+ * Split text into runs of lowercase words. Sentence punctuation, masked
+ * words and redactions end a run, so bigrams never span them.
+ */
+export function tokenize(text: string): string[][] {
+  return text
+    .toLowerCase()
+    .replace(/\[redacted\]/g, '.')
+    .split(/[.,;:!?()"*…\n]+/)
+    .map(run => run.match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) ?? [])
+    .filter(run => run.length > 0);
+}
+
+function isContentWord(word: string, stopWords: Set<string>): boolean {
+  return word.length >= 3 && !stopWords.has(word) && !/^\d+$/.test(word);
+}
+
+// The way a stem was written most often; ties go to the shorter form
+export function mostCommonForm(forms: Map<string, number>): string {
+  const [[text]] = Array.from(forms.entries())
+    .sort(([a, aCount], [b, bCount]) => bCount - aCount || a.length - b.length || a.localeCompare(b));
+  return text;
+}
+
+/**
+ * Counts keyed by stem, remembering how each stem was written
+ */
+class StemCounter {
+  private entries = new Map<string, { count: number; forms: Map<string, number> }>();
+
+  add(key: string, form: string) {
+    const entry = this.entries.get(key) ?? { count: 0, forms: new Map<string, number>() };
+    entry.count += 1;
+    entry.forms.set(form, (entry.forms.get(form) ?? 0) + 1);
+    this.entries.set(key, entry);
+  }
+
+  top(limit: number, minCount = 1): TermCount[] {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.count >= minCount)
+      .map(entry => ({ text: mostCommonForm(entry.forms), count: entry.count }))
+      .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * The distinct words and two-word phrases in a text, keyed by stem (phrase
+ * keys contain a space) with the form first written
+ */
+export function extractTerms(text: string, stopWords: Set<string>): Map<string, string> {
+  const terms = new Map<string, string>();
+
+  tokenize(text).forEach(run => {
+    const words = run.map(word => (isContentWord(word, stopWords) ? word : null));
+
+    words.forEach((word, index) => {
+      if (!word) {
+        return;
+      }
+
+      const stem = stemWord(word);
+      if (!terms.has(stem)) {
+        terms.set(stem, word);
+      }
+
+      const next = words[index + 1];
+      if (next) {
+        const phraseKey = `${stem} ${stemWord(next)}`;
+        if (!terms.has(phraseKey)) {
+          terms.set(phraseKey, `${word} ${next}`);
+        }
+      }
+    });
+  });
+
+  return terms;
+}
+
+export function isPhrase(key: string): boolean {
+  return key.includes(' ');
+}
+
+/**
+ * Stemmed word and two-word phrase frequencies. Each term counts at most
+ * once per text, so one participant repeating a word can't dominate.
+ * Ordering is stable so every view of the same texts shows the same cloud.
+ */
+export function countTerms(texts: string[], options: TermCountOptions = {}): TermFrequencies {
+  const stopWords = getStopWords(options.stopWords);
+  const limit = options.limit ?? 30;
+  const unigrams = new StemCounter();
+  const bigrams = new StemCounter();
+
+  texts.forEach(text => {
+    extractTerms(text, stopWords).forEach((form, key) => {
+      (isPhrase(key) ? bigrams : unigrams).add(key, form);
+    });
+  });
+
+  return {
+    unigrams: unigrams.top(limit),
+    bigrams: bigrams.top(limit, MIN_BIGRAM_COUNT),
+  };
+}
+
+/**
+ * Terms over-represented on one side compared with the other. Each term is
+ * scored by the log odds ratio of the share of texts using it on each side,
+ * divided by its standard error. Terms used fewer than MIN_BIGRAM_COUNT
+ * times in all are skipped; the rest are ordered by how strongly they lean.
+ */
+export function compareTerms(sides: [string[], string[]], options: TermCountOptions = {}): ComparedTerm[] {
+  const stopWords = getStopWords(options.stopWords);
+  const limit = options.limit ?? 40;
+  const terms = new Map<string, { counts: [number, number]; matches: [number[], number[]]; forms: Map<string, number> }>();
+
+  sides.forEach((texts, side) => {
+    texts.forEach((text, index) => {
+      extractTerms(text, stopWords).forEach((form, key) => {
+        const term = terms.get(key) ?? { counts: [0, 0], matches: [[], []], forms: new Map<string, number>() };
+        term.counts[side] += 1;
+        term.matches[side].push(index);
+        term.forms.set(form, (term.forms.get(form) ?? 0) + 1);
+        terms.set(key, term);
+      });
+    });
+  });
+
+  const logOdds = (count: number, texts: number) => Math.log((count + SMOOTHING) / (texts - count + SMOOTHING));
+  const variance = (count: number, texts: number) => 1 / (count + SMOOTHING) + 1 / (texts - count + SMOOTHING);
+
+  return Array.from(terms.entries())
+    .filter(([, term]) => term.counts[0] + term.counts[1] >= MIN_BIGRAM_COUNT)
+    .map(([key, term]) => {
+      const [first, second] = term.counts;
+      const [firstTexts, secondTexts] = [sides[0].length, sides[1].length];
+      const zScore = (logOdds(first, firstTexts) - logOdds(second, secondTexts))
+        / Math.sqrt(variance(first, firstTexts) + variance(second, secondTexts));
+
+      const compared: ComparedTerm = {
+        text: mostCommonForm(term.forms),
+        kind: isPhrase(key) ? 'phrase' : 'word',
+        counts: term.counts,
+        zScore,
+        favours: zScore >= Z_THRESHOLD ? 0 : zScore <= -Z_THRESHOLD ? 1 : null,
+        matches: term.matches,
+      };
+      return compared;
+    })
+    .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore) || a.text.localeCompare(b.text))
+    .slice(0, limit);
+}
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { clusterThemes, MIN_THEMES, MAX_THEMES } from './themeClustering';
+
+const texts = [
+  'AI can scale support to every family',
+  'scale matters when demand is high',
+  'only AI can scale this fast',
+  'we need scale to reach rural families',
+  'human trust is everything here',
+  'families trust a human face',
+  'trust comes from human contact',
+  'people trust human caseworkers',
+  'the cost of staff is too high',
+  'staff cost keeps rising',
+  'cheaper than hiring more staff',
+  'budget cuts mean staff cost must fall',
+];
+
+describe('clusterThemes', () => {
+  it('groups texts that share terms', () => {
+    const { themes } = clusterThemes(texts);
+    const themeOf = (index: number) => themes.findIndex(theme => theme.members.includes(index));
+
+    assert.equal(themeOf(0), themeOf(2));
+    assert.equal(themeOf(4), themeOf(6));
+    assert.equal(themeOf(9), themeOf(11));
+    assert.notEqual(themeOf(0), themeOf(4));
+    assert.notEqual(themeOf(4), themeOf(9));
+  });
+
+  it('labels themes with their strongest terms', () => {
+    const { themes } = clusterThemes(texts);
+    assert.ok(themes.some(theme => theme.terms.includes('trust')));
+    assert.ok(themes.some(theme => theme.terms.includes('scale')));
+  });
+
+  it('returns between three and six themes, largest first', () => {
+    const { themes } = clusterThemes(texts);
+    assert.ok(themes.length >= MIN_THEMES && themes.length <= MAX_THEMES);
+    themes.slice(1).forEach((theme, index) => assert.ok(theme.count <= themes[index].count));
+  });
+
+  it('quotes members closest to the centre of each theme', () => {
+    clusterThemes(texts).themes.forEach(theme => {
+      assert.deepEqual(theme.quotes, theme.members.slice(0, 3).map(index => texts[index]));
+    });
+  });
+
+  it('gives the same themes every time', () => {
+    assert.deepEqual(clusterThemes(texts), clusterThemes(texts));
+  });
+
+  it('leaves out texts that share no terms with any other', () => {
+    const { themes, unthemed } = clusterThemes([...texts, 'zebras are lovely']);
+    assert.equal(unthemed, 1);
+    assert.ok(themes.every(theme => !theme.members.includes(texts.length)));
+  });
+
+  it('does not cluster a handful of texts', () => {
+    assert.deepEqual(clusterThemes(texts.slice(0, 4)), { themes: [], unthemed: 4 });
+  });
+});
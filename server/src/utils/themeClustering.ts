@@ -0,0 +1,275 @@
+import { extractTerms, getStopWords, isPhrase, mostCommonForm } from './textAnalysis';
+import type { TermCountOptions } from './textAnalysis';
+
+export const MIN_THEMES = 3;
+export const MAX_THEMES = 6;
+
+// Fewer texts than this aren't worth grouping; reading them is quicker
+export const MIN_TEXTS_TO_CLUSTER = MIN_THEMES * 2;
+
+// Quotes shown for each theme, closest to its centre first
+const QUOTES_PER_THEME = 3;
+const LABEL_TERMS = 3;
+const MAX_ITERATIONS = 50;
+const RESTARTS = 5;
+
+// Fixed so the same rationales always give the same themes
+const SEED = 20240611;
+
+export interface Theme {
+  label: string;
+  // The theme's most characteristic terms, strongest first
+  terms: string[];
+  count: number;
+  quotes: string[];
+  // Indexes of the texts in the theme, closest to its centre first
+  members: number[];
+}
+
+export interface ThemeResult {
+  themes: Theme[];
+  // Texts sharing no terms with any other text, so in no theme
+  unthemed: number;
+}
+
+type SparseVector = Map<number, number>;
+
+interface Clustering {
+  assignments: number[];
+  centroids: Float64Array[];
+}
+
+// Small seeded generator (mulberry32), so clustering is repeatable
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dot(vector: SparseVector, centroid: Float64Array): number {
+  let sum = 0;
+  vector.forEach((weight, index) => {
+    sum += weight * centroid[index];
+  });
+  return sum;
+}
+
+function sparseDot(a: SparseVector, b: SparseVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((weight, index) => {
+    sum += weight * (large.get(index) ?? 0);
+  });
+  return sum;
+}
+
+function toDense(vector: SparseVector, size: number): Float64Array {
+  const dense = new Float64Array(size);
+  vector.forEach((weight, index) => {
+    dense[index] = weight;
+  });
+  return dense;
+}
+
+function normalize(vector: Float64Array): Float64Array {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+/**
+ * TF-IDF vectors over terms used in at least two texts, scaled to unit length.
+ * Texts only use each term once, so term frequency is 0 or 1.
+ */
+function vectorize(termSets: Map<string, string>[]) {
+  const documentFrequency = new Map<string, number>();
+  termSets.forEach(terms => terms.forEach((_, key) => {
+    documentFrequency.set(key, (documentFrequency.get(key) ?? 0) + 1);
+  }));
+
+  const vocabulary = Array.from(documentFrequency.entries())
+    .filter(([, frequency]) => frequency >= 2)
+    .map(([key]) => key)
+    .sort();
+  const indexOf = new Map(vocabulary.map((key, index) => [key, index]));
+
+  const vectors = termSets.map(terms => {
+    const vector: SparseVector = new Map();
+    terms.forEach((_, key) => {
+      const index = indexOf.get(key);
+      if (index !== undefined) {
+        vector.set(index, Math.log((1 + termSets.length) / (1 + documentFrequency.get(key)!)) + 1);
+      }
+    });
+    const length = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+    vector.forEach((weight, index) => vector.set(index, weight / length));
+    return vector;
+  });
+
+  return { vocabulary, vectors };
+}
+
+/**
+ * Spherical k-means (cosine similarity) seeded with k-means++
+ */
+function kMeans(vectors: SparseVector[], k: number, size: number, random: () => number): Clustering {
+  const centroids: Float64Array[] = [toDense(vectors[Math.floor(random() * vectors.length)], size)];
+  while (centroids.length < k) {
+    const distances = vectors.map(vector => 1 - Math.max(...centroids.map(centroid => dot(vector, centroid))));
+    const total = distances.reduce((sum, distance) => sum + distance, 0);
+    let target = random() * total;
+    const next = distances.findIndex(distance => (target -= distance) <= 0);
+    centroids.push(toDense(vectors[next === -1 ? vectors.length - 1 : next], size));
+  }
+
+  let assignments = new Array<number>(vectors.length).fill(-1);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map(vector => {
+      const similarities = centroids.map(centroid => dot(vector, centroid));
+      return similarities.indexOf(Math.max(...similarities));
+    });
+    if (next.every((cluster, index) => cluster === assignments[index])) {
+      break;
+    }
+    assignments = next;
+
+    centroids.forEach((_, cluster) => {
+      const sum = new Float64Array(size);
+      vectors.forEach((vector, index) => {
+        if (assignments[index] === cluster) {
+          vector.forEach((weight, term) => {
+            sum[term] += weight;
+          });
+        }
+      });
+      // An empty cluster restarts from the text that fits its own cluster worst
+      if (sum.every(value => value === 0)) {
+        const worst = vectors
+          .map((vector, index) => ({ index, fit: dot(vector, centroids[assignments[index]]) }))
+          .sort((a, b) => a.fit - b.fit)[0].index;
+        centroids[cluster] = toDense(vectors[worst], size);
+        return;
+      }
+      centroids[cluster] = normalize(sum);
+    });
+  }
+
+  return { assignments, centroids };
+}
+
+/**
+ * Mean silhouette with cosine distance: how much closer texts are to their
+ * own theme than to the next nearest one. Higher is better, at most 1.
+ */
+function silhouette(vectors: SparseVector[], assignments: number[], k: number): number {
+  const scores = vectors.map((vector, index) => {
+    const distanceSums = new Array<number>(k).fill(0);
+    const sizes = new Array<number>(k).fill(0);
+    vectors.forEach((other, otherIndex) => {
+      if (otherIndex !== index) {
+        distanceSums[assignments[otherIndex]] += 1 - sparseDot(vector, other);
+        sizes[assignments[otherIndex]] += 1;
+      }
+    });
+
+    const own = assignments[index];
+    if (sizes[own] === 0) {
+      return 0;
+    }
+    const cohesion = distanceSums[own] / sizes[own];
+    const separation = Math.min(
+      ...distanceSums.map((sum, cluster) => (cluster === own || sizes[cluster] === 0 ? Infinity : sum / sizes[cluster]))
+    );
+    return separation === Infinity ? 0 : (separation - cohesion) / Math.max(cohesion, separation);
+  });
+
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+/**
+ * Group texts into MIN_THEMES to MAX_THEMES themes, using TF-IDF over the
+ * same stemmed words and phrases as the word cloud, and k-means. The number
+ * of themes is whichever separates the texts best by silhouette.
+ */
+export function clusterThemes(texts: string[], options: TermCountOptions = {}): ThemeResult {
+  const stopWords = getStopWords(options.stopWords);
+  const termSets = texts.map(text => extractTerms(text, stopWords));
+  const { vocabulary, vectors } = vectorize(termSets);
+
+  const clustered = vectors
+    .map((vector, index) => ({ vector, index }))
+    .filter(({ vector }) => vector.size > 0);
+  const unthemed = texts.length - clustered.length;
+
+  const maxThemes = Math.min(MAX_THEMES, Math.floor(clustered.length / 2));
+  if (clustered.length < MIN_TEXTS_TO_CLUSTER || maxThemes < MIN_THEMES) {
+    return { themes: [], unthemed: texts.length };
+  }
+
+  const random = createRandom(SEED);
+  const clusterVectors = clustered.map(({ vector }) => vector);
+  let best: (Clustering & { score: number; k: number }) | null = null;
+  for (let k = MIN_THEMES; k <= maxThemes; k++) {
+    for (let restart = 0; restart < RESTARTS; restart++) {
+      const clustering = kMeans(clusterVectors, k, vocabulary.length, random);
+      const score = silhouette(clusterVectors, clustering.assignments, k);
+      if (!best || score > best.score) {
+        best = { ...clustering, score, k };
+      }
+    }
+  }
+
+  const { assignments, centroids } = best!;
+
+  // How each term was written, for readable labels
+  const forms = new Map<string, Map<string, number>>();
+  termSets.forEach(terms => terms.forEach((form, key) => {
+    const counts = forms.get(key) ?? new Map<string, number>();
+    counts.set(form, (counts.get(form) ?? 0) + 1);
+    forms.set(key, counts);
+  }));
+
+  const themes = centroids
+    .map((centroid, cluster) => {
+      const members = clustered
+        .filter((_, position) => assignments[position] === cluster)
+        .map(({ vector, index }) => ({ index, fit: dot(vector, centroid) }))
+        .sort((a, b) => b.fit - a.fit)
+        .map(({ index }) => index);
+
+      // Strongest terms; a phrase stands in for the words it is made of
+      let keys: string[] = [];
+      Array.from(centroid)
+        .map((weight, index) => ({ key: vocabulary[index], weight }))
+        .filter(({ weight }) => weight > 0)
+        .sort((a, b) => b.weight - a.weight || a.key.localeCompare(b.key))
+        .forEach(({ key }) => {
+          if (keys.length >= LABEL_TERMS) {
+            return;
+          }
+          if (isPhrase(key)) {
+            const words = key.split(' ');
+            keys = [...keys.filter(chosen => !words.includes(chosen)), key];
+          } else if (!keys.some(chosen => isPhrase(chosen) && chosen.split(' ').includes(key))) {
+            keys.push(key);
+          }
+        });
+      const terms = keys.map(key => mostCommonForm(forms.get(key)!));
+
+      const theme: Theme = {
+        label: terms.join(' · '),
+        terms,
+        count: members.length,
+        quotes: members.slice(0, QUOTES_PER_THEME).map(index => texts[index]),
+        members,
+      };
+      return theme;
+    })
+    .filter(theme => theme.count > 0)
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+  return { themes, unthemed };
+}
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { median, voteDivision, groupDivision, latencyDistribution, mannWhitney, compareLatencies } from './voteStats';
+
+describe('median', () => {
+  it('takes the middle value', () => {
+    assert.equal(median([9, 1, 5]), 5);
+  });
+
+  it('averages the middle two of an even count', () => {
+    assert.equal(median([4, 1, 3, 2]), 2.5);
+  });
+
+  it('is null for no values', () => {
+    assert.equal(median([]), null);
+  });
+});
+
+describe('voteDivision', () => {
+  it('is 1 for an even split', () => {
+    assert.equal(voteDivision([10, 10]), 1);
+  });
+
+  it('is 0 when one track took every vote', () => {
+    assert.equal(voteDivision([12, 0]), 0);
+  });
+
+  it('compares the leader with the runner-up', () => {
+    assert.equal(voteDivision([5, 3, 2]), 0.8);
+  });
+
+  it('is null with no votes', () => {
+    assert.equal(voteDivision([0, 0]), null);
+  });
+});
+
+describe('groupDivision', () => {
+  it('weights scenarios by their votes and puts the most divided first', () => {
+    const groups = groupDivision([
+      { values: ['privacy', 'equity'], votes: 30, division: 0.9 },
+      { values: ['privacy'], votes: 10, division: 0.1 },
+      { values: ['equity'], votes: 10, division: 0.9 },
+    ]);
+
+    assert.deepEqual(groups.map(group => group.value), ['equity', 'privacy']);
+    assert.equal(groups[1].scenarios, 2);
+    assert.equal(groups[1].votes, 40);
+    assert.ok(Math.abs(groups[1].division - 0.7) < 1e-9);
+  });
+
+  it('skips scenarios without votes', () => {
+    assert.deepEqual(groupDivision([{ values: ['privacy'], votes: 0, division: null }]), []);
+  });
+});
+
+describe('latencyDistribution', () => {
+  it('reports quartiles and fills the histogram buckets', () => {
+    const distribution = latencyDistribution([2000, 4000, 8000, 12000, 90000]);
+
+    assert.equal(distribution.count, 5);
+    assert.equal(distribution.medianMs, 8000);
+    assert.equal(distribution.p25Ms, 4000);
+    assert.equal(distribution.p75Ms, 12000);
+    assert.deepEqual(distribution.buckets, [2, 1, 1, 0, 0, 1]);
+  });
+
+  it('has no quartiles without votes', () => {
+    const distribution = latencyDistribution([]);
+
+    assert.equal(distribution.medianMs, null);
+    assert.deepEqual(distribution.buckets, [0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe('mannWhitney', () => {
+  it('finds samples that do not overlap', () => {
+    const { zScore, pValue } = mannWhitney([1, 2, 3, 4, 5], [6, 7, 8, 9, 10]);
+
+    assert.ok(zScore < 0);
+    assert.ok(Math.abs(pValue - 0.0122) < 0.001);
+  });
+
+  it('finds nothing between identical samples', () => {
+    assert.equal(mannWhitney([3, 3, 3], [3, 3, 3]).pValue, 1);
+  });
+});
+
+describe('compareLatencies', () => {
+  it('names the side with the lower median as faster', () => {
+    const comparison = compareLatencies(
+      { id: 'dont_pull', values: [9000, 11000, 12000, 15000, 20000] },
+      { id: 'pull', values: [2000, 3000, 3500, 4000, 6000] }
+    );
+
+    assert.equal(comparison?.faster, 'pull');
+    assert.equal(comparison?.slower, 'dont_pull');
+    assert.equal(comparison?.medianGapMs, 8500);
+    assert.equal(comparison?.significant, true);
+  });
+
+  it('does not call overlapping samples a difference', () => {
+    const comparison = compareLatencies(
+      { id: 'pull', values: [3000, 8000, 5000, 12000] },
+      { id: 'dont_pull', values: [4000, 7000, 6000, 11000] }
+    );
+
+    assert.equal(comparison?.significant, false);
+  });
+
+  it('needs a few timed votes on each side', () => {
+    assert.equal(compareLatencies({ id: 'pull', values: [1000, 2000] }, { id: 'dont_pull', values: [3000, 4000, 5000] }), null);
+  });
+});
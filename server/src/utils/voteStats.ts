@@ -0,0 +1,165 @@
+import type { LatencyDistribution, LatencyComparison, DivisionGroup } from '../../../shared/contracts';
+
+export type { LatencyDistribution, LatencyComparison, DivisionGroup };
+
+// Upper edges of the decision time histogram; the last bucket is open-ended
+export const LATENCY_BUCKETS_MS = [5000, 10000, 20000, 30000, 60000];
+
+// Two-sided: below this p-value one side really did decide faster
+export const LATENCY_SIGNIFICANCE = 0.05;
+
+// Fewer timed votes than this on a side say nothing about its speed
+export const MIN_LATENCY_SAMPLES = 3;
+
+/**
+ * Linearly interpolated quantile of sorted values, q from 0 to 1
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * The middle value, or the mean of the middle two; null when there are none
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return quantile([...values].sort((a, b) => a - b), 0.5);
+}
+
+export function latencyDistribution(values: number[]): LatencyDistribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const buckets = new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  sorted.forEach(value => {
+    const bucket = LATENCY_BUCKETS_MS.findIndex(edge => value < edge);
+    buckets[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket] += 1;
+  });
+
+  return {
+    count: sorted.length,
+    medianMs: sorted.length > 0 ? quantile(sorted, 0.5) : null,
+    p25Ms: sorted.length > 0 ? quantile(sorted, 0.25) : null,
+    p75Ms: sorted.length > 0 ? quantile(sorted, 0.75) : null,
+    buckets,
+  };
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided Mann-Whitney U test of whether one sample tends to be smaller.
+ * Ranks rather than means, since decision times are heavily skewed.
+ */
+export function mannWhitney(a: number[], b: number[]): { zScore: number; pValue: number } {
+  const pooled = [...a.map(value => ({ value, first: true })), ...b.map(value => ({ value, first: false }))]
+    .sort((x, y) => x.value - y.value);
+
+  // Tied values share the mean of their ranks
+  let rankSumA = 0;
+  let tieTerm = 0;
+  for (let start = 0; start < pooled.length;) {
+    let end = start;
+    while (end + 1 < pooled.length && pooled[end + 1].value === pooled[start].value) {
+      end++;
+    }
+    const ties = end - start + 1;
+    const rank = (start + end) / 2 + 1;
+    for (let index = start; index <= end; index++) {
+      if (pooled[index].first) {
+        rankSumA += rank;
+      }
+    }
+    tieTerm += ties ** 3 - ties;
+    start = end + 1;
+  }
+
+  const [n1, n2] = [a.length, b.length];
+  const total = n1 + n2;
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+  const mean = (n1 * n2) / 2;
+  const variance = ((n1 * n2) / 12) * (total + 1 - tieTerm / (total * (total - 1)));
+  if (variance <= 0) {
+    return { zScore: 0, pValue: 1 };
+  }
+
+  // Continuity correction towards the mean
+  const zScore = (u - mean - Math.sign(u - mean) * 0.5) / Math.sqrt(variance);
+  return { zScore, pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(zScore)))) };
+}
+
+/**
+ * Whether voters for one track decided faster than voters for another, or
+ * null when either has too few timed votes to tell
+ */
+export function compareLatencies(first: { id: string; values: number[] }, second: { id: string; values: number[] }): LatencyComparison | null {
+  if (first.values.length < MIN_LATENCY_SAMPLES || second.values.length < MIN_LATENCY_SAMPLES) {
+    return null;
+  }
+
+  const firstMedian = median(first.values)!;
+  const secondMedian = median(second.values)!;
+  const [faster, slower] = firstMedian <= secondMedian ? [first, second] : [second, first];
+  const { pValue } = mannWhitney(first.values, second.values);
+
+  return {
+    faster: faster.id,
+    slower: slower.id,
+    medianGapMs: Math.abs(secondMedian - firstMedian),
+    pValue,
+    significant: pValue < LATENCY_SIGNIFICANCE,
+  };
+}
+
+/**
+ * How evenly a vote split, from 0 (one track took every vote) to 1 (the two
+ * leading tracks tied). Leader against runner-up, as in the client's
+ * confidence summary, so it reads the same for any number of tracks.
+ */
+export function voteDivision(counts: number[]): number | null {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return null;
+  }
+  const [leader, runnerUp = 0] = [...counts].sort((a, b) => b - a);
+  return 1 - (leader - runnerUp) / total;
+}
+
+/**
+ * Division per tag value (an ethical axis, a difficulty level), most divided
+ * first. Scenarios nobody has voted on are left out.
+ */
+export function groupDivision(items: Array<{ values: string[]; votes: number; division: number | null }>): DivisionGroup[] {
+  const groups = new Map<string, { scenarios: number; votes: number; weighted: number }>();
+
+  items.forEach(item => {
+    if (item.division === null || item.votes === 0) {
+      return;
+    }
+    new Set(item.values).forEach(value => {
+      const group = groups.get(value) ?? { scenarios: 0, votes: 0, weighted: 0 };
+      group.scenarios += 1;
+      group.votes += item.votes;
+      group.weighted += item.division! * item.votes;
+      groups.set(value, group);
+    });
+  });
+
+  return Array.from(groups.entries())
+    .map(([value, group]) => ({
+      value,
+      scenarios: group.scenarios,
+      votes: group.votes,
+      division: group.weighted / group.votes,
+    }))
+    .sort((a, b) => b.division - a.division || b.votes - a.votes || a.value.localeCompare(b.value));
+}
@@ -0,0 +1,518 @@
+/**
+ * REST request and response shapes shared by the server and the client.
+ *
+ * Types carrying timestamps take the timestamp type as a parameter: the
+ * server builds them with Date objects, which arrive at the client as ISO
+ * strings, the default.
+ */
+
+// Every failed request; validation failures list the zod issues instead of a message
+export interface ApiError {
+  error: string | ValidationIssue[];
+  // Per-field problems with a submitted scenario or moderation profile
+  fields?: Array<{ field: string; message: string }>;
+}
+
+export interface ValidationIssue {
+  path: Array<string | number>;
+  message: string;
+}
+
+export type SessionStatus = 'waiting' | 'active' | 'complete' | 'cancelled';
+
+export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export type GamePhase = 'waiting' | 'voting' | 'results' | 'completed';
+
+export interface RoomConfig {
+  timerDuration?: number;
+  maxParticipants?: number;
+  moderationEnabled?: boolean;
+  // Hold rationales and mitigations until the facilitator reviews them
+  moderationQueue?: boolean;
+  // Custom word lists and redaction rules, see /moderation-profiles
+  moderationProfileId?: string;
+  contentWarnings?: boolean;
+}
+
+export interface Session<Time = string> {
+  id: string;
+  roomCode: string;
+  facilitatorId: string | null;
+  createdAt: Time;
+  endedAt: Time | null;
+  config: RoomConfig;
+  status: SessionStatus;
+  metadata: Record<string, unknown>;
+}
+
+// A room as its status endpoint reports it
+export interface RoomStatus<Time = string> extends Session<Time> {
+  activeParticipants: number;
+}
+
+export interface Participant<Time = string> {
+  id: string;
+  sessionId: string;
+  fingerprint: string;
+  joinedAt: Time;
+  leftAt: Time | null;
+  userAgent: string | null;
+  ipHash: string | null;
+  isActive: boolean;
+  metadata: Record<string, unknown>;
+}
+
+export interface Vote<Time = string> {
+  id: string;
+  sessionId: string;
+  participantId: string;
+  scenarioId: string;
+  vote: string;
+  round: number;
+  // 1 (unsure) to 5 (certain), when given
+  confidence: number | null;
+  createdAt: Time;
+  // From the voting round opening
+  latencyMs: number | null;
+}
+
+/**
+ * One labelled option in a scenario. Scenarios without tracks offer the
+ * classic pull / don't pull pair built from aiOption and nonAiOption.
+ */
+export interface ScenarioTrack {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+// Impact estimates as in schemas/scenario.schema.json; scenarios may add their own
+export interface ScenarioMetrics {
+  benefit_estimate?: string;
+  error_rate?: string;
+  cost_comparison?: string;
+  [key: string]: unknown;
+}
+
+export interface Scenario<Time = string> {
+  id: string;
+  title: string;
+  context: string;
+  aiOption: string;
+  nonAiOption: string;
+  assumptions: string[];
+  ethicalAxes: string[];
+  riskNotes: string | null;
+  metrics: ScenarioMetrics;
+  contentWarnings: string[];
+  difficultyLevel: DifficultyLevel;
+  discussionPrompts: string[];
+  mitigations: string[] | null;
+  tracks: ScenarioTrack[] | null;
+  isActive: boolean;
+  createdAt: Time;
+  updatedAt: Time;
+}
+
+// One planned scenario in a session's deck
+export interface DeckEntry<Time = string> {
+  id: string;
+  position: number;
+  status: 'pending' | 'active' | 'complete';
+  scenario: Scenario<Time>;
+}
+
+export type DeckMove =
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'jump'; position: number };
+
+export type ExportFormat = 'csv' | 'json' | 'md' | 'pdf';
+
+// Canonical phase as broadcast by the server; deadline and server_time are ISO strings
+export interface PhaseState {
+  session_id: string;
+  scenario_id: string | null;
+  phase: GamePhase;
+  deadline: string | null;
+  deck_position: number;
+  deck_size: number;
+  round: number;
+  // Round the current play of the scenario opened with; later ones are re-votes
+  first_round: number;
+  server_time: string;
+}
+
+// Votes at each confidence rating per track id; index 0 is rating 1, index 4 rating 5
+export type ConfidenceDistribution = Record<string, number[]>;
+
+// Time from voting opening to each vote on one track
+export interface LatencyDistribution {
+  count: number;
+  medianMs: number | null;
+  // Quartiles, so one slow voter doesn't stretch the picture
+  p25Ms: number | null;
+  p75Ms: number | null;
+  // Votes in each decision time bucket, plus one for anything slower
+  buckets: number[];
+}
+
+// Whether voters for the two most chosen tracks decided at different speeds
+export interface LatencyComparison {
+  faster: string;
+  slower: string;
+  // Slower side's median minus the faster side's
+  medianGapMs: number;
+  // Mann-Whitney U, normal approximation
+  pValue: number;
+  significant: boolean;
+}
+
+// Tallies for one voting round on a scenario
+export interface VoteSummary {
+  round: number;
+  totalVotes: number;
+  trackVotes: Record<string, number>;
+  avgLatencyMs: number;
+  confidence: ConfidenceDistribution;
+  latency: Record<string, LatencyDistribution>;
+  latencyComparison: LatencyComparison | null;
+}
+
+// How participants switched sides between the first round and the latest re-vote
+export interface VoteShift {
+  fromRound: number;
+  toRound: number;
+  // Participants who voted in both rounds
+  compared: number;
+  unchanged: number;
+  moves: { from: string; to: string; count: number }[];
+}
+
+export type ModerationKind = 'rationale' | 'mitigation';
+
+export type ReviewStatus = 'pending' | 'approved' | 'hidden';
+
+// A rationale or mitigation held for the facilitator's review
+export interface ModerationItem<Time = string> {
+  id: string;
+  kind: ModerationKind;
+  scenarioId: string;
+  participantId: string;
+  vote: string;
+  // As it would be published, after moderation
+  text: string;
+  status: ReviewStatus;
+  createdAt: Time;
+}
+
+/**
+ * What the facilitator decided about a held item. Redacting approves the
+ * item with the facilitator's edited text, moderated again, in place of
+ * the original.
+ */
+export type ReviewDecision =
+  | { action: 'approve' }
+  | { action: 'redact'; text: string }
+  | { action: 'hide' };
+
+export interface TermCount {
+  text: string;
+  count: number;
+}
+
+// Stemmed word and two-word phrase counts for one track
+export interface TrackWordCloud {
+  unigrams: TermCount[];
+  bigrams: TermCount[];
+}
+
+// A term from comparing two tracks; pairs are in the order of the compared tracks
+export interface ComparedTerm {
+  text: string;
+  kind: 'word' | 'phrase';
+  // Texts on each side that use the term
+  counts: [number, number];
+  // Log-odds z-score, positive when the first side uses the term more
+  zScore: number;
+  // The side the term is over-represented on, or null when shared
+  favours: 0 | 1 | null;
+  // Indexes of the texts on each side that use the term
+  matches: [number[], number[]];
+}
+
+export interface WordCloudComparison {
+  tracks: [string, string];
+  rationales: [string[], string[]];
+  terms: ComparedTerm[];
+}
+
+// A group of similar rationales or mitigations
+export interface Theme {
+  label: string;
+  // The theme's most characteristic terms, strongest first
+  terms: string[];
+  count: number;
+  // Closest to the centre of the theme first
+  quotes: string[];
+}
+
+// A rationale theme also says which tracks its voters chose
+export interface RationaleTheme extends Theme {
+  trackCounts: Record<string, number>;
+}
+
+export interface ScenarioThemes {
+  rationales: { themes: RationaleTheme[]; unthemed: number };
+  mitigations: { themes: Theme[]; unthemed: number };
+}
+
+// One scenario's results across every session
+export interface ScenarioAnalytics {
+  scenarioId: string;
+  title: string;
+  difficultyLevel: string;
+  ethicalAxes: string[];
+  isActive: boolean;
+  tracks: ScenarioTrack[];
+  // Sessions that started the scenario
+  plays: number;
+  // Opening-round votes of each session's latest play, so re-votes after
+  // discussion and votes from abandoned plays don't count twice
+  totalVotes: number;
+  trackVotes: Record<string, number>;
+  // 0 when one track took every vote, 1 when the leading two tied
+  division: number | null;
+  medianLatencyMs: number | null;
+}
+
+export interface DivisionGroup {
+  value: string;
+  scenarios: number;
+  votes: number;
+  // Vote-weighted mean division of the group's scenarios
+  division: number;
+}
+
+export interface AnalyticsOverview {
+  scenarios: ScenarioAnalytics[];
+  byEthicalAxis: DivisionGroup[];
+  byDifficulty: DivisionGroup[];
+}
+
+// The room as it stood just after one logged event
+export interface ReplayFrame {
+  sequence: number;
+  type: string;
+  // Since the first logged event
+  elapsedMs: number;
+  phase: GamePhase | null;
+  scenarioId: string | null;
+  round: number;
+  totalVotes: number;
+  trackVotes: Record<string, number>;
+  // Winning track so far, 'tie' when level, null before any votes
+  leader: string | null;
+  // Rationales shown so far on this scenario and round
+  rationaleCount: number;
+  // The track voted for or argued, on vote and rationale events
+  vote: string | null;
+}
+
+export interface ReplayRationale {
+  // The frame at which it reached the room
+  sequence: number;
+  scenarioId: string;
+  round: number;
+  vote: string;
+  rationale: string;
+}
+
+// A session's event log, folded into frames to step through
+export interface SessionReplay<Time = string> {
+  session: {
+    id: string;
+    roomCode: string;
+    status: SessionStatus;
+    createdAt: Time;
+    endedAt: Time | null;
+  };
+  // Scenarios in the session's deck, in deck order
+  scenarios: Array<{ id: string; title: string; tracks: ScenarioTrack[] | null }>;
+  frames: ReplayFrame[];
+  rationales: ReplayRationale[];
+}
+
+// A saved moderation profile as offered in room config
+export interface ModerationProfileSummary {
+  id: string;
+  name: string;
+}
+
+// A client organization; its sessions, private scenarios and profiles are isolated from others
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+// A facilitator account; its rooms can be listed and resumed from any device
+export interface FacilitatorAccount {
+  id: string;
+  email: string;
+  name: string | null;
+  organizationId: string | null;
+}
+
+// A room opened from a facilitator account
+export interface AccountSession<Time = string> {
+  id: string;
+  roomCode: string;
+  status: SessionStatus;
+  phase: GamePhase;
+  createdAt: Time;
+  endedAt: Time | null;
+  participantCount: number;
+  // Waiting and active rooms can be taken over
+  resumable: boolean;
+}
+
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+// One server instance and its dependencies, as /health/live and /health/ready report them
+export interface HealthReport<Time = string> {
+  status: 'ok' | 'unavailable';
+  // Why the instance is not ready; liveness never lists any
+  problems: string[];
+  timestamp: Time;
+  uptimeSeconds: number;
+  database: {
+    reachable: boolean;
+    // Failed connection attempts since the last success
+    connectionAttempts: number;
+    pool: { total: number; idle: number; waiting: number } | null;
+  };
+  // Database circuit breakers by query name
+  circuits: Record<string, CircuitState>;
+  // Sockets and the sessions they joined, on this instance only
+  sockets: number;
+  activeSessions: number;
+}
+
+export interface CreateRoomRequest {
+  config?: RoomConfig;
+  scenarioIds?: string[];
+}
+
+export interface CreateRoomResponse<Time = string> {
+  room: Session<Time>;
+  facilitatorToken: string;
+}
+
+export interface JoinRoomRequest {
+  roomCode: string;
+  fingerprint: string;
+  userAgent?: string;
+}
+
+export interface JoinRoomResponse<Time = string> {
+  participant: Participant<Time>;
+  session: Session<Time>;
+  // Identifies the participant to the socket and to the session's read routes
+  participantToken: string;
+}
+
+// A scenario's place in a session's deck, as the start and re-vote endpoints return it
+export interface SessionScenario<Time = string> {
+  id: string;
+  sessionId: string;
+  scenarioId: string;
+  status: DeckEntry['status'];
+  startedAt: Time | null;
+  endedAt: Time | null;
+  orderIndex: number | null;
+  round: number;
+}
+
+export interface StartScenarioResponse<Time = string> {
+  sessionScenario: SessionScenario<Time>;
+  phase: PhaseState;
+}
+
+export interface AdvancePhaseRequest {
+  phase: 'results' | 'waiting';
+}
+
+// Sent with the participant token of the voter
+export interface SubmitVoteRequest {
+  sessionId: string;
+  scenarioId: string;
+  vote: string;
+  // 1 (unsure) to 5 (certain)
+  confidence?: number;
+  rationale?: string;
+  mitigation?: string;
+}
+
+export interface SubmitVoteResponse<Time = string> {
+  // With the rationale as the room will see it
+  vote: Vote<Time> & { rationale: string | null };
+  summary: VoteSummary | null;
+}
+
+export interface ModerationQueueResponse<Time = string> {
+  items: ModerationItem<Time>[];
+}
+
+export interface ReviewResponse<Time = string> {
+  item: ModerationItem<Time>;
+}
+
+export interface ModerationProfilesResponse {
+  profiles: ModerationProfileSummary[];
+}
+
+export interface OrganizationSignInRequest {
+  slug: string;
+  accessKey: string;
+}
+
+export interface OrganizationSignInResponse {
+  organization: Organization;
+  facilitatorToken: string;
+}
+
+export interface CurrentOrganizationResponse {
+  organization: Organization | null;
+}
+
+export interface RegisterAccountRequest {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface LoginAccountRequest {
+  email: string;
+  password: string;
+}
+
+// Registering or signing in; the token opens rooms that belong to the account
+export interface AccountSignInResponse {
+  account: FacilitatorAccount;
+  accountToken: string;
+}
+
+export interface AccountResponse {
+  account: FacilitatorAccount;
+}
+
+export interface AccountSessionsResponse<Time = string> {
+  sessions: AccountSession<Time>[];
+}
+
+export interface ResumeSessionResponse<Time = string> {
+  room: Session<Time>;
+  facilitatorToken: string;
+}
@@ -0,0 +1,6 @@
+/**
+ * Types shared by the server and the client. Both only import types from
+ * here, so nothing in this directory is compiled or bundled on its own.
+ */
+export * from './api';
+export * from './realtime';
@@ -0,0 +1,160 @@
+/**
+ * Socket.io messages shared by the server and the client. Payloads follow
+ * schemas/events.schema.json, which the server checks them against at
+ * runtime; these types catch the same drift at compile time.
+ */
+import type {
+  ConfidenceDistribution,
+  LatencyComparison,
+  LatencyDistribution,
+  PhaseState,
+  Scenario,
+} from './api';
+
+/**
+ * Everything a client needs to rebuild its view of a session after a
+ * reconnect. Field names follow the realtime payloads.
+ */
+export interface SessionSnapshot<Time = string> {
+  session_id: string;
+  room_code: string;
+  status: string;
+  active_participants: number;
+  phase: PhaseState;
+  scenario: Scenario<Time> | null;
+  tallies: {
+    total_votes: number;
+    track_votes: Record<string, number>;
+    confidence: ConfidenceDistribution;
+    latency: Record<string, LatencyDistribution>;
+    latency_comparison: LatencyComparison | null;
+  } | null;
+  my_vote: {
+    vote: string;
+    rationale: string | null;
+  } | null;
+}
+
+// One problem with a refused message; path is a JSON pointer, empty for the payload itself
+export interface PayloadError {
+  path: string;
+  message: string;
+}
+
+// Sent back to a socket whose message was refused, or failed on the server
+export interface RejectedMessage {
+  code: 'invalid_payload' | 'unknown_event' | 'unauthorized' | 'server_error';
+  event: string;
+  message: string;
+  errors: PayloadError[];
+}
+
+// Server to client, see events in events.schema.json
+export interface RealtimeEvents<Time = string> {
+  participant_joined: {
+    participant_id: string;
+    room_code: string;
+    active_count: number;
+  };
+  participant_left: {
+    participant_id: string;
+    room_code: string;
+    active_count: number;
+  };
+  // Sent after each vote with the scenario's running tallies
+  vote_cast: {
+    session_id: string;
+    scenario_id: string;
+    vote: string;
+    round: number;
+    total_votes: number;
+    track_votes: Record<string, number>;
+    confidence: ConfidenceDistribution;
+    latency: Record<string, LatencyDistribution>;
+    latency_comparison: LatencyComparison | null;
+  };
+  rationale_added: {
+    session_id: string;
+    scenario_id: string;
+    vote: string;
+    rationale: string;
+    participant_id: string;
+  };
+  timer_started: {
+    session_id: string;
+    scenario_id: string;
+    duration: number;
+    start_time: string;
+  };
+  timer_tick: {
+    session_id: string;
+    scenario_id: string;
+    seconds_remaining: number;
+  };
+  scenario_started: {
+    session_id: string;
+    scenario_id: string;
+    scenario_title: string;
+  };
+  session_ended: {
+    session_id: string;
+    room_code: string;
+  };
+  decision_announced: {
+    session_id: string;
+    scenario_id: string;
+    // A track id, or 'tie' when the lead is shared
+    decision: string;
+    track_votes: Record<string, number>;
+    total_votes: number;
+  };
+  // Held text is never broadcast; the facilitator fetches the queue instead
+  moderation_queue_updated: {
+    session_id: string;
+    pending_count: number;
+  };
+  phase_changed: PhaseState;
+  sync_state: SessionSnapshot<Time>;
+  // Only to the socket whose message was refused
+  error: RejectedMessage;
+}
+
+export type RealtimeEventType = keyof RealtimeEvents;
+
+// Client to server, see commands in events.schema.json
+export interface RealtimeCommands {
+  // Without a participant id the socket watches the room, as facilitators and projectors do
+  join_room: { sessionId: string; participantId?: string };
+  sync_state: { sessionId: string; participantId: string | null };
+  leave_room: Record<string, never>;
+  start_timer: { sessionId: string; scenarioId: string; duration: number };
+  start_scenario: { sessionId: string; scenarioId: string; scenarioTitle: string };
+  announce_decision: {
+    sessionId: string;
+    scenarioId: string;
+    decision: string;
+    trackVotes: Record<string, number>;
+    totalVotes: number;
+  };
+  end_session: { sessionId: string; roomCode: string };
+}
+
+export type RealtimeCommandType = keyof RealtimeCommands;
+
+// The answer to a sync_state request
+export interface SyncStateAck<Time = string> {
+  snapshot: SessionSnapshot<Time> | null;
+  error: string | null;
+}
+
+// Listener maps in the form socket.io's typed Server and Socket take
+export type ServerToClientEvents<Time = string> = {
+  [E in RealtimeEventType]: (data: RealtimeEvents<Time>[E]) => void;
+};
+
+export type ClientToServerEvents<Time = string> = {
+  [C in Exclude<RealtimeCommandType, 'sync_state' | 'leave_room'>]: (data: RealtimeCommands[C]) => void;
+} & {
+  sync_state: (data: RealtimeCommands['sync_state'], ack: (result: SyncStateAck<Time>) => void) => void;
+  leave_room: () => void;
+};